@@ -17,7 +17,11 @@ import SettingsScreen from './src/screens/SettingsScreen';
 import { LiveCamerasScreen } from './src/screens/LiveCamerasScreen';
 import { EventsScreen } from './src/screens/EventsScreen';
 import { CameraLiveScreenWebRTC } from './src/screens/CameraLiveScreen_WEBRTC';
+import { LiveWallScreen } from './src/screens/LiveWallScreen';
 import { EventDetailsScreen } from './src/screens/EventDetailsScreen';
+import { NotificationSettingsScreen } from './src/screens/NotificationSettingsScreen';
+import { NotificationInboxScreen } from './src/screens/NotificationInboxScreen';
+import { notificationService } from './src/services/notificationService';
 import { darkTheme, lightTheme } from './src/theme/theme';
 
 // Initialize Sentry for error tracking (optional - only if DSN is configured)
@@ -119,7 +123,24 @@ interface AppNavigatorProps {
 }
 
 function AppNavigator({ themePreference, onThemeChange }: AppNavigatorProps) {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, activeServer, switchServer } = useAuth();
+
+  // Open the event behind a tapped detection notification, on the server it came from
+  React.useEffect(() => {
+    if (!isAuthenticated) return;
+
+    return notificationService.onNotificationOpen(async ({ eventId, serverId }) => {
+      if (serverId && serverId !== activeServer?.id) {
+        try {
+          await switchServer(serverId);
+        } catch (error) {
+          console.warn('Could not switch to the notification\'s server:', error);
+          return;
+        }
+      }
+      navigationRef.current?.navigate('EventDetails', { eventId });
+    });
+  }, [isAuthenticated, activeServer?.id, switchServer]);
 
   if (isLoading) {
     return null; // Or a loading screen
@@ -155,7 +176,13 @@ function AppNavigator({ themePreference, onThemeChange }: AppNavigatorProps) {
             {() => <MainTabs themePreference={themePreference} onThemeChange={onThemeChange} />}
           </Stack.Screen>
           <Stack.Screen name="CameraLive" component={CameraLiveScreenWebRTC} />
+          <Stack.Screen name="LiveWall" component={LiveWallScreen} />
           <Stack.Screen name="EventDetails" component={EventDetailsScreen} />
+          <Stack.Screen name="NotificationSettings" component={NotificationSettingsScreen} />
+          <Stack.Screen name="NotificationInbox" component={NotificationInboxScreen} />
+          {/* Adding another Frigate server reuses the setup flow */}
+          <Stack.Screen name="URLSetup" component={URLSetupScreen} />
+          <Stack.Screen name="Login" component={LoginScreen} />
         </Stack.Navigator>
       ) : (
         <Stack.Navigator screenOptions={{ headerShown: false }}>
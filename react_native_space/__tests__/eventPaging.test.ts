@@ -0,0 +1,35 @@
+import { PAGE_SIZE, appendPage, getPageCursor } from '../src/services/eventPaging';
+
+const items = (ids: string[]) => ids.map(id => ({ id }));
+
+const fullPage = (prefix: string) => items(Array.from({ length: PAGE_SIZE }, (_, index) => `${prefix}${index}`));
+
+describe('getPageCursor', () => {
+  it('reaches just past the oldest item so ones sharing its timestamp come back', () => {
+    const cursor = getPageCursor(1767600000);
+    expect(cursor).toBeGreaterThan(1767600000);
+    expect(cursor).toBeLessThan(1767600000.01);
+  });
+});
+
+describe('appendPage', () => {
+  it('appends the page, dropping items already loaded', () => {
+    const appended = appendPage(items(['a', 'b']), items(['b', 'c']));
+    expect(appended.items).toEqual(items(['a', 'b', 'c']));
+  });
+
+  it('keeps paging after a full page with new items', () => {
+    expect(appendPage(items(['a']), fullPage('page-')).hasMore).toBe(true);
+  });
+
+  it('stops after a short page', () => {
+    expect(appendPage(items(['a']), items(['b'])).hasMore).toBe(false);
+  });
+
+  it('stops when a full page only repeats what is loaded', () => {
+    const loaded = fullPage('page-');
+    const appended = appendPage(loaded, fullPage('page-'));
+    expect(appended.items).toHaveLength(PAGE_SIZE);
+    expect(appended.hasMore).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import { getSortedCameras, parseFrigateConfig } from '../src/services/frigateConfig';
+
+describe('parseFrigateConfig', () => {
+  it('fills in defaults for a camera with no sections', () => {
+    const camera = parseFrigateConfig({ cameras: { front_door: {} } }).cameras.front_door;
+
+    expect(camera.enabled).toBe(true);
+    expect(camera.record).toEqual({
+      enabled: false,
+      retain_days: 0,
+      alerts_retain_days: null,
+      detections_retain_days: null,
+    });
+    expect(camera.objects.track).toEqual(['person']);
+    expect(camera.live.streams).toEqual({ front_door: 'front_door' });
+    expect(camera.review.alerts.labels).toEqual(['person', 'car']);
+    expect(camera.review.detections.labels).toBeNull();
+    expect(camera.ui).toEqual({ order: 0, dashboard: true });
+  });
+
+  it('tolerates a missing or malformed response', () => {
+    for (const raw of [null, 'error', [], { cameras: [] }]) {
+      const config = parseFrigateConfig(raw);
+      expect(config.cameras).toEqual({});
+      expect(config.camera_groups).toEqual({});
+      expect(config.ui.time_format).toBe('browser');
+    }
+  });
+
+  it('reads live.streams (0.15+) and live.stream_name (0.14 and older)', () => {
+    const config = parseFrigateConfig({
+      cameras: {
+        front_door: { live: { streams: { Main: 'front_door', Sub: 'front_door_sub', Broken: 5 } } },
+        garage: { live: { stream_name: 'garage_restream' } },
+      },
+    });
+
+    expect(config.cameras.front_door.live.streams).toEqual({ Main: 'front_door', Sub: 'front_door_sub' });
+    expect(config.cameras.garage.live.streams).toEqual({ garage_restream: 'garage_restream' });
+  });
+
+  it('reads retention from either record schema', () => {
+    const config = parseFrigateConfig({
+      cameras: {
+        current: {
+          record: {
+            enabled: true,
+            continuous: { days: 3 },
+            alerts: { retain: { days: 14 } },
+            detections: { retain: { days: 7 } },
+          },
+        },
+        legacy: { record: { enabled: true, retain: { days: 2 }, events: { retain: { default: 10 } } } },
+      },
+    });
+
+    expect(config.cameras.current.record).toEqual({
+      enabled: true,
+      retain_days: 3,
+      alerts_retain_days: 14,
+      detections_retain_days: 7,
+    });
+    expect(config.cameras.legacy.record).toEqual({
+      enabled: true,
+      retain_days: 2,
+      alerts_retain_days: 10,
+      detections_retain_days: 10,
+    });
+  });
+
+  it('keeps only ffmpeg inputs with a path', () => {
+    const config = parseFrigateConfig({
+      cameras: {
+        front_door: {
+          ffmpeg: {
+            inputs: [
+              { path: 'rtsp://127.0.0.1:8554/front_door', roles: ['record'] },
+              { path: 'rtsp://127.0.0.1:8554/front_door_sub', roles: ['detect', 'audio'] },
+              { roles: ['detect'] },
+            ],
+          },
+        },
+      },
+    });
+
+    expect(config.cameras.front_door.ffmpeg.inputs).toEqual([
+      { path: 'rtsp://127.0.0.1:8554/front_door', roles: ['record'] },
+      { path: 'rtsp://127.0.0.1:8554/front_door_sub', roles: ['detect', 'audio'] },
+    ]);
+  });
+
+  it('accepts go2rtc sources as a string or a list', () => {
+    const config = parseFrigateConfig({
+      go2rtc: {
+        streams: {
+          front_door: 'rtsp://camera/main',
+          garage: ['rtsp://camera/garage', 'ffmpeg:garage#audio=opus', 7],
+        },
+      },
+    });
+
+    expect(config.go2rtc.streams).toEqual({
+      front_door: ['rtsp://camera/main'],
+      garage: ['rtsp://camera/garage', 'ffmpeg:garage#audio=opus'],
+    });
+  });
+
+  it('falls back to tracked objects for labels when there is no labelmap', () => {
+    const config = parseFrigateConfig({
+      cameras: {
+        front_door: { objects: { track: ['person', 'dog'] } },
+        driveway: { objects: { track: ['car', 'person'] } },
+      },
+    });
+
+    expect(config.model.labels).toEqual(['car', 'dog', 'person']);
+  });
+
+  it('uses the labelmap when the server exposes one', () => {
+    const config = parseFrigateConfig({
+      cameras: { front_door: { objects: { track: ['person'] } } },
+      model: { labelmap: { 0: 'person', 2: 'car', other: 'bogus' } },
+    });
+
+    expect(config.model.labelmap).toEqual({ 0: 'person', 2: 'car' });
+    expect(config.model.labels).toEqual(['car', 'person']);
+  });
+});
+
+describe('getSortedCameras', () => {
+  it('orders by ui.order, then name', () => {
+    const config = parseFrigateConfig({
+      cameras: {
+        garage: { ui: { order: 1 } },
+        driveway: {},
+        back_yard: {},
+        attic: { ui: { order: 2 } },
+      },
+    });
+
+    expect(getSortedCameras(config).map(camera => camera.name)).toEqual(['back_yard', 'driveway', 'garage', 'attic']);
+  });
+});
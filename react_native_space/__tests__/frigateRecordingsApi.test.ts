@@ -0,0 +1,59 @@
+import { frigateRecordingsApi } from '../src/services/frigateRecordingsApi';
+import { frigateApi } from '../src/services/frigateApi';
+
+jest.mock('../src/services/frigateApi', () => ({
+  frigateApi: {
+    onServerChange: jest.fn(),
+    getBaseUrl: () => 'http://frigate',
+    fetchWithAuth: jest.fn(),
+  },
+}));
+
+const fetchWithAuth = frigateApi.fetchWithAuth as jest.Mock;
+
+const NOW = 1767600000000;
+const HOUR = 60 * 60 * 1000;
+
+const respond = () => fetchWithAuth.mockResolvedValue({
+  ok: true,
+  json: async () => [{ id: 'segment', start_time: 1767590000, end_time: 1767590010 }],
+});
+
+describe('frigateRecordingsApi cache', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+    frigateRecordingsApi.clearCache();
+    fetchWithAuth.mockReset();
+    respond();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('caches ranges in the past', async () => {
+    await frigateRecordingsApi.getRecordingSegments('front_door', NOW - 7 * HOUR, NOW - HOUR);
+    await frigateRecordingsApi.getRecordingSegments('front_door', NOW - 7 * HOUR, NOW - HOUR);
+    expect(fetchWithAuth).toHaveBeenCalledTimes(1);
+  });
+
+  it('fetches ranges that run up to now every time', async () => {
+    await frigateRecordingsApi.getRecordingSegments('front_door', NOW - HOUR, NOW);
+    await frigateRecordingsApi.getRecordingSegments('front_door', NOW - HOUR, NOW);
+    expect(fetchWithAuth).toHaveBeenCalledTimes(2);
+  });
+
+  it('fetches again once an entry expires', async () => {
+    await frigateRecordingsApi.getRecordingSegments('front_door', NOW - 7 * HOUR, NOW - HOUR);
+    jest.advanceTimersByTime(30 * 1000);
+    await frigateRecordingsApi.getRecordingSegments('front_door', NOW - 7 * HOUR, NOW - HOUR);
+    expect(fetchWithAuth).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps event pages of different sizes apart', async () => {
+    await frigateRecordingsApi.getEventsInRange('front_door', NOW - 7 * HOUR, NOW - HOUR, 10);
+    await frigateRecordingsApi.getEventsInRange('front_door', NOW - 7 * HOUR, NOW - HOUR, 50);
+    expect(fetchWithAuth).toHaveBeenCalledTimes(2);
+  });
+});
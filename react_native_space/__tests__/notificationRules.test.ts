@@ -0,0 +1,214 @@
+import {
+  NotificationSettings,
+  NotificationState,
+  Schedule,
+  createNotificationRule,
+  describeRule,
+  evaluateNotification,
+  isWithinSchedule,
+  matchesRule,
+} from '../src/services/notificationRules';
+import type { FrigateEvent, FrigateEventMessage } from '../src/services/frigateWebSocket';
+
+// Local times; 4 Jan 2026 is a Sunday
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 0, day, hours, minutes);
+const SUNDAY = 4;
+const MONDAY = 5;
+const SATURDAY = 10;
+
+const schedule = (changes: Partial<Schedule>): Schedule => ({
+  enabled: true,
+  days: [],
+  start: 0,
+  end: 0,
+  ...changes,
+});
+
+const createEvent = (changes: Partial<FrigateEvent> = {}): FrigateEvent => ({
+  id: 'event-1',
+  camera: 'front_door',
+  label: 'person',
+  sub_label: null,
+  top_score: 0.8,
+  score: 0.8,
+  start_time: 1767600000,
+  end_time: null,
+  active: true,
+  stationary: false,
+  box: [0, 0, 10, 10],
+  has_snapshot: true,
+  has_clip: true,
+  recognized_license_plate: null,
+  current_zones: [],
+  ...changes,
+});
+
+const createMessage = (
+  changes: Partial<FrigateEvent> = {},
+  type: FrigateEventMessage['type'] = 'new'
+): FrigateEventMessage => ({
+  before: createEvent(changes),
+  after: createEvent(changes),
+  type,
+});
+
+const createSettings = (changes: Partial<NotificationSettings> = {}): NotificationSettings => ({
+  enabled: true,
+  rules: [createNotificationRule({ id: 'rule' })],
+  quietHours: schedule({ enabled: false, start: 22 * 60, end: 7 * 60 }),
+  cooldownSeconds: 0,
+  snoozedUntil: null,
+  ...changes,
+});
+
+const NO_STATE: NotificationState = { lastNotifiedAt: {} };
+
+describe('isWithinSchedule', () => {
+  it('never matches a disabled schedule', () => {
+    expect(isWithinSchedule(schedule({ enabled: false }), at(MONDAY, 12))).toBe(false);
+  });
+
+  it('covers the whole day when start equals end', () => {
+    expect(isWithinSchedule(schedule({ start: 9 * 60, end: 9 * 60 }), at(MONDAY, 3))).toBe(true);
+    expect(isWithinSchedule(schedule({ days: [1] }), at(SUNDAY, 12))).toBe(false);
+  });
+
+  it('matches a same-day window with an exclusive end', () => {
+    const daytime = schedule({ start: 9 * 60, end: 17 * 60 });
+    expect(isWithinSchedule(daytime, at(MONDAY, 9))).toBe(true);
+    expect(isWithinSchedule(daytime, at(MONDAY, 16, 59))).toBe(true);
+    expect(isWithinSchedule(daytime, at(MONDAY, 17))).toBe(false);
+    expect(isWithinSchedule(daytime, at(MONDAY, 8, 59))).toBe(false);
+  });
+
+  it('only matches on the picked days', () => {
+    const weekdays = schedule({ days: [1, 2, 3, 4, 5], start: 9 * 60, end: 17 * 60 });
+    expect(isWithinSchedule(weekdays, at(MONDAY, 12))).toBe(true);
+    expect(isWithinSchedule(weekdays, at(SATURDAY, 12))).toBe(false);
+  });
+
+  it('wraps an overnight window past midnight', () => {
+    const overnight = schedule({ start: 22 * 60, end: 7 * 60 });
+    expect(isWithinSchedule(overnight, at(MONDAY, 23))).toBe(true);
+    expect(isWithinSchedule(overnight, at(MONDAY, 6, 59))).toBe(true);
+    expect(isWithinSchedule(overnight, at(MONDAY, 7))).toBe(false);
+    expect(isWithinSchedule(overnight, at(MONDAY, 21, 59))).toBe(false);
+  });
+
+  it('counts the early hours of an overnight window as the day it started', () => {
+    const saturdayNight = schedule({ days: [6], start: 22 * 60, end: 7 * 60 });
+    expect(isWithinSchedule(saturdayNight, at(SATURDAY, 23))).toBe(true);
+    expect(isWithinSchedule(saturdayNight, at(SATURDAY + 1, 2))).toBe(true);
+    // Saturday's early hours belong to Friday night
+    expect(isWithinSchedule(saturdayNight, at(SATURDAY, 2))).toBe(false);
+  });
+
+  it('wraps from Sunday night into Monday morning', () => {
+    const sundayNight = schedule({ days: [0], start: 22 * 60, end: 7 * 60 });
+    expect(isWithinSchedule(sundayNight, at(MONDAY, 1))).toBe(true);
+    expect(isWithinSchedule(sundayNight, at(SUNDAY, 1))).toBe(false);
+  });
+});
+
+describe('matchesRule', () => {
+  it('matches any camera, label and zone when the lists are empty', () => {
+    expect(matchesRule(createEvent(), createNotificationRule())).toBe(true);
+  });
+
+  it('ignores disabled rules', () => {
+    expect(matchesRule(createEvent(), createNotificationRule({ enabled: false }))).toBe(false);
+  });
+
+  it('needs the object in at least one of the zones', () => {
+    const rule = createNotificationRule({ zones: ['porch', 'driveway'] });
+    expect(matchesRule(createEvent({ current_zones: ['driveway'] }), rule)).toBe(true);
+    expect(matchesRule(createEvent({ current_zones: ['street'] }), rule)).toBe(false);
+    expect(matchesRule(createEvent({ current_zones: [] }), rule)).toBe(false);
+  });
+
+  it('skips stationary objects unless the rule includes them', () => {
+    const parked = createEvent({ stationary: true });
+    expect(matchesRule(parked, createNotificationRule())).toBe(false);
+    expect(matchesRule(parked, createNotificationRule({ includeStationary: true }))).toBe(true);
+  });
+
+  it('needs the top score to reach the minimum', () => {
+    const rule = createNotificationRule({ minScore: 0.7 });
+    expect(matchesRule(createEvent({ top_score: 0.7 }), rule)).toBe(true);
+    expect(matchesRule(createEvent({ top_score: 0.69 }), rule)).toBe(false);
+  });
+
+  it('matches cameras of the picked groups alongside picked cameras', () => {
+    const groups = { outside: ['front_door', 'driveway'] };
+    const rule = createNotificationRule({ cameras: ['garage'], groups: ['outside'] });
+    expect(matchesRule(createEvent({ camera: 'driveway' }), rule, groups)).toBe(true);
+    expect(matchesRule(createEvent({ camera: 'garage' }), rule, groups)).toBe(true);
+    expect(matchesRule(createEvent({ camera: 'kitchen' }), rule, groups)).toBe(false);
+  });
+
+  it('matches nothing when only deleted groups are picked', () => {
+    const rule = createNotificationRule({ groups: ['deleted'] });
+    expect(matchesRule(createEvent(), rule, {})).toBe(false);
+  });
+});
+
+describe('evaluateNotification', () => {
+  const now = at(MONDAY, 12).getTime();
+
+  it('notifies with the first rule that matches', () => {
+    expect(evaluateNotification(createMessage(), createSettings(), NO_STATE, {}, now))
+      .toEqual({ notify: true, rule: expect.objectContaining({ id: 'rule' }) });
+  });
+
+  it('skips everything while disabled', () => {
+    expect(evaluateNotification(createMessage(), createSettings({ enabled: false }), NO_STATE, {}, now))
+      .toEqual({ notify: false, reason: 'disabled' });
+  });
+
+  it('skips while snoozed and resumes once the snooze ends', () => {
+    const settings = createSettings({ snoozedUntil: now + 60000 });
+    expect(evaluateNotification(createMessage(), settings, NO_STATE, {}, now))
+      .toEqual({ notify: false, reason: 'snoozed' });
+    expect(evaluateNotification(createMessage(), settings, NO_STATE, {}, now + 60000).notify).toBe(true);
+  });
+
+  it('never notifies for end messages or ended objects', () => {
+    expect(evaluateNotification(createMessage({}, 'end'), createSettings(), NO_STATE, {}, now))
+      .toEqual({ notify: false, reason: 'no_match' });
+    expect(evaluateNotification(createMessage({ end_time: 1767600060 }, 'update'), createSettings(), NO_STATE, {}, now))
+      .toEqual({ notify: false, reason: 'no_match' });
+  });
+
+  it('skips matches outside every rule schedule', () => {
+    const settings = createSettings({
+      rules: [createNotificationRule({ schedule: schedule({ start: 22 * 60, end: 7 * 60 }) })],
+    });
+    expect(evaluateNotification(createMessage(), settings, NO_STATE, {}, now))
+      .toEqual({ notify: false, reason: 'outside_schedule' });
+  });
+
+  it('skips during quiet hours, including across midnight', () => {
+    const settings = createSettings({ quietHours: schedule({ start: 22 * 60, end: 7 * 60 }) });
+    expect(evaluateNotification(createMessage(), settings, NO_STATE, {}, at(MONDAY, 23).getTime()))
+      .toEqual({ notify: false, reason: 'quiet_hours' });
+    expect(evaluateNotification(createMessage(), settings, NO_STATE, {}, at(MONDAY, 3).getTime()))
+      .toEqual({ notify: false, reason: 'quiet_hours' });
+    expect(evaluateNotification(createMessage(), settings, NO_STATE, {}, now).notify).toBe(true);
+  });
+
+  it('holds back a camera inside its cooldown', () => {
+    const settings = createSettings({ cooldownSeconds: 60 });
+    const state = { lastNotifiedAt: { front_door: now - 30000 } };
+    expect(evaluateNotification(createMessage(), settings, state, {}, now))
+      .toEqual({ notify: false, reason: 'cooldown' });
+    expect(evaluateNotification(createMessage(), settings, state, {}, now + 30000).notify).toBe(true);
+    expect(evaluateNotification(createMessage({ camera: 'garage' }), settings, state, {}, now).notify).toBe(true);
+  });
+});
+
+describe('describeRule', () => {
+  it('labels deleted groups instead of reading as any camera', () => {
+    const rule = createNotificationRule({ labels: ['person'], groups: ['outside', 'gone'] });
+    expect(describeRule(rule, { outside: 'Outside' })).toBe('Person • on Outside, Deleted group • ≥ 50%');
+  });
+});
@@ -0,0 +1,35 @@
+import { findAdjacentEvent, formatPlaybackRate } from '../src/services/playbackControls';
+
+const events = [{ start_time: 100 }, { start_time: 300 }, { start_time: 200 }];
+
+describe('findAdjacentEvent', () => {
+  it('finds the closest event after the position', () => {
+    expect(findAdjacentEvent(events, 150, 1)).toEqual({ start_time: 200 });
+  });
+
+  it('skips an event starting right at the position when going forward', () => {
+    expect(findAdjacentEvent(events, 200, 1)).toEqual({ start_time: 300 });
+  });
+
+  it('finds the closest event before the position', () => {
+    expect(findAdjacentEvent(events, 250, -1)).toEqual({ start_time: 200 });
+  });
+
+  it('goes to the event before when just past the start of one', () => {
+    expect(findAdjacentEvent(events, 201, -1)).toEqual({ start_time: 100 });
+    expect(findAdjacentEvent(events, 203, -1)).toEqual({ start_time: 200 });
+  });
+
+  it('returns null at either end', () => {
+    expect(findAdjacentEvent(events, 300, 1)).toBeNull();
+    expect(findAdjacentEvent(events, 101, -1)).toBeNull();
+    expect(findAdjacentEvent([], 100, 1)).toBeNull();
+  });
+});
+
+describe('formatPlaybackRate', () => {
+  it('formats a rate as a multiplier', () => {
+    expect(formatPlaybackRate(0.5)).toBe('0.5×');
+    expect(formatPlaybackRate(16)).toBe('16×');
+  });
+});
@@ -0,0 +1,70 @@
+import { buildRecordingSpans, findNearestFootage, isInRecording } from '../src/services/recordingCoverage';
+import type { RecordingSegment } from '../src/services/frigateRecordingsApi';
+
+const segment = (start: number, end: number): RecordingSegment => ({
+  id: `${start}`,
+  start_time: start,
+  end_time: end,
+  duration: end - start,
+  motion: 0,
+  objects: 0,
+});
+
+describe('buildRecordingSpans', () => {
+  it('merges segments within the gap tolerance, whatever order they arrive in', () => {
+    const spans = buildRecordingSpans([segment(120, 130), segment(100, 110), segment(113, 120)]);
+    expect(spans).toEqual([{ start: 100, end: 130 }]);
+  });
+
+  it('starts a new span after a real gap', () => {
+    const spans = buildRecordingSpans([segment(100, 110), segment(200, 210), segment(210, 220)]);
+    expect(spans).toEqual([
+      { start: 100, end: 110 },
+      { start: 200, end: 220 },
+    ]);
+  });
+
+  it('keeps the later end when a segment overlaps a longer one', () => {
+    expect(buildRecordingSpans([segment(100, 200), segment(150, 160)])).toEqual([{ start: 100, end: 200 }]);
+  });
+});
+
+describe('isInRecording', () => {
+  it('includes both ends of a span', () => {
+    const spans = [{ start: 100, end: 200 }];
+    expect(isInRecording(spans, 100)).toBe(true);
+    expect(isInRecording(spans, 200)).toBe(true);
+    expect(isInRecording(spans, 201)).toBe(false);
+  });
+});
+
+describe('findNearestFootage', () => {
+  const spans = [
+    { start: 100, end: 200 },
+    { start: 400, end: 500 },
+  ];
+
+  it('keeps a time that has footage', () => {
+    expect(findNearestFootage(spans, 150)).toBe(150);
+  });
+
+  it('snaps forward to the start of the closer next span', () => {
+    expect(findNearestFootage(spans, 350)).toBe(400);
+  });
+
+  it('snaps back to shortly before the end of the closer previous span', () => {
+    expect(findNearestFootage(spans, 250)).toBe(190);
+  });
+
+  it('snaps back to the last span after the newest footage', () => {
+    expect(findNearestFootage(spans, 900)).toBe(490);
+  });
+
+  it('never snaps back before the start of a short span', () => {
+    expect(findNearestFootage([{ start: 100, end: 105 }], 120)).toBe(100);
+  });
+
+  it('returns null without recordings', () => {
+    expect(findNearestFootage([], 150)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { findScrubPreview, parsePreviewFrameTime } from '../src/services/scrubPreview';
+import type { PreviewClip } from '../src/services/frigateRecordingsApi';
+
+const clip = (start: number, end: number): PreviewClip => ({
+  camera: 'front_door',
+  src: `/clips/previews/front_door/${start}-${end}.mp4`,
+  start,
+  end,
+});
+
+describe('parsePreviewFrameTime', () => {
+  it('reads the timestamp from a frame file name', () => {
+    expect(parsePreviewFrameTime('preview_front_door-1767600000.5.webp')).toBe(1767600000.5);
+    expect(parsePreviewFrameTime('preview_front-door-1767600000.webp')).toBe(1767600000);
+  });
+
+  it('returns null for anything else', () => {
+    expect(parsePreviewFrameTime('preview_front_door.webp')).toBeNull();
+    expect(parsePreviewFrameTime('preview_front_door-1767600000.jpg')).toBeNull();
+  });
+});
+
+describe('findScrubPreview', () => {
+  const clips = [clip(1000, 4600), clip(4600, 8200)];
+
+  it('seeks into the clip covering the time', () => {
+    expect(findScrubPreview(5000, clips, [])).toEqual({ type: 'clip', clip: clips[1], offset: 400 });
+  });
+
+  it('treats a clip end as the start of the next clip', () => {
+    expect(findScrubPreview(4600, clips, [])).toEqual({ type: 'clip', clip: clips[1], offset: 0 });
+  });
+
+  it('falls back to the nearest frame within tolerance', () => {
+    const frames = [
+      'preview_front_door-9000.webp',
+      'preview_front_door-9040.webp',
+      'preview_front_door-9100.webp',
+    ];
+    expect(findScrubPreview(9050, clips, frames)).toEqual({
+      type: 'frame',
+      fileName: 'preview_front_door-9040.webp',
+      time: 9040,
+    });
+  });
+
+  it('returns null when nothing is close enough', () => {
+    expect(findScrubPreview(9500, clips, ['preview_front_door-9000.webp'])).toBeNull();
+    expect(findScrubPreview(9500, [], [])).toBeNull();
+  });
+});
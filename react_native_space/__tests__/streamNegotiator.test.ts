@@ -0,0 +1,78 @@
+import { StreamContext, StreamDecision, applyDecision, chooseProtocols, getBackoffDelay } from '../src/services/streamNegotiator';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../src/services/frigateApi', () => ({ frigateApi: { getActiveServer: () => null } }));
+jest.mock('../src/services/connectionManager', () => ({ connectionManager: {} }));
+
+const context = (changes: Partial<StreamContext> = {}): StreamContext => ({
+  codec: 'h264',
+  platform: 'android',
+  networkType: 'WIFI',
+  endpoint: 'local',
+  ...changes,
+});
+
+const decision = (changes: Partial<StreamDecision> = {}): StreamDecision => ({
+  codec: 'h264',
+  codecCheckedAt: 0,
+  working: {},
+  unsupported: [],
+  ...changes,
+});
+
+describe('chooseProtocols', () => {
+  it('leads with WebRTC on a local network', () => {
+    expect(chooseProtocols('live', context())).toEqual(['webrtc', 'mse', 'hls']);
+  });
+
+  it('leads with MSE on remote endpoints and cellular', () => {
+    expect(chooseProtocols('live', context({ endpoint: 'remote' }))).toEqual(['mse', 'webrtc', 'hls']);
+    expect(chooseProtocols('live', context({ networkType: 'CELLULAR' }))).toEqual(['mse', 'webrtc', 'hls']);
+  });
+
+  it('never offers WebRTC for H265', () => {
+    expect(chooseProtocols('live', context({ codec: 'hevc' }))).toEqual(['mse', 'hls']);
+    expect(chooseProtocols('live', context({ codec: 'h265', endpoint: 'remote' }))).toEqual(['mse', 'hls']);
+  });
+
+  it('skips the native MSE proxy on web', () => {
+    expect(chooseProtocols('live', context({ platform: 'web' }))).toEqual(['webrtc', 'hls']);
+  });
+
+  it('sends H265 thumbnails straight to HLS', () => {
+    expect(chooseProtocols('thumbnail', context())).toEqual(['mse', 'hls']);
+    expect(chooseProtocols('thumbnail', context({ codec: 'hevc' }))).toEqual(['hls']);
+  });
+});
+
+describe('applyDecision', () => {
+  const chain: ('webrtc' | 'mse' | 'hls')[] = ['webrtc', 'mse', 'hls'];
+
+  it('keeps the chain without a decision', () => {
+    expect(applyDecision(chain, undefined, 'local')).toEqual(chain);
+  });
+
+  it('moves the protocol that last played on this endpoint to the front', () => {
+    const remembered = decision({ working: { local: 'hls', remote: 'mse' } });
+    expect(applyDecision(chain, remembered, 'local')).toEqual(['hls', 'webrtc', 'mse']);
+    expect(applyDecision(chain, remembered, 'remote')).toEqual(['mse', 'webrtc', 'hls']);
+  });
+
+  it('drops protocols the codec can not use', () => {
+    const remembered = decision({ working: { local: 'webrtc' }, unsupported: ['webrtc'] });
+    expect(applyDecision(chain, remembered, 'local')).toEqual(['mse', 'hls']);
+  });
+
+  it('tries the whole chain again when nothing usable is left', () => {
+    expect(applyDecision(['hls'], decision({ unsupported: ['hls'] }), 'local')).toEqual(['hls']);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('doubles each round up to the cap', () => {
+    expect([1, 2, 3, 4].map(getBackoffDelay)).toEqual([1000, 2000, 4000, 8000]);
+    expect(getBackoffDelay(10)).toBe(30000);
+  });
+});
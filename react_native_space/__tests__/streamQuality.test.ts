@@ -0,0 +1,126 @@
+import { getCameraStreams, isStreamDegraded, resolveStreamName } from '../src/services/streamQuality';
+import { parseFrigateConfig } from '../src/services/frigateConfig';
+import type { WebRTCStats } from '../src/services/webrtcService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../src/services/frigateApi', () => ({ frigateApi: { getActiveServer: () => null } }));
+
+const camera = (raw: object) => parseFrigateConfig({ cameras: { front_door: raw } }).cameras.front_door;
+
+const input = (stream: string, roles: string[]) => ({ path: `rtsp://127.0.0.1:8554/${stream}?video=copy`, roles });
+
+// Cumulative counters, one sample per second
+const samples = (steps: { received: number; lost: number; fps: number | null }[]): WebRTCStats[] => {
+  let packetsReceived = 0;
+  let packetsLost = 0;
+  return steps.map((step, index) => {
+    packetsReceived += step.received;
+    packetsLost += step.lost;
+    return {
+      timestamp: index * 1000,
+      packetsReceived,
+      packetsLost,
+      bytesReceived: 0,
+      framesPerSecond: step.fps,
+      framesDecoded: 0,
+      framesDropped: 0,
+      frameWidth: null,
+      frameHeight: null,
+      jitter: null,
+      roundTripTime: null,
+      jitterBufferDelay: null,
+      jitterBufferEmittedCount: null,
+      codec: null,
+    };
+  });
+};
+
+const healthy = { received: 100, lost: 0, fps: 15 };
+
+describe('getCameraStreams', () => {
+  it('falls back to the camera name without a config', () => {
+    expect(getCameraStreams('front_door', null)).toEqual({ high: 'front_door', low: null });
+  });
+
+  it('has no sub stream for a single stream', () => {
+    expect(getCameraStreams('front_door', camera({}))).toEqual({ high: 'front_door', low: null });
+  });
+
+  it('picks the streams the record and detect inputs restream', () => {
+    const config = camera({
+      live: { streams: { Detect: 'front_door_detect', Record: 'front_door_record', Other: 'front_door_other' } },
+      ffmpeg: {
+        inputs: [input('front_door_record', ['record']), input('front_door_detect', ['detect', 'audio'])],
+      },
+    });
+    expect(getCameraStreams('front_door', config)).toEqual({ high: 'front_door_record', low: 'front_door_detect' });
+  });
+
+  it('ignores roles when one input does both', () => {
+    const config = camera({
+      live: { streams: { Main: 'front_door', Sub: 'front_door_sub' } },
+      ffmpeg: { inputs: [input('front_door', ['record', 'detect'])] },
+    });
+    expect(getCameraStreams('front_door', config)).toEqual({ high: 'front_door', low: 'front_door_sub' });
+  });
+
+  it('matches sub stream names as whole words only', () => {
+    const named = camera({ live: { streams: { Main: 'front_main', 'Low res': 'front_lowres', Other: 'front_other' } } });
+    expect(getCameraStreams('front_door', named).low).toBe('front_lowres');
+
+    const sub = camera({ live: { streams: { Main: 'front_main', Gate: 'front_sd', Other: 'front_other' } } });
+    expect(getCameraStreams('front_door', sub).low).toBe('front_sd');
+
+    const lookalikes = camera({ live: { streams: { Main: 'hdsd_main', Gate: 'yellow_gate', Other: 'front_other' } } });
+    expect(getCameraStreams('front_door', lookalikes).low).toBe('front_other');
+  });
+});
+
+describe('resolveStreamName', () => {
+  const streams = { high: 'front_door', low: 'front_door_sub' };
+  const wifi = { networkType: 'WIFI', degraded: false };
+
+  it('follows a manual choice', () => {
+    expect(resolveStreamName(streams, 'high', { networkType: 'CELLULAR', degraded: true })).toBe('front_door');
+    expect(resolveStreamName(streams, 'low', wifi)).toBe('front_door_sub');
+  });
+
+  it('uses the sub stream on cellular or when degraded in auto', () => {
+    expect(resolveStreamName(streams, 'auto', wifi)).toBe('front_door');
+    expect(resolveStreamName(streams, 'auto', { networkType: 'CELLULAR', degraded: false })).toBe('front_door_sub');
+    expect(resolveStreamName(streams, 'auto', { ...wifi, degraded: true })).toBe('front_door_sub');
+  });
+
+  it('stays on the main stream without a sub stream', () => {
+    expect(resolveStreamName({ high: 'front_door', low: null }, 'low', wifi)).toBe('front_door');
+  });
+});
+
+describe('isStreamDegraded', () => {
+  it('needs enough samples', () => {
+    expect(isStreamDegraded(samples([healthy, { received: 50, lost: 50, fps: 15 }]))).toBe(false);
+  });
+
+  it('flags sustained packet loss', () => {
+    const lossy = { received: 90, lost: 10, fps: 15 };
+    expect(isStreamDegraded(samples([healthy, lossy, lossy, lossy]))).toBe(true);
+  });
+
+  it('ignores a single bad sample', () => {
+    const lossy = { received: 90, lost: 10, fps: 15 };
+    expect(isStreamDegraded(samples([healthy, lossy, healthy, lossy]))).toBe(false);
+  });
+
+  it('flags a framerate that halved', () => {
+    const slow = { received: 100, lost: 0, fps: 6 };
+    expect(isStreamDegraded(samples([healthy, slow, slow, slow]))).toBe(true);
+  });
+
+  it('ignores small drops on low framerates', () => {
+    const base = { received: 100, lost: 0, fps: 6 };
+    const slow = { received: 100, lost: 0, fps: 2 };
+    expect(isStreamDegraded(samples([base, slow, slow, slow]))).toBe(false);
+  });
+});
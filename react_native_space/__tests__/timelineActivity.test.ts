@@ -0,0 +1,90 @@
+import {
+  audioSamples,
+  bucketActivity,
+  motionSamples,
+  motionSamplesFromRecordings,
+} from '../src/services/timelineActivity';
+
+describe('activity samples', () => {
+  it('reads motion from activity and from recording segments', () => {
+    expect(motionSamples([{ start_time: 100, camera: 'front_door', motion: 40 }]))
+      .toEqual([{ time: 100, value: 40 }]);
+    expect(motionSamplesFromRecordings([
+      { id: '1', start_time: 100, end_time: 110, duration: 10, motion: 12, objects: 0 },
+    ])).toEqual([{ time: 100, value: 12 }]);
+  });
+
+  it('scales audio onto 0-1 and skips segments without audio', () => {
+    const samples = audioSamples([
+      { start_time: 100, camera: 'front_door', audio: -80 },
+      { start_time: 110, camera: 'front_door', audio: -45 },
+      { start_time: 120, camera: 'front_door', audio: -5 },
+      { start_time: 130, camera: 'front_door', audio: -100 },
+      { start_time: 140, camera: 'front_door', audio: 0 },
+    ]);
+
+    expect(samples).toEqual([
+      { time: 100, value: 0 },
+      { time: 110, value: 0.5 },
+      { time: 120, value: 1 },
+      { time: 130, value: 0 },
+    ]);
+  });
+});
+
+describe('bucketActivity', () => {
+  it('sums motion per bucket counting back from the end, scaled to the busiest', () => {
+    const buckets = bucketActivity(
+      [
+        { time: 995, value: 10 },
+        { time: 990, value: 10 },
+        { time: 930, value: 5 },
+      ],
+      900,
+      1000,
+      60,
+      'sum'
+    );
+
+    expect(buckets).toEqual([
+      { start: 940, end: 1000, intensity: 1 },
+      { start: 900, end: 940, intensity: 0.25 },
+    ]);
+  });
+
+  it('keeps the loudest sample per bucket for audio', () => {
+    const buckets = bucketActivity(
+      [
+        { time: 995, value: 0.2 },
+        { time: 990, value: 0.6 },
+      ],
+      900,
+      1000,
+      60,
+      'max'
+    );
+
+    expect(buckets).toEqual([{ start: 940, end: 1000, intensity: 0.6 }]);
+  });
+
+  it('ignores samples outside the range and buckets too quiet to draw', () => {
+    const buckets = bucketActivity(
+      [
+        { time: 800, value: 100 },
+        { time: 995, value: 100 },
+        { time: 900, value: 1 },
+      ],
+      900,
+      1000,
+      60,
+      'sum'
+    );
+
+    expect(buckets).toEqual([{ start: 940, end: 1000, intensity: 1 }]);
+  });
+
+  it('returns nothing when there was no motion', () => {
+    expect(bucketActivity([{ time: 950, value: 0 }], 900, 1000, 60, 'sum')).toEqual([]);
+    expect(bucketActivity([], 900, 1000, 60, 'max')).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import {
+  TIMELINE_CHUNK_MS,
+  getChunkStart,
+  getMissingChunks,
+  mergeTimelineItems,
+} from '../src/services/timelineRange';
+
+const CHUNK = TIMELINE_CHUNK_MS;
+
+describe('getChunkStart', () => {
+  it('aligns to the epoch so any route to a time lands on the same chunk', () => {
+    expect(getChunkStart(3 * CHUNK)).toBe(3 * CHUNK);
+    expect(getChunkStart(3 * CHUNK + 1)).toBe(3 * CHUNK);
+    expect(getChunkStart(4 * CHUNK - 1)).toBe(3 * CHUNK);
+  });
+});
+
+describe('getMissingChunks', () => {
+  it('lists every overlapping chunk, newest first', () => {
+    expect(getMissingChunks(new Set(), 2 * CHUNK + 5, 4 * CHUNK + 5)).toEqual([4 * CHUNK, 3 * CHUNK, 2 * CHUNK]);
+  });
+
+  it('skips chunks already loaded', () => {
+    expect(getMissingChunks(new Set([3 * CHUNK]), 2 * CHUNK, 4 * CHUNK)).toEqual([4 * CHUNK, 2 * CHUNK]);
+  });
+
+  it('returns the one chunk for a range inside it', () => {
+    expect(getMissingChunks(new Set(), CHUNK + 10, CHUNK + 20)).toEqual([CHUNK]);
+  });
+});
+
+describe('mergeTimelineItems', () => {
+  it('adds new items and lets incoming copies replace existing ones', () => {
+    const existing = [
+      { id: 'a', end_time: null as number | null },
+      { id: 'b', end_time: 20 },
+    ];
+    const incoming = [
+      { id: 'a', end_time: 15 },
+      { id: 'c', end_time: null },
+    ];
+
+    expect(mergeTimelineItems(existing, incoming, item => item.id)).toEqual([
+      { id: 'a', end_time: 15 },
+      { id: 'b', end_time: 20 },
+      { id: 'c', end_time: null },
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { IconButton } from 'react-native-paper';
+import { frigateWebSocket } from '../services/frigateWebSocket';
+
+interface AudioControlProps {
+  cameraName: string;
+  muted: boolean;
+  // False when the stream has no audio track - the button is shown disabled
+  hasAudio: boolean;
+  onToggleMute: () => void;
+}
+
+// dBFS range mapped onto the meter: near silence to loud speech
+const METER_FLOOR = -80;
+const METER_CEILING = -10;
+const METER_BARS = 5;
+// Hide the meter once Frigate stops sending levels (audio detection turned off)
+const LEVEL_TIMEOUT = 3000;
+
+const levelToBars = (dBFS: number): number => {
+  const level = (dBFS - METER_FLOOR) / (METER_CEILING - METER_FLOOR);
+  return Math.round(Math.min(Math.max(level, 0), 1) * METER_BARS);
+};
+
+/**
+ * Mute button for the live view with a volume meter fed by Frigate's
+ * {camera}/audio/dBFS topic. The meter shows what the camera hears even
+ * while the stream is muted.
+ */
+export const AudioControl: React.FC<AudioControlProps> = ({ cameraName, muted, hasAudio, onToggleMute }) => {
+  const [bars, setBars] = useState<number | null>(null);
+
+  useEffect(() => {
+    let staleTimeout: NodeJS.Timeout | null = null;
+    setBars(null);
+
+    const unsubscribe = frigateWebSocket.onAudioLevel((camera, dBFS) => {
+      if (camera !== cameraName) return;
+      setBars(levelToBars(dBFS));
+      if (staleTimeout) clearTimeout(staleTimeout);
+      staleTimeout = setTimeout(() => setBars(null), LEVEL_TIMEOUT);
+    });
+
+    return () => {
+      unsubscribe();
+      if (staleTimeout) clearTimeout(staleTimeout);
+    };
+  }, [cameraName]);
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <IconButton
+        icon={!hasAudio ? 'volume-variant-off' : muted ? 'volume-off' : 'volume-high'}
+        size={20}
+        iconColor="#FFFFFF"
+        containerColor="rgba(0,0,0,0.5)"
+        onPress={onToggleMute}
+        disabled={!hasAudio}
+        accessibilityLabel={!hasAudio ? 'No audio' : muted ? 'Unmute' : 'Mute'}
+      />
+      {bars !== null && (
+        <View style={styles.meter}>
+          {Array.from({ length: METER_BARS }, (_, index) => (
+            <View
+              key={index}
+              style={[
+                styles.bar,
+                { height: 6 + index * 3 },
+                index < bars && (muted ? styles.barActiveMuted : styles.barActive),
+              ]}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    // Top left - PTZ zoom buttons sit bottom left
+    top: 8,
+    left: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    zIndex: 21,
+  },
+  meter: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 20,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  bar: {
+    width: 3,
+    marginHorizontal: 1,
+    borderRadius: 1,
+    backgroundColor: 'rgba(255,255,255,0.3)',
+  },
+  barActive: {
+    backgroundColor: '#4CAF50',
+  },
+  barActiveMuted: {
+    backgroundColor: 'rgba(255,255,255,0.8)',
+  },
+});
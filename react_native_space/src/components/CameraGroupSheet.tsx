@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Modal, Pressable, ScrollView } from 'react-native';
+import { Text, Chip, Button, TextInput, HelperText, IconButton, useTheme } from 'react-native-paper';
+import { CameraGroup, DEFAULT_GROUP_ICON } from '../services/cameraGroups';
+
+interface CameraGroupSheetProps {
+  visible: boolean;
+  group: CameraGroup | null;
+  // Enabled cameras on the server
+  cameras: string[];
+  onSave: (group: CameraGroup) => void;
+  onDelete?: (groupId: string) => void;
+  onDismiss: () => void;
+}
+
+const GROUP_ICONS = [
+  DEFAULT_GROUP_ICON,
+  'home-outline',
+  'door',
+  'garage',
+  'car',
+  'tree-outline',
+  'paw',
+  'baby-face-outline',
+  'office-building-outline',
+  'shield-outline',
+];
+
+/**
+ * Bottom sheet for editing a local camera group. Edits a draft copy and only
+ * hands it back on Save.
+ */
+export const CameraGroupSheet: React.FC<CameraGroupSheetProps> = ({
+  visible,
+  group,
+  cameras,
+  onSave,
+  onDelete,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const [draft, setDraft] = useState<CameraGroup | null>(group);
+
+  useEffect(() => {
+    if (visible && group) setDraft(group);
+  }, [visible, group]);
+
+  if (!draft) return null;
+
+  // Keep saved cameras visible even if they're no longer on the server
+  const cameraOptions = Array.from(new Set([...cameras, ...draft.cameras]));
+  const invalid = draft.cameras.length === 0;
+
+  const toggleCamera = (camera: string) => {
+    setDraft(prev => prev && ({
+      ...prev,
+      cameras: prev.cameras.includes(camera)
+        ? prev.cameras.filter(item => item !== camera)
+        : [...prev.cameras, camera],
+    }));
+  };
+
+  const handleSave = () => {
+    if (invalid) return;
+    onSave({ ...draft, name: draft.name.trim() || 'Untitled Group' });
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onDismiss}>
+      <Pressable style={styles.overlay} onPress={onDismiss}>
+        <Pressable style={styles.sheet} onPress={() => {}}>
+          <View style={styles.handle} />
+          <View style={styles.sheetHeader}>
+            <Text variant="titleLarge" style={styles.title}>Camera Group</Text>
+            {onDelete && (
+              <Button textColor={theme.colors.error} onPress={() => onDelete(draft.id)}>Delete</Button>
+            )}
+          </View>
+
+          <ScrollView style={styles.scroll} contentContainerStyle={styles.scrollContent}>
+            <TextInput
+              label="Name"
+              value={draft.name}
+              onChangeText={(name) => setDraft(prev => prev && ({ ...prev, name }))}
+              mode="outlined"
+              style={styles.nameInput}
+            />
+
+            <View style={styles.section}>
+              <Text variant="labelLarge" style={styles.sectionTitle}>Icon</Text>
+              <View style={styles.iconRow}>
+                {GROUP_ICONS.map(icon => (
+                  <IconButton
+                    key={icon}
+                    icon={icon}
+                    mode={draft.icon === icon ? 'contained' : undefined}
+                    selected={draft.icon === icon}
+                    size={20}
+                    onPress={() => setDraft(prev => prev && ({ ...prev, icon }))}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text variant="labelLarge" style={styles.sectionTitle}>Cameras</Text>
+              <View style={styles.chipRow}>
+                {cameraOptions.map(camera => (
+                  <Chip
+                    key={camera}
+                    mode="outlined"
+                    selected={draft.cameras.includes(camera)}
+                    showSelectedOverlay
+                    onPress={() => toggleCamera(camera)}
+                    textStyle={styles.chipText}
+                  >
+                    {camera.replace(/_/g, ' ')}
+                  </Chip>
+                ))}
+              </View>
+              {invalid && <HelperText type="error">Pick at least one camera</HelperText>}
+            </View>
+          </ScrollView>
+
+          <Button
+            mode="contained"
+            onPress={handleSave}
+            disabled={invalid}
+            style={styles.saveButton}
+            contentStyle={styles.saveButtonContent}
+          >
+            Save Group
+          </Button>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 8,
+    paddingBottom: 24,
+    maxHeight: '85%',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: theme.colors.outlineVariant,
+    marginBottom: 8,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    minHeight: 40,
+  },
+  title: {
+    color: theme.colors.onSurface,
+    fontWeight: '600',
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+  },
+  nameInput: {
+    marginTop: 12,
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: 8,
+  },
+  iconRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chipText: {
+    textTransform: 'capitalize',
+  },
+  saveButton: {
+    marginHorizontal: 20,
+    marginTop: 12,
+    borderRadius: 12,
+  },
+  saveButtonContent: {
+    paddingVertical: 6,
+  },
+});
@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet, Modal, Pressable, ScrollView, Alert } from 'react-native';
+import { Text, Switch, ActivityIndicator, useTheme } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import {
+  frigateWebSocket,
+  CameraFeature,
+  CameraFeatureState,
+} from '../services/frigateWebSocket';
+
+interface CameraSettingsSheetProps {
+  visible: boolean;
+  cameraName: string;
+  onDismiss: () => void;
+}
+
+// Autotracking is toggled from the PTZ controls instead
+type SheetFeature = Exclude<CameraFeature, 'ptz_autotracker'>;
+
+const FEATURE_DETAILS: Record<SheetFeature, { title: string; subtitle: string; icon: string }> = {
+  detect: { title: 'Object Detection', subtitle: 'Track objects and create events', icon: 'shape-outline' },
+  recordings: { title: 'Recording', subtitle: 'Save footage to disk', icon: 'record-rec' },
+  snapshots: { title: 'Snapshots', subtitle: 'Save a snapshot for each event', icon: 'image-outline' },
+  motion: { title: 'Motion Detection', subtitle: 'Look for motion in the frame', icon: 'motion-sensor' },
+  audio: { title: 'Audio Detection', subtitle: 'Listen for audio events', icon: 'microphone-outline' },
+  improve_contrast: { title: 'Improve Contrast', subtitle: 'Help motion detection in low light', icon: 'contrast-box' },
+  notifications: { title: 'Frigate Notifications', subtitle: "Frigate's own web push notifications", icon: 'bell-outline' },
+};
+
+const SHEET_FEATURES = Object.keys(FEATURE_DETAILS) as SheetFeature[];
+
+// How long to wait for Frigate to report a new state before giving up
+const COMMAND_TIMEOUT = 5000;
+
+/**
+ * Bottom sheet with a camera's detect/record/snapshot... toggles. Commands go
+ * over the Frigate WebSocket and a switch only settles once Frigate reports
+ * the new state back.
+ */
+export const CameraSettingsSheet: React.FC<CameraSettingsSheetProps> = ({
+  visible,
+  cameraName,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const [state, setState] = useState<CameraFeatureState | null>(frigateWebSocket.getCameraState(cameraName));
+  const [pending, setPending] = useState<Partial<Record<CameraFeature, boolean>>>({});
+  const timeouts = useRef<Partial<Record<CameraFeature, NodeJS.Timeout>>>({});
+
+  useEffect(() => {
+    if (!visible) return;
+
+    // Commands need the socket; the dashboard normally keeps it open
+    if (!frigateWebSocket.isConnected()) {
+      frigateWebSocket.connect();
+    }
+    setState(frigateWebSocket.getCameraState(cameraName));
+
+    const unsubscribe = frigateWebSocket.onCameraState((camera, newState) => {
+      if (camera !== cameraName) return;
+      setState(newState);
+      setPending(prev => {
+        const next = { ...prev };
+        (Object.keys(prev) as CameraFeature[]).forEach(feature => {
+          if (newState[feature] === prev[feature]) {
+            clearTimeout(timeouts.current[feature]);
+            delete next[feature];
+          }
+        });
+        return next;
+      });
+    });
+
+    return () => {
+      unsubscribe();
+      Object.values(timeouts.current).forEach(clearTimeout);
+      timeouts.current = {};
+      setPending({});
+    };
+  }, [visible, cameraName]);
+
+  const handleToggle = (feature: SheetFeature, enabled: boolean) => {
+    if (!frigateWebSocket.setCameraFeature(cameraName, feature, enabled)) {
+      Alert.alert('Not Connected', 'Camera settings can only be changed while connected to Frigate.');
+      return;
+    }
+
+    setPending(prev => ({ ...prev, [feature]: enabled }));
+    clearTimeout(timeouts.current[feature]);
+    timeouts.current[feature] = setTimeout(() => {
+      setPending(prev => {
+        const next = { ...prev };
+        delete next[feature];
+        return next;
+      });
+      Alert.alert('No Response', `Frigate did not confirm the ${FEATURE_DETAILS[feature].title.toLowerCase()} change.`);
+    }, COMMAND_TIMEOUT);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onDismiss}>
+      <Pressable style={styles.overlay} onPress={onDismiss}>
+        <Pressable style={styles.sheet} onPress={() => {}}>
+          <View style={styles.handle} />
+          <Text variant="titleLarge" style={styles.title}>Camera Settings</Text>
+          <Text variant="bodySmall" style={styles.subtitle}>
+            {cameraName.replace(/_/g, ' ')} • Changes last until Frigate restarts
+          </Text>
+
+          {state ? (
+            <ScrollView style={styles.scroll} contentContainerStyle={styles.scrollContent}>
+              {SHEET_FEATURES.map(feature => {
+                const details = FEATURE_DETAILS[feature];
+                const isPending = pending[feature] !== undefined;
+                return (
+                  <View key={feature} style={styles.row}>
+                    <MaterialCommunityIcons
+                      name={details.icon as any}
+                      size={24}
+                      color={theme.colors.primary}
+                      style={styles.rowIcon}
+                    />
+                    <View style={styles.rowText}>
+                      <Text variant="bodyLarge" style={styles.rowTitle}>{details.title}</Text>
+                      <Text variant="bodySmall" style={styles.rowSubtitle}>{details.subtitle}</Text>
+                    </View>
+                    {isPending && <ActivityIndicator size="small" style={styles.pendingIndicator} />}
+                    <Switch
+                      value={isPending ? !!pending[feature] : state[feature]}
+                      onValueChange={(enabled) => handleToggle(feature, enabled)}
+                      disabled={isPending}
+                    />
+                  </View>
+                );
+              })}
+            </ScrollView>
+          ) : (
+            <Text variant="bodyMedium" style={styles.emptyText}>
+              Camera configuration isn't loaded yet.
+            </Text>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 8,
+    paddingBottom: 24,
+    maxHeight: '85%',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: theme.colors.outlineVariant,
+    marginBottom: 8,
+  },
+  title: {
+    color: theme.colors.onSurface,
+    fontWeight: '600',
+    paddingHorizontal: 20,
+  },
+  subtitle: {
+    color: theme.colors.onSurfaceVariant,
+    paddingHorizontal: 20,
+    marginTop: 2,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  rowIcon: {
+    marginRight: 16,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    color: theme.colors.onSurface,
+  },
+  rowSubtitle: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  pendingIndicator: {
+    marginRight: 8,
+  },
+  emptyText: {
+    color: theme.colors.onSurfaceVariant,
+    padding: 20,
+  },
+});
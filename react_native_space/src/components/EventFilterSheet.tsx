@@ -0,0 +1,421 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Modal, Pressable, ScrollView } from 'react-native';
+import { Text, Chip, Button, Switch, IconButton, useTheme } from 'react-native-paper';
+import { addDays, endOfDay, format, isToday, startOfDay } from 'date-fns';
+import { frigateApi } from '../services/frigateApi';
+import { cameraGroups, CameraGroup } from '../services/cameraGroups';
+import {
+  DEFAULT_EVENT_FILTERS,
+  EventFilters,
+  EventTimeRange,
+  TIME_RANGE_LABELS,
+} from '../services/eventFilters';
+
+interface EventFilterSheetProps {
+  visible: boolean;
+  filters: EventFilters;
+  onApply: (filters: EventFilters) => void;
+  onDismiss: () => void;
+}
+
+interface FilterOptions {
+  groups: CameraGroup[];
+  cameras: string[];
+  labels: string[];
+  subLabels: string[];
+  zones: string[];
+}
+
+const MIN_SCORE_OPTIONS = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+type ListFilterKey = 'cameras' | 'groups' | 'labels' | 'subLabels' | 'zones';
+
+// A new custom range starts as the last week
+const DEFAULT_CUSTOM_DAYS = 7;
+
+const toSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+/**
+ * Bottom sheet for editing event filters. Edits a draft copy and only hands
+ * it back on Apply. Options come from the Frigate config and /api/sub_labels.
+ */
+export const EventFilterSheet: React.FC<EventFilterSheetProps> = ({
+  visible,
+  filters,
+  onApply,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const [draft, setDraft] = useState<EventFilters>(filters);
+  const [options, setOptions] = useState<FilterOptions>({ groups: [], cameras: [], labels: [], subLabels: [], zones: [] });
+
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(filters);
+
+    const loadOptions = async () => {
+      try {
+        const config = frigateApi.getCachedConfig() ?? await frigateApi.getConfig();
+        const cameras = await frigateApi.getCameras();
+        await cameraGroups.load();
+        const zones = new Set<string>();
+        Object.values(config.cameras).forEach(camera => {
+          Object.keys(camera.zones).forEach(zone => zones.add(zone));
+        });
+
+        let subLabels: string[] = [];
+        try {
+          subLabels = await frigateApi.getSubLabels();
+        } catch (error) {
+          // Older servers don't have /api/sub_labels
+        }
+
+        setOptions({
+          groups: cameraGroups.getGroups(),
+          cameras: cameras.map(camera => camera.name),
+          labels: config.model.labels,
+          subLabels,
+          zones: Array.from(zones).sort(),
+        });
+      } catch (error) {
+        console.error('[EventFilters] Failed to load filter options:', error);
+      }
+    };
+
+    loadOptions();
+  }, [visible, filters]);
+
+  const toggleListValue = (key: ListFilterKey, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      [key]: prev[key].includes(value)
+        ? prev[key].filter(item => item !== value)
+        : [...prev[key], value],
+    }));
+  };
+
+  const selectTimeRange = (range: EventTimeRange) => {
+    setDraft(prev => {
+      if (range !== 'custom') return { ...prev, timeRange: range };
+      const today = new Date();
+      return {
+        ...prev,
+        timeRange: 'custom',
+        after: prev.after ?? toSeconds(startOfDay(addDays(today, 1 - DEFAULT_CUSTOM_DAYS))),
+        before: prev.before ?? toSeconds(endOfDay(today)),
+      };
+    });
+  };
+
+  // Move one end of the custom range by whole days, keeping from <= to <= today
+  const shiftCustomDate = (bound: 'after' | 'before', days: number) => {
+    setDraft(prev => {
+      if (prev.after === null || prev.before === null) return prev;
+      const from = startOfDay(prev.after * 1000);
+      const to = startOfDay(prev.before * 1000);
+      if (bound === 'after') {
+        const next = addDays(from, days);
+        return next > to ? prev : { ...prev, after: toSeconds(next) };
+      }
+      const next = addDays(to, days);
+      return next < from || next > new Date() ? prev : { ...prev, before: toSeconds(endOfDay(next)) };
+    });
+  };
+
+  const renderCustomRange = () => {
+    if (draft.timeRange !== 'custom' || draft.after === null || draft.before === null) return null;
+
+    const rows: Array<{ bound: 'after' | 'before'; label: string; time: number; canForward: boolean; canBack: boolean }> = [
+      { bound: 'after', label: 'From', time: draft.after, canBack: true, canForward: startOfDay(draft.after * 1000) < startOfDay(draft.before * 1000) },
+      { bound: 'before', label: 'To', time: draft.before, canBack: startOfDay(draft.after * 1000) < startOfDay(draft.before * 1000), canForward: !isToday(draft.before * 1000) },
+    ];
+
+    return (
+      <View style={styles.customRange}>
+        {rows.map(row => (
+          <View key={row.bound} style={styles.customRow}>
+            <Text variant="bodyLarge" style={styles.switchLabel}>{row.label}</Text>
+            <View style={styles.dateStepper}>
+              <IconButton
+                icon="chevron-left"
+                size={20}
+                disabled={!row.canBack}
+                onPress={() => shiftCustomDate(row.bound, -1)}
+              />
+              <Text variant="bodyLarge" style={styles.dateText}>{format(row.time * 1000, 'EEE d MMM yyyy')}</Text>
+              <IconButton
+                icon="chevron-right"
+                size={20}
+                disabled={!row.canForward}
+                onPress={() => shiftCustomDate(row.bound, 1)}
+              />
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderGroupSection = () => {
+    // Saved groups that no longer exist match no cameras - keep them visible so they can be removed
+    const deletedGroups = draft.groups.filter(id => !options.groups.some(group => group.id === id));
+    if (options.groups.length === 0 && deletedGroups.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text variant="labelLarge" style={styles.sectionTitle}>Camera Groups</Text>
+        <View style={styles.chipRow}>
+          {options.groups.map(group => (
+            <Chip
+              key={group.id}
+              mode="outlined"
+              icon={group.icon}
+              selected={draft.groups.includes(group.id)}
+              showSelectedOverlay
+              onPress={() => toggleListValue('groups', group.id)}
+            >
+              {group.name}
+            </Chip>
+          ))}
+          {deletedGroups.map(id => (
+            <Chip
+              key={id}
+              mode="outlined"
+              icon="folder-remove-outline"
+              selected
+              showSelectedOverlay
+              onPress={() => toggleListValue('groups', id)}
+            >
+              Deleted group
+            </Chip>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderListSection = (title: string, key: Exclude<ListFilterKey, 'groups'>) => {
+    // Keep persisted values visible even if they're no longer in the config
+    const values = Array.from(new Set([...options[key], ...draft[key]]));
+    if (values.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text variant="labelLarge" style={styles.sectionTitle}>{title}</Text>
+        <View style={styles.chipRow}>
+          {values.map(value => (
+            <Chip
+              key={value}
+              mode="outlined"
+              selected={draft[key].includes(value)}
+              showSelectedOverlay
+              onPress={() => toggleListValue(key, value)}
+              textStyle={styles.chipText}
+            >
+              {value.replace(/_/g, ' ')}
+            </Chip>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onDismiss}>
+      <Pressable style={styles.overlay} onPress={onDismiss}>
+        <Pressable style={styles.sheet} onPress={() => {}}>
+          <View style={styles.handle} />
+          <View style={styles.sheetHeader}>
+            <Text variant="titleLarge" style={styles.title}>Filter Events</Text>
+            <Button onPress={() => setDraft(DEFAULT_EVENT_FILTERS)}>Reset</Button>
+          </View>
+
+          <ScrollView style={styles.scroll} contentContainerStyle={styles.scrollContent}>
+            {renderGroupSection()}
+            {renderListSection('Cameras', 'cameras')}
+            {renderListSection('Labels', 'labels')}
+            {renderListSection('Sub-labels', 'subLabels')}
+            {renderListSection('Zones', 'zones')}
+
+            <View style={styles.section}>
+              <Text variant="labelLarge" style={styles.sectionTitle}>Date Range</Text>
+              <View style={styles.chipRow}>
+                {(Object.keys(TIME_RANGE_LABELS) as EventTimeRange[]).map(range => (
+                  <Chip
+                    key={range}
+                    mode="outlined"
+                    selected={draft.timeRange === range}
+                    showSelectedOverlay
+                    onPress={() => selectTimeRange(range)}
+                    textStyle={styles.chipText}
+                  >
+                    {TIME_RANGE_LABELS[range]}
+                  </Chip>
+                ))}
+              </View>
+              {renderCustomRange()}
+            </View>
+
+            <View style={styles.section}>
+              <Text variant="labelLarge" style={styles.sectionTitle}>Minimum Score</Text>
+              <View style={styles.chipRow}>
+                <Chip
+                  mode="outlined"
+                  selected={draft.minScore === null}
+                  showSelectedOverlay
+                  onPress={() => setDraft(prev => ({ ...prev, minScore: null }))}
+                  textStyle={styles.chipText}
+                >
+                  Any
+                </Chip>
+                {MIN_SCORE_OPTIONS.map(score => (
+                  <Chip
+                    key={score}
+                    mode="outlined"
+                    selected={draft.minScore === score}
+                    showSelectedOverlay
+                    onPress={() => setDraft(prev => ({ ...prev, minScore: score }))}
+                    textStyle={styles.chipText}
+                  >
+                    {`${Math.round(score * 100)}%`}
+                  </Chip>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.switchRow}>
+                <Text variant="bodyLarge" style={styles.switchLabel}>Has clip</Text>
+                <Switch
+                  value={draft.hasClip}
+                  onValueChange={(value) => setDraft(prev => ({ ...prev, hasClip: value }))}
+                />
+              </View>
+              <View style={styles.switchRow}>
+                <Text variant="bodyLarge" style={styles.switchLabel}>Has snapshot</Text>
+                <Switch
+                  value={draft.hasSnapshot}
+                  onValueChange={(value) => setDraft(prev => ({ ...prev, hasSnapshot: value }))}
+                />
+              </View>
+              <View style={styles.switchRow}>
+                <Text variant="bodyLarge" style={styles.switchLabel}>Favorites only</Text>
+                <Switch
+                  value={draft.favorites}
+                  onValueChange={(value) => setDraft(prev => ({ ...prev, favorites: value }))}
+                />
+              </View>
+              <Text variant="bodySmall" style={styles.hint}>
+                Sub-label, score, clip, snapshot and favorite filters apply to the All tab only.
+              </Text>
+            </View>
+          </ScrollView>
+
+          <Button
+            mode="contained"
+            onPress={() => onApply(draft)}
+            style={styles.applyButton}
+            contentStyle={styles.applyButtonContent}
+          >
+            Apply Filters
+          </Button>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 8,
+    paddingBottom: 24,
+    maxHeight: '85%',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: theme.colors.outlineVariant,
+    marginBottom: 8,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+  },
+  title: {
+    color: theme.colors.onSurface,
+    fontWeight: '600',
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chipText: {
+    textTransform: 'capitalize',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  switchLabel: {
+    color: theme.colors.onSurface,
+  },
+  customRange: {
+    marginTop: 8,
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  dateStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dateText: {
+    color: theme.colors.onSurface,
+    minWidth: 130,
+    textAlign: 'center',
+  },
+  hint: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: 8,
+  },
+  applyButton: {
+    marginHorizontal: 20,
+    marginTop: 12,
+    borderRadius: 12,
+  },
+  applyButtonContent: {
+    paddingVertical: 6,
+  },
+});
@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { View, StyleSheet, Pressable, ActivityIndicator } from 'react-native';
+import { Text } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { RTCView, MediaStream } from 'react-native-webrtc';
+import Video from 'react-native-video';
+import { SmoothImage } from './SmoothImage';
+import { frigateApi } from '../services/frigateApi';
+import { WebRTCConnection } from '../services/webrtcService';
+import { MSEStreamService, createMSEStream } from '../services/mseStreamService';
+import { streamNegotiator, StreamState } from '../services/streamNegotiator';
+
+interface LiveStreamTileProps {
+  cameraName: string;
+  // go2rtc stream to play - the wall passes the sub stream unless focused
+  streamName: string;
+  width: number;
+  height: number;
+  // False shows the latest snapshot instead (over the stream cap, or not visible)
+  live: boolean;
+  // Snapshot refresh trigger for tiles that aren't streaming
+  refreshTimestamp: number;
+  onPress: () => void;
+  onLongPress?: () => void;
+}
+
+/**
+ * One muted camera on the live wall. Runs the same negotiator chain as the
+ * live view (WebRTC / MSE proxy / HLS) and falls back to the latest snapshot
+ * while connecting, when off, or when every protocol failed.
+ */
+export const LiveStreamTile: React.FC<LiveStreamTileProps> = ({
+  cameraName,
+  streamName,
+  width,
+  height,
+  live,
+  refreshTimestamp,
+  onPress,
+  onLongPress,
+}) => {
+  const streamSession = useMemo(
+    () => streamNegotiator.createSession({ cameraName, streamName, surface: 'live' }),
+    [cameraName, streamName]
+  );
+  const [stream, setStream] = useState<StreamState>(streamSession.getState());
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const webrtcConnection = useRef<WebRTCConnection | null>(null);
+  const mseStreamService = useRef<MSEStreamService | null>(null);
+  const streamActive = stream.phase === 'connecting' || stream.phase === 'playing';
+
+  useEffect(() => {
+    if (!live) return;
+    const unsubscribe = streamSession.onStateChange(setStream);
+    streamSession.start();
+    return () => {
+      unsubscribe();
+      streamSession.stop();
+      setStream(streamSession.getState());
+    };
+  }, [live, streamSession]);
+
+  // Start the transport the negotiator picked (see CameraLiveScreenWebRTC)
+  useEffect(() => {
+    if (!streamActive) return;
+    const { attempt, protocol } = stream;
+
+    if (protocol === 'webrtc') {
+      const connection = new WebRTCConnection({
+        cameraName,
+        streamName,
+        audioMuted: true,
+        onRemoteStream: setRemoteStream,
+        onConnectionStateChange: (state) => {
+          if (state === 'connected') streamSession.reportPlaying(attempt);
+        },
+        onCodecError: (err) => streamSession.reportFailure(attempt, err, { unsupported: true }),
+        onError: (err) => streamSession.reportFailure(attempt, err),
+      });
+      webrtcConnection.current = connection;
+      connection.connect().catch(() => {
+        // Already reported through onError
+      });
+    } else if (protocol === 'mse') {
+      const mseService = createMSEStream({
+        cameraName,
+        streamName,
+        onReady: setVideoUrl,
+        onError: (err) => streamSession.reportFailure(attempt, err),
+      });
+      mseStreamService.current = mseService;
+      mseService.start().catch(err => streamSession.reportFailure(attempt, err));
+    } else if (protocol === 'hls') {
+      const token = frigateApi.getJWTToken();
+      setVideoUrl(`${frigateApi.getBaseUrl()}/api/go2rtc/api/stream.m3u8?src=${encodeURIComponent(streamName)}&token=${token}`);
+    }
+
+    return () => {
+      webrtcConnection.current?.disconnect();
+      webrtcConnection.current = null;
+      mseStreamService.current?.stop();
+      mseStreamService.current = null;
+      setRemoteStream(null);
+      setVideoUrl(null);
+    };
+  }, [stream.attempt, streamActive]);
+
+  const snapshotUrl = `${frigateApi.getBaseUrl()}/api/${cameraName}/latest.jpg?h=${Math.round(height)}&cache=${refreshTimestamp}`;
+
+  return (
+    <Pressable style={[styles.container, { width, height }]} onPress={onPress} onLongPress={onLongPress}>
+      {/* Snapshot underneath - visible until the stream shows a frame */}
+      <SmoothImage source={{ uri: snapshotUrl }} style={styles.fill} resizeMode="cover" />
+
+      {stream.protocol === 'webrtc' && remoteStream && (
+        <RTCView streamURL={remoteStream.toURL()} style={styles.fill} objectFit="cover" />
+      )}
+
+      {(stream.protocol === 'mse' || stream.protocol === 'hls') && videoUrl && (
+        <Video
+          source={{ uri: videoUrl }}
+          style={styles.fill}
+          resizeMode="cover"
+          controls={false}
+          paused={false}
+          muted
+          repeat={stream.protocol === 'hls'}
+          onReadyForDisplay={() => streamSession.reportPlaying(stream.attempt)}
+          onError={() => streamSession.reportFailure(stream.attempt, `${stream.protocol} playback failed`)}
+        />
+      )}
+
+      <View style={styles.overlay} pointerEvents="none">
+        <Text style={styles.cameraName} numberOfLines={1}>{cameraName.replace(/_/g, ' ')}</Text>
+        {live && (stream.phase === 'negotiating' || stream.phase === 'connecting' || stream.phase === 'backoff') && (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        )}
+        {live && stream.phase === 'playing' && <View style={styles.liveDot} />}
+        {live && stream.phase === 'failed' && (
+          <MaterialCommunityIcons name="video-off-outline" size={14} color="#FFFFFF" />
+        )}
+        {!live && <MaterialCommunityIcons name="image-outline" size={14} color="rgba(255,255,255,0.7)" />}
+      </View>
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#000',
+    overflow: 'hidden',
+  },
+  fill: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  overlay: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  cameraName: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+    marginRight: 4,
+  },
+  liveDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#F44336',
+  },
+});
@@ -0,0 +1,398 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Modal, Pressable, ScrollView } from 'react-native';
+import { Text, Chip, Button, Switch, TextInput, HelperText, useTheme } from 'react-native-paper';
+import { frigateApi } from '../services/frigateApi';
+import { cameraGroups, CameraGroup } from '../services/cameraGroups';
+import {
+  DAY_LABELS,
+  NotificationRule,
+  formatTimeOfDay,
+  parseTimeOfDay,
+} from '../services/notificationRules';
+
+interface NotificationRuleSheetProps {
+  visible: boolean;
+  rule: NotificationRule | null;
+  onSave: (rule: NotificationRule) => void;
+  onDelete?: (ruleId: string) => void;
+  onDismiss: () => void;
+}
+
+interface RuleOptions {
+  groups: CameraGroup[];
+  cameras: string[];
+  labels: string[];
+  zones: string[];
+}
+
+const MIN_SCORE_OPTIONS = [0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+type ListRuleKey = 'cameras' | 'groups' | 'labels' | 'zones';
+
+/**
+ * Bottom sheet for editing a notification rule. Edits a draft copy and only
+ * hands it back on Save. Options come from the Frigate config.
+ */
+export const NotificationRuleSheet: React.FC<NotificationRuleSheetProps> = ({
+  visible,
+  rule,
+  onSave,
+  onDelete,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const [draft, setDraft] = useState<NotificationRule | null>(rule);
+  const [startText, setStartText] = useState('');
+  const [endText, setEndText] = useState('');
+  const [options, setOptions] = useState<RuleOptions>({ groups: [], cameras: [], labels: [], zones: [] });
+
+  useEffect(() => {
+    if (!visible || !rule) return;
+    setDraft(rule);
+    setStartText(formatTimeOfDay(rule.schedule.start));
+    setEndText(formatTimeOfDay(rule.schedule.end));
+
+    const loadOptions = async () => {
+      try {
+        const config = frigateApi.getCachedConfig() ?? await frigateApi.getConfig();
+        const cameras = await frigateApi.getCameras();
+        await cameraGroups.load();
+        const zones = new Set<string>();
+        Object.values(config.cameras).forEach(camera => {
+          Object.keys(camera.zones).forEach(zone => zones.add(zone));
+        });
+
+        setOptions({
+          groups: cameraGroups.getGroups(),
+          cameras: cameras.map(camera => camera.name),
+          labels: config.model.labels,
+          zones: Array.from(zones).sort(),
+        });
+      } catch (error) {
+        console.error('[Notifications] Failed to load rule options:', error);
+      }
+    };
+
+    loadOptions();
+  }, [visible, rule]);
+
+  if (!draft) return null;
+
+  const start = parseTimeOfDay(startText);
+  const end = parseTimeOfDay(endText);
+  const scheduleInvalid = draft.schedule.enabled && (start === null || end === null);
+
+  const toggleListValue = (key: ListRuleKey, value: string) => {
+    setDraft(prev => prev && ({
+      ...prev,
+      [key]: prev[key].includes(value)
+        ? prev[key].filter(item => item !== value)
+        : [...prev[key], value],
+    }));
+  };
+
+  const toggleDay = (day: number) => {
+    setDraft(prev => prev && ({
+      ...prev,
+      schedule: {
+        ...prev.schedule,
+        days: prev.schedule.days.includes(day)
+          ? prev.schedule.days.filter(item => item !== day)
+          : [...prev.schedule.days, day].sort(),
+      },
+    }));
+  };
+
+  const handleSave = () => {
+    if (scheduleInvalid) return;
+    onSave({
+      ...draft,
+      name: draft.name.trim() || 'Untitled Rule',
+      schedule: draft.schedule.enabled
+        ? { ...draft.schedule, start: start as number, end: end as number }
+        : draft.schedule,
+    });
+  };
+
+  const renderGroupSection = () => {
+    // Saved groups that no longer exist match no cameras - keep them visible so they can be removed
+    const deletedGroups = draft.groups.filter(id => !options.groups.some(group => group.id === id));
+    if (options.groups.length === 0 && deletedGroups.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text variant="labelLarge" style={styles.sectionTitle}>Camera Groups</Text>
+        <View style={styles.chipRow}>
+          {options.groups.map(group => (
+            <Chip
+              key={group.id}
+              mode="outlined"
+              icon={group.icon}
+              selected={draft.groups.includes(group.id)}
+              showSelectedOverlay
+              onPress={() => toggleListValue('groups', group.id)}
+            >
+              {group.name}
+            </Chip>
+          ))}
+          {deletedGroups.map(id => (
+            <Chip
+              key={id}
+              mode="outlined"
+              icon="folder-remove-outline"
+              selected
+              showSelectedOverlay
+              onPress={() => toggleListValue('groups', id)}
+            >
+              Deleted group
+            </Chip>
+          ))}
+        </View>
+        <Text variant="bodySmall" style={styles.hint}>Cameras in these groups match as if picked below</Text>
+      </View>
+    );
+  };
+
+  const renderListSection = (title: string, key: Exclude<ListRuleKey, 'groups'>, emptyHint: string) => {
+    // Keep saved values visible even if they're no longer in the config
+    const values = Array.from(new Set([...options[key], ...draft[key]]));
+    if (values.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text variant="labelLarge" style={styles.sectionTitle}>{title}</Text>
+        <View style={styles.chipRow}>
+          {values.map(value => (
+            <Chip
+              key={value}
+              mode="outlined"
+              selected={draft[key].includes(value)}
+              showSelectedOverlay
+              onPress={() => toggleListValue(key, value)}
+              textStyle={styles.chipText}
+            >
+              {value.replace(/_/g, ' ')}
+            </Chip>
+          ))}
+        </View>
+        {draft[key].length === 0 && (key !== 'cameras' || draft.groups.length === 0) && (
+          <Text variant="bodySmall" style={styles.hint}>{emptyHint}</Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onDismiss}>
+      <Pressable style={styles.overlay} onPress={onDismiss}>
+        <Pressable style={styles.sheet} onPress={() => {}}>
+          <View style={styles.handle} />
+          <View style={styles.sheetHeader}>
+            <Text variant="titleLarge" style={styles.title}>Notification Rule</Text>
+            {onDelete && (
+              <Button textColor={theme.colors.error} onPress={() => onDelete(draft.id)}>Delete</Button>
+            )}
+          </View>
+
+          <ScrollView style={styles.scroll} contentContainerStyle={styles.scrollContent}>
+            <TextInput
+              label="Name"
+              value={draft.name}
+              onChangeText={(name) => setDraft(prev => prev && ({ ...prev, name }))}
+              mode="outlined"
+              style={styles.nameInput}
+            />
+
+            {renderGroupSection()}
+            {renderListSection('Cameras', 'cameras', 'Matches every camera')}
+            {renderListSection('Labels', 'labels', 'Matches every object')}
+            {renderListSection('Required Zones', 'zones', 'Matches objects anywhere in frame')}
+
+            <View style={styles.section}>
+              <Text variant="labelLarge" style={styles.sectionTitle}>Minimum Score</Text>
+              <View style={styles.chipRow}>
+                {MIN_SCORE_OPTIONS.map(score => (
+                  <Chip
+                    key={score}
+                    mode="outlined"
+                    selected={draft.minScore === score}
+                    showSelectedOverlay
+                    onPress={() => setDraft(prev => prev && ({ ...prev, minScore: score }))}
+                    textStyle={styles.chipText}
+                  >
+                    {`${Math.round(score * 100)}%`}
+                  </Chip>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.switchRow}>
+                <Text variant="bodyLarge" style={styles.switchLabel}>Include stationary objects</Text>
+                <Switch
+                  value={draft.includeStationary}
+                  onValueChange={(value) => setDraft(prev => prev && ({ ...prev, includeStationary: value }))}
+                />
+              </View>
+              <View style={styles.switchRow}>
+                <Text variant="bodyLarge" style={styles.switchLabel}>Only during a schedule</Text>
+                <Switch
+                  value={draft.schedule.enabled}
+                  onValueChange={(value) => setDraft(prev => prev && ({
+                    ...prev,
+                    schedule: { ...prev.schedule, enabled: value },
+                  }))}
+                />
+              </View>
+            </View>
+
+            {draft.schedule.enabled && (
+              <View style={styles.section}>
+                <View style={styles.chipRow}>
+                  {DAY_LABELS.map((label, day) => (
+                    <Chip
+                      key={label}
+                      mode="outlined"
+                      selected={draft.schedule.days.includes(day)}
+                      showSelectedOverlay
+                      onPress={() => toggleDay(day)}
+                    >
+                      {label}
+                    </Chip>
+                  ))}
+                </View>
+                <View style={styles.timeRow}>
+                  <TextInput
+                    label="From"
+                    value={startText}
+                    onChangeText={setStartText}
+                    mode="outlined"
+                    placeholder="HH:MM"
+                    keyboardType="numbers-and-punctuation"
+                    error={start === null}
+                    style={styles.timeInput}
+                  />
+                  <TextInput
+                    label="To"
+                    value={endText}
+                    onChangeText={setEndText}
+                    mode="outlined"
+                    placeholder="HH:MM"
+                    keyboardType="numbers-and-punctuation"
+                    error={end === null}
+                    style={styles.timeInput}
+                  />
+                </View>
+                <HelperText type={scheduleInvalid ? 'error' : 'info'}>
+                  {scheduleInvalid
+                    ? 'Enter times as HH:MM (24-hour)'
+                    : 'No days selected means every day. Windows may run past midnight.'}
+                </HelperText>
+              </View>
+            )}
+          </ScrollView>
+
+          <Button
+            mode="contained"
+            onPress={handleSave}
+            disabled={scheduleInvalid}
+            style={styles.saveButton}
+            contentStyle={styles.saveButtonContent}
+          >
+            Save Rule
+          </Button>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 8,
+    paddingBottom: 24,
+    maxHeight: '90%',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: theme.colors.outlineVariant,
+    marginBottom: 8,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    minHeight: 40,
+  },
+  title: {
+    color: theme.colors.onSurface,
+    fontWeight: '600',
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+  },
+  nameInput: {
+    marginTop: 12,
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chipText: {
+    textTransform: 'capitalize',
+  },
+  hint: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: 6,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  switchLabel: {
+    color: theme.colors.onSurface,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  timeInput: {
+    flex: 1,
+  },
+  saveButton: {
+    marginHorizontal: 20,
+    marginTop: 12,
+    borderRadius: 12,
+  },
+  saveButtonContent: {
+    paddingVertical: 6,
+  },
+});
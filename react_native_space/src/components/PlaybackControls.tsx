@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, IconButton, Button, Menu, useTheme } from 'react-native-paper';
+import { format } from 'date-fns';
+import {
+  PLAYBACK_RATES,
+  SKIP_LONG_SECONDS,
+  SKIP_SHORT_SECONDS,
+  formatPlaybackRate,
+} from '../services/playbackControls';
+
+interface PlaybackControlsProps {
+  // Unix timestamp in MILLISECONDS of the frame on screen, once known
+  position: number | null;
+  paused: boolean;
+  rate: number;
+  hasPreviousEvent: boolean;
+  hasNextEvent: boolean;
+  onTogglePause: () => void;
+  // Seconds, negative to go back
+  onSkip: (seconds: number) => void;
+  onStepFrame: (direction: 1 | -1) => void;
+  onRateChange: (rate: number) => void;
+  onPreviousEvent: () => void;
+  onNextEvent: () => void;
+}
+
+/**
+ * Transport bar under the player during recording playback. Frame stepping
+ * only works while paused.
+ */
+export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  position,
+  paused,
+  rate,
+  hasPreviousEvent,
+  hasNextEvent,
+  onTogglePause,
+  onSkip,
+  onStepFrame,
+  onRateChange,
+  onPreviousEvent,
+  onNextEvent,
+}) => {
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const [showRateMenu, setShowRateMenu] = useState(false);
+  const iconColor = theme.colors.onSurface;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.infoRow}>
+        <Text variant="labelLarge" style={styles.positionText}>
+          {position !== null ? format(position, 'EEE d MMM, h:mm:ss a') : '—'}
+        </Text>
+        <Menu
+          visible={showRateMenu}
+          onDismiss={() => setShowRateMenu(false)}
+          anchor={
+            <Button compact mode="text" icon="speedometer" onPress={() => setShowRateMenu(true)}>
+              {formatPlaybackRate(rate)}
+            </Button>
+          }
+        >
+          {PLAYBACK_RATES.map(option => (
+            <Menu.Item
+              key={option}
+              title={formatPlaybackRate(option)}
+              leadingIcon={option === rate ? 'check' : undefined}
+              onPress={() => {
+                setShowRateMenu(false);
+                onRateChange(option);
+              }}
+            />
+          ))}
+        </Menu>
+      </View>
+
+      <View style={styles.transportRow}>
+        <IconButton
+          icon="skip-previous"
+          size={20}
+          iconColor={iconColor}
+          disabled={!hasPreviousEvent}
+          onPress={onPreviousEvent}
+          style={styles.button}
+        />
+        <IconButton
+          icon="rewind-60"
+          size={20}
+          iconColor={iconColor}
+          onPress={() => onSkip(-SKIP_LONG_SECONDS)}
+          style={styles.button}
+        />
+        <IconButton
+          icon="rewind-10"
+          size={20}
+          iconColor={iconColor}
+          onPress={() => onSkip(-SKIP_SHORT_SECONDS)}
+          style={styles.button}
+        />
+        <IconButton
+          icon="step-backward"
+          size={20}
+          iconColor={iconColor}
+          disabled={!paused}
+          onPress={() => onStepFrame(-1)}
+          style={styles.button}
+        />
+        <IconButton
+          icon={paused ? 'play' : 'pause'}
+          mode="contained"
+          size={24}
+          onPress={onTogglePause}
+          style={styles.button}
+        />
+        <IconButton
+          icon="step-forward"
+          size={20}
+          iconColor={iconColor}
+          disabled={!paused}
+          onPress={() => onStepFrame(1)}
+          style={styles.button}
+        />
+        <IconButton
+          icon="fast-forward-10"
+          size={20}
+          iconColor={iconColor}
+          onPress={() => onSkip(SKIP_SHORT_SECONDS)}
+          style={styles.button}
+        />
+        <IconButton
+          icon="fast-forward-60"
+          size={20}
+          iconColor={iconColor}
+          onPress={() => onSkip(SKIP_LONG_SECONDS)}
+          style={styles.button}
+        />
+        <IconButton
+          icon="skip-next"
+          size={20}
+          iconColor={iconColor}
+          disabled={!hasNextEvent}
+          onPress={onNextEvent}
+          style={styles.button}
+        />
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: theme.colors.outlineVariant,
+    paddingBottom: 4,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingLeft: 16,
+    paddingRight: 4,
+  },
+  positionText: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  transportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-evenly',
+  },
+  button: {
+    margin: 0,
+  },
+});
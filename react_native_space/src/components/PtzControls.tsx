@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Pressable } from 'react-native';
+import { Menu, IconButton } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import type { PtzInfo } from '../services/frigateApi';
+import { frigateWebSocket, PtzCommand } from '../services/frigateWebSocket';
+
+interface PtzControlsProps {
+  cameraName: string;
+  info: PtzInfo;
+  // Autotracking can only be toggled when it's set up in the Frigate config
+  autotrackingAvailable: boolean;
+}
+
+/**
+ * D-pad, zoom and preset overlay for ONVIF PTZ cameras. Holding a button
+ * moves the camera; releasing it sends STOP.
+ */
+export const PtzControls: React.FC<PtzControlsProps> = ({ cameraName, info, autotrackingAvailable }) => {
+  const [showPresets, setShowPresets] = useState(false);
+  const [autotracking, setAutotracking] = useState(
+    frigateWebSocket.getCameraState(cameraName)?.ptz_autotracker ?? false
+  );
+
+  const canPanTilt = info.features.includes('pt');
+  const canZoom = info.features.includes('zoom');
+
+  useEffect(() => {
+    setAutotracking(frigateWebSocket.getCameraState(cameraName)?.ptz_autotracker ?? false);
+    return frigateWebSocket.onCameraState((camera, state) => {
+      if (camera === cameraName) setAutotracking(state.ptz_autotracker);
+    });
+  }, [cameraName]);
+
+  const send = (command: PtzCommand) => frigateWebSocket.sendPtzCommand(cameraName, command);
+
+  const renderHoldButton = (command: PtzCommand, icon: string, style?: object) => (
+    <Pressable
+      style={({ pressed }) => [styles.button, style, pressed && styles.buttonPressed]}
+      onPressIn={() => send(command)}
+      onPressOut={() => send('STOP')}
+      hitSlop={4}
+    >
+      <MaterialCommunityIcons name={icon as any} size={24} color="#FFFFFF" />
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.overlay} pointerEvents="box-none">
+      <View style={styles.topRow} pointerEvents="box-none">
+        {autotrackingAvailable && (
+          <IconButton
+            icon={autotracking ? 'target-account' : 'target'}
+            size={20}
+            iconColor={autotracking ? '#4CAF50' : '#FFFFFF'}
+            containerColor="rgba(0,0,0,0.5)"
+            onPress={() => frigateWebSocket.setCameraFeature(cameraName, 'ptz_autotracker', !autotracking)}
+            accessibilityLabel="Toggle autotracking"
+          />
+        )}
+        {info.presets.length > 0 && (
+          <Menu
+            visible={showPresets}
+            onDismiss={() => setShowPresets(false)}
+            anchor={
+              <IconButton
+                icon="bookmark-multiple-outline"
+                size={20}
+                iconColor="#FFFFFF"
+                containerColor="rgba(0,0,0,0.5)"
+                onPress={() => setShowPresets(true)}
+                accessibilityLabel="Presets"
+              />
+            }
+          >
+            {info.presets.map(preset => (
+              <Menu.Item
+                key={preset}
+                title={preset}
+                onPress={() => {
+                  setShowPresets(false);
+                  send(`preset_${preset}`);
+                }}
+              />
+            ))}
+          </Menu>
+        )}
+      </View>
+
+      <View style={styles.bottomRow} pointerEvents="box-none">
+        {canZoom ? (
+          <View style={styles.zoomColumn}>
+            {renderHoldButton('ZOOM_IN', 'plus')}
+            {renderHoldButton('ZOOM_OUT', 'minus', styles.zoomOut)}
+          </View>
+        ) : <View />}
+
+        {canPanTilt && (
+          <View style={styles.dpad}>
+            {renderHoldButton('MOVE_UP', 'chevron-up', styles.dpadUp)}
+            {renderHoldButton('MOVE_LEFT', 'chevron-left', styles.dpadLeft)}
+            {renderHoldButton('MOVE_RIGHT', 'chevron-right', styles.dpadRight)}
+            {renderHoldButton('MOVE_DOWN', 'chevron-down', styles.dpadDown)}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const BUTTON_SIZE = 40;
+const DPAD_SIZE = BUTTON_SIZE * 3;
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'space-between',
+    padding: 8,
+    zIndex: 20,
+  },
+  topRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  bottomRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+  },
+  button: {
+    width: BUTTON_SIZE,
+    height: BUTTON_SIZE,
+    borderRadius: BUTTON_SIZE / 2,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonPressed: {
+    backgroundColor: 'rgba(255,255,255,0.35)',
+  },
+  zoomColumn: {
+    alignItems: 'center',
+  },
+  zoomOut: {
+    marginTop: 8,
+  },
+  dpad: {
+    width: DPAD_SIZE,
+    height: DPAD_SIZE,
+  },
+  dpadUp: {
+    position: 'absolute',
+    top: 0,
+    left: BUTTON_SIZE,
+  },
+  dpadLeft: {
+    position: 'absolute',
+    top: BUTTON_SIZE,
+    left: 0,
+  },
+  dpadRight: {
+    position: 'absolute',
+    top: BUTTON_SIZE,
+    right: 0,
+  },
+  dpadDown: {
+    position: 'absolute',
+    bottom: 0,
+    left: BUTTON_SIZE,
+  },
+});
@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Modal, Pressable, ScrollView } from 'react-native';
+import { Text, Chip, IconButton, ActivityIndicator, useTheme } from 'react-native-paper';
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isAfter,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { frigateRecordingsApi, RecordingDay } from '../services/frigateRecordingsApi';
+
+interface RecordingCalendarSheetProps {
+  visible: boolean;
+  cameraName: string;
+  // Unix timestamp in MILLISECONDS of the time being viewed, if any
+  currentTime: number | null;
+  // Start of the picked hour, in MILLISECONDS
+  onSelect: (timestamp: number) => void;
+  onDismiss: () => void;
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Month calendar of the days a camera has recordings on, then the hours of
+ * the picked day. Comes from Frigate's recordings summary, so days outside
+ * retention simply aren't marked.
+ */
+export const RecordingCalendarSheet: React.FC<RecordingCalendarSheetProps> = ({
+  visible,
+  cameraName,
+  currentTime,
+  onSelect,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const [days, setDays] = useState<Record<string, RecordingDay>>({});
+  const [loading, setLoading] = useState(false);
+  const [month, setMonth] = useState(() => startOfMonth(currentTime ?? Date.now()));
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    const viewing = currentTime ?? Date.now();
+    setMonth(startOfMonth(viewing));
+    setSelectedDay(dayKey(new Date(viewing)));
+
+    const loadSummary = async () => {
+      setLoading(true);
+      try {
+        const summary = await frigateRecordingsApi.getRecordingsSummary(cameraName);
+        setDays(Object.fromEntries(summary.map(day => [day.day, day])));
+      } catch (error) {
+        console.error('[Timeline] Failed to load recordings summary:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSummary();
+  }, [visible, cameraName]);
+
+  const today = new Date();
+  const gridStart = startOfWeek(month);
+  const gridEnd = endOfWeek(endOfMonth(month));
+  const weeks: Date[][] = [];
+  for (let day = gridStart; !isAfter(day, gridEnd); day = addDays(day, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, index) => addDays(day, index)));
+  }
+
+  const selected = selectedDay ? days[selectedDay] : undefined;
+  const recordedHours = new Map((selected?.hours ?? []).map(hour => [hour.hour, hour]));
+
+  const handleHourPress = (hour: number) => {
+    if (!selectedDay) return;
+    const [year, monthIndex, day] = selectedDay.split('-').map(Number);
+    onSelect(new Date(year, monthIndex - 1, day, hour).getTime());
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onDismiss}>
+      <Pressable style={styles.overlay} onPress={onDismiss}>
+        <Pressable style={styles.sheet} onPress={() => {}}>
+          <View style={styles.handle} />
+          <View style={styles.sheetHeader}>
+            <IconButton icon="chevron-left" onPress={() => setMonth(prev => addMonths(prev, -1))} />
+            <Text variant="titleMedium" style={styles.title}>{format(month, 'MMMM yyyy')}</Text>
+            <IconButton
+              icon="chevron-right"
+              onPress={() => setMonth(prev => addMonths(prev, 1))}
+              disabled={isSameMonth(month, today)}
+            />
+          </View>
+
+          <ScrollView style={styles.scroll} contentContainerStyle={styles.scrollContent}>
+            <View style={styles.weekRow}>
+              {WEEKDAY_LABELS.map((label, index) => (
+                <Text key={index} style={[styles.dayCell, styles.weekdayLabel]}>{label}</Text>
+              ))}
+            </View>
+            {weeks.map(week => (
+              <View key={dayKey(week[0])} style={styles.weekRow}>
+                {week.map(date => {
+                  const key = dayKey(date);
+                  const recorded = key in days;
+                  const inMonth = isSameMonth(date, month);
+                  const isSelected = key === selectedDay;
+                  return (
+                    <Pressable
+                      key={key}
+                      style={[styles.dayCell, isSelected && styles.dayCellSelected]}
+                      onPress={() => setSelectedDay(key)}
+                      disabled={!recorded}
+                    >
+                      <Text
+                        style={[
+                          styles.dayText,
+                          !recorded && styles.dayTextDisabled,
+                          !inMonth && styles.dayTextOutside,
+                          isSelected && styles.dayTextSelected,
+                        ]}
+                      >
+                        {format(date, 'd')}
+                      </Text>
+                      {recorded && (
+                        <View style={[styles.recordedDot, days[key].events > 0 && styles.eventDot]} />
+                      )}
+                    </Pressable>
+                  );
+                })}
+              </View>
+            ))}
+
+            {loading && <ActivityIndicator style={styles.loading} />}
+
+            {selected && (
+              <View style={styles.section}>
+                <Text variant="labelLarge" style={styles.sectionTitle}>
+                  {format(new Date(`${selected.day}T00:00:00`), 'EEEE d MMMM')}
+                  {selected.events > 0 ? ` • ${selected.events} event${selected.events === 1 ? '' : 's'}` : ''}
+                </Text>
+                <View style={styles.chipRow}>
+                  {Array.from({ length: 24 }, (_, hour) => {
+                    const recordedHour = recordedHours.get(String(hour).padStart(2, '0'));
+                    return (
+                      <Chip
+                        key={hour}
+                        mode="outlined"
+                        compact
+                        disabled={!recordedHour}
+                        icon={recordedHour && recordedHour.events > 0 ? 'circle-medium' : undefined}
+                        onPress={() => handleHourPress(hour)}
+                        style={styles.hourChip}
+                      >
+                        {format(new Date(2000, 0, 1, hour), 'ha')}
+                      </Chip>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 8,
+    paddingBottom: 24,
+    maxHeight: '85%',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: theme.colors.outlineVariant,
+    marginBottom: 8,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+  },
+  title: {
+    color: theme.colors.onSurface,
+    fontWeight: '600',
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  dayCell: {
+    flex: 1,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 20,
+  },
+  dayCellSelected: {
+    backgroundColor: theme.colors.primaryContainer,
+  },
+  weekdayLabel: {
+    color: theme.colors.onSurfaceVariant,
+    fontSize: 12,
+    textAlign: 'center',
+    textAlignVertical: 'center',
+  },
+  dayText: {
+    color: theme.colors.onSurface,
+    fontWeight: '500',
+  },
+  dayTextDisabled: {
+    color: theme.colors.onSurfaceDisabled,
+    fontWeight: '400',
+  },
+  dayTextOutside: {
+    opacity: 0.5,
+  },
+  dayTextSelected: {
+    color: theme.colors.onPrimaryContainer,
+    fontWeight: '700',
+  },
+  recordedDot: {
+    width: 4,
+    height: 4,
+    borderRadius: 2,
+    marginTop: 2,
+    backgroundColor: theme.colors.outline,
+  },
+  eventDot: {
+    backgroundColor: '#007AFF',
+  },
+  loading: {
+    marginTop: 12,
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  hourChip: {
+    minWidth: 64,
+  },
+});
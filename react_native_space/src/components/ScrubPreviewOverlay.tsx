@@ -0,0 +1,109 @@
+import React, { useEffect, useRef } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import Video, { VideoRef } from 'react-native-video';
+import { format } from 'date-fns';
+import { frigateRecordingsApi } from '../services/frigateRecordingsApi';
+import type { ScrubPreviewSource } from '../services/scrubPreview';
+import { SmoothImage } from './SmoothImage';
+
+interface ScrubPreviewOverlayProps {
+  // Time being scrubbed to, in MILLISECONDS
+  time: number;
+  source: ScrubPreviewSource | null;
+}
+
+// Seeking the preview clip on every scroll event floods the decoder
+const MIN_SEEK_STEP_SECONDS = 0.5;
+
+/**
+ * Low-resolution preview shown over the player while the timeline is being
+ * dragged. Preview clips are seeked in place (paused); the current hour shows
+ * the nearest cached frame. Without either it just dims the player.
+ */
+export const ScrubPreviewOverlay: React.FC<ScrubPreviewOverlayProps> = ({ time, source }) => {
+  const videoRef = useRef<VideoRef>(null);
+  const loadedRef = useRef(false);
+  const lastSeekRef = useRef<number | null>(null);
+  const clipSrc = source?.type === 'clip' ? source.clip.src : null;
+  const offset = source?.type === 'clip' ? source.offset : null;
+
+  useEffect(() => {
+    loadedRef.current = false;
+    lastSeekRef.current = null;
+  }, [clipSrc]);
+
+  const seek = (target: number) => {
+    if (lastSeekRef.current !== null && Math.abs(target - lastSeekRef.current) < MIN_SEEK_STEP_SECONDS) return;
+    lastSeekRef.current = target;
+    videoRef.current?.seek(target);
+  };
+
+  useEffect(() => {
+    if (offset !== null && loadedRef.current) seek(offset);
+  }, [offset]);
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      {source?.type === 'clip' && (
+        <Video
+          key={source.clip.src}
+          ref={videoRef}
+          source={{ uri: frigateRecordingsApi.getPreviewClipUrl(source.clip) }}
+          style={StyleSheet.absoluteFill}
+          resizeMode="cover"
+          paused
+          muted
+          controls={false}
+          onLoad={() => {
+            loadedRef.current = true;
+            if (offset !== null) seek(offset);
+          }}
+          onError={(error) => console.error('[ScrubPreview] Preview clip failed:', error)}
+        />
+      )}
+
+      {source?.type === 'frame' && (
+        <SmoothImage
+          source={{ uri: frigateRecordingsApi.getPreviewFrameUrl(source.fileName) }}
+          style={StyleSheet.absoluteFill}
+          resizeMode="cover"
+        />
+      )}
+
+      <View style={styles.timeBadge}>
+        <Text style={styles.timeText}>{format(time, 'EEE h:mm:ss a')}</Text>
+        {!source && <Text style={styles.hintText}>No preview available</Text>}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    // Over the recording player
+    zIndex: 11,
+  },
+  timeBadge: {
+    marginBottom: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    alignItems: 'center',
+  },
+  timeText: {
+    color: '#FFF',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  hintText: {
+    color: '#AAA',
+    fontSize: 11,
+    marginTop: 2,
+  },
+});
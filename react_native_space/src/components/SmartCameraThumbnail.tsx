@@ -1,9 +1,14 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { View, StyleSheet, Animated, Platform, Easing } from 'react-native';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { View, StyleSheet, Animated, Platform, Easing, Pressable } from 'react-native';
 import { useTheme } from 'react-native-paper';
 import { WebView } from 'react-native-webview';
+import Video from 'react-native-video';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { SmoothImage } from './SmoothImage';
-import { frigateApi } from '../services/frigateApi';
+import { frigateApi, CameraConfig } from '../services/frigateApi';
+import { audioPreferences } from '../services/audioPreferences';
+import { streamNegotiator, StreamState } from '../services/streamNegotiator';
+import { getCameraStreams } from '../services/streamQuality';
 
 interface SmartCameraThumbnailProps {
   cameraName: string;
@@ -18,7 +23,8 @@ interface SmartCameraThumbnailProps {
 /**
  * Smart Camera Thumbnail that switches between:
  * - Static image (when idle) with smooth periodic refresh
- * - Live MSE stream (when motion detected)
+ * - Live stream (when motion detected), muted unless the camera's audio
+ *   was turned on. The stream negotiator picks WebView MSE or HLS.
  * 
  * Mimics Frigate PWA behavior for dashboard camera cards.
  */
@@ -33,10 +39,41 @@ export const SmartCameraThumbnail: React.FC<SmartCameraThumbnailProps> = ({
 }) => {
   const theme = useTheme();
   const [showLiveStream, setShowLiveStream] = useState(false);
-  const [streamReady, setStreamReady] = useState(false);
+  // Thumbnails use the camera's sub stream when it has one (lower resolution).
+  // Undefined until the config is loaded, so streaming can wait for it.
+  const [cameraConfig, setCameraConfig] = useState<CameraConfig | null | undefined>(
+    () => frigateApi.getCachedConfig()?.cameras[cameraName]
+  );
+  const streams = getCameraStreams(cameraName, cameraConfig);
+  const streamName = streams.low ?? streams.high;
+  const streamSession = useMemo(
+    () => streamNegotiator.createSession({ cameraName, streamName, surface: 'thumbnail' }),
+    [cameraName, streamName]
+  );
+  const [stream, setStream] = useState<StreamState>(streamSession.getState());
+  const streamReady = stream.phase === 'playing';
+  const streamActive = stream.phase === 'connecting' || stream.phase === 'playing';
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const pulseAnim = useRef(new Animated.Value(0.3)).current;
   const motionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const webViewRef = useRef<WebView>(null);
+  const [muted, setMuted] = useState(() => audioPreferences.isMuted(cameraName));
+  
+  // Follow the camera's audio preference (also changed from the live view)
+  useEffect(() => {
+    audioPreferences.load().then(() => setMuted(audioPreferences.isMuted(cameraName)));
+    return audioPreferences.onChange((camera, isMuted) => {
+      if (camera === cameraName) setMuted(isMuted);
+    });
+  }, [cameraName]);
+  
+  // The page always starts muted (so the HTML never changes); apply the
+  // preference once the video exists
+  useEffect(() => {
+    if (streamReady) {
+      webViewRef.current?.injectJavaScript(`document.getElementById('video').muted = ${muted}; true;`);
+    }
+  }, [streamReady, muted]);
   
   // Pulsing animation for live dot
   useEffect(() => {
@@ -71,7 +108,38 @@ export const SmartCameraThumbnail: React.FC<SmartCameraThumbnailProps> = ({
   const cacheKey = refreshTimestamp || Date.now();
   const imageUrl = `${baseUrl}/api/${cameraName}/latest.jpg?h=${Math.round(height)}&cache=${cacheKey}`;
 
-  // MSE stream HTML for WebView - uses sub-stream (H264) for compatibility
+  useEffect(() => {
+    let cancelled = false;
+    frigateApi.getCameraConfig(cameraName)
+      .then(config => {
+        if (!cancelled) setCameraConfig(config);
+      })
+      .catch(error => {
+        // Fall back to the main stream
+        console.warn(`[SmartThumb:${cameraName}] Failed to load camera config:`, error);
+        if (!cancelled) setCameraConfig(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraName]);
+
+  // Negotiate only while the live layer is wanted and the stream is known
+  const configLoaded = cameraConfig !== undefined;
+  useEffect(() => {
+    if (!showLiveStream || !configLoaded) return;
+    const unsubscribe = streamSession.onStateChange(setStream);
+    streamSession.start();
+    return () => {
+      unsubscribe();
+      streamSession.stop();
+      setStream(streamSession.getState());
+    };
+  }, [showLiveStream, configLoaded, streamSession]);
+
+  const hlsUrl = `${baseUrl}/api/go2rtc/api/stream.m3u8?src=${encodeURIComponent(streamName)}&token=${token}`;
+
+  // MSE stream HTML for WebView
   const getMseHtml = () => `
     <!DOCTYPE html>
     <html>
@@ -88,7 +156,7 @@ export const SmartCameraThumbnail: React.FC<SmartCameraThumbnailProps> = ({
       <script>
         const video = document.getElementById('video');
         const baseUrl = '${baseUrl}';
-        const camera = '${cameraName}_sub';
+        const camera = '${streamName}';
         
         let ws, mediaSource, sourceBuffer, queue = [];
         
@@ -101,6 +169,10 @@ export const SmartCameraThumbnail: React.FC<SmartCameraThumbnailProps> = ({
         }
         
         function connect() {
+          if (!window.MediaSource) {
+            window.ReactNativeWebView?.postMessage('error:MediaSource not available');
+            return;
+          }
           const wsUrl = baseUrl.replace('http', 'ws') + '/api/go2rtc/api/ws?src=' + camera;
           window.ReactNativeWebView?.postMessage('log:Connecting to: ' + wsUrl);
           ws = new WebSocket(wsUrl);
@@ -134,7 +206,8 @@ export const SmartCameraThumbnail: React.FC<SmartCameraThumbnailProps> = ({
                     });
                     window.ReactNativeWebView?.postMessage('ready');
                   } catch (err) {
-                    window.ReactNativeWebView?.postMessage('log:Buffer error: ' + err.message);
+                    // Usually a codec this WebView can't decode
+                    window.ReactNativeWebView?.postMessage('error:Buffer error: ' + err.message);
                   }
                 });
               }
@@ -196,7 +269,6 @@ export const SmartCameraThumbnail: React.FC<SmartCameraThumbnailProps> = ({
         }).start(() => {
           console.log(`[SmartThumb:${cameraName}] ⚪ Fade complete, hiding stream`);
           setShowLiveStream(false);
-          setStreamReady(false);
         });
       }, 3000); // Keep stream 3 seconds after motion ends
     }
@@ -223,9 +295,11 @@ export const SmartCameraThumbnail: React.FC<SmartCameraThumbnailProps> = ({
     const msg = event.nativeEvent.data;
     if (msg.startsWith('log:')) {
       console.log(`[SmartThumb:${cameraName}] MSE: ${msg.slice(4)}`);
+    } else if (msg.startsWith('error:')) {
+      streamSession.reportFailure(stream.attempt, msg.slice(6));
     } else if (msg === 'ready') {
       console.log(`[SmartThumb:${cameraName}] ✅ Stream ready!`);
-      setStreamReady(true);
+      streamSession.reportPlaying(stream.attempt);
     } else {
       console.log(`[SmartThumb:${cameraName}] WebView:`, msg);
     }
@@ -250,27 +324,59 @@ export const SmartCameraThumbnail: React.FC<SmartCameraThumbnailProps> = ({
       />
 
       {/* Live stream layer (overlaid when motion active) - only show when ready */}
-      {showLiveStream && (
+      {showLiveStream && streamActive && (
         <Animated.View style={[styles.streamOverlay, { opacity: fadeAnim }]}>
-          <WebView
-            source={{ html: getMseHtml(), baseUrl: baseUrl }}
-            style={styles.webview}
-            javaScriptEnabled
-            mediaPlaybackRequiresUserAction={false}
-            allowsInlineMediaPlayback
-            onMessage={handleStreamMessage}
-            scrollEnabled={false}
-            bounces={false}
-            sharedCookiesEnabled={true}
-            thirdPartyCookiesEnabled={true}
-            originWhitelist={['*']}
-            onError={(e) => console.log(`[SmartThumb:${cameraName}] WebView error:`, e.nativeEvent)}
-            onLoadStart={() => console.log(`[SmartThumb:${cameraName}] WebView loading...`)}
-            onLoadEnd={() => console.log(`[SmartThumb:${cameraName}] WebView loaded`)}
-          />
+          {stream.protocol === 'mse' ? (
+            <WebView
+              key={stream.attempt}
+              ref={webViewRef}
+              source={{ html: getMseHtml(), baseUrl: baseUrl }}
+              style={styles.webview}
+              javaScriptEnabled
+              mediaPlaybackRequiresUserAction={false}
+              allowsInlineMediaPlayback
+              onMessage={handleStreamMessage}
+              scrollEnabled={false}
+              bounces={false}
+              sharedCookiesEnabled={true}
+              thirdPartyCookiesEnabled={true}
+              originWhitelist={['*']}
+              onError={(e) => console.log(`[SmartThumb:${cameraName}] WebView error:`, e.nativeEvent)}
+              onLoadStart={() => console.log(`[SmartThumb:${cameraName}] WebView loading...`)}
+              onLoadEnd={() => console.log(`[SmartThumb:${cameraName}] WebView loaded`)}
+            />
+          ) : (
+            <Video
+              key={stream.attempt}
+              source={{ uri: hlsUrl }}
+              style={styles.webview}
+              resizeMode="contain"
+              controls={false}
+              paused={false}
+              muted={muted}
+              repeat={true}
+              onReadyForDisplay={() => streamSession.reportPlaying(stream.attempt)}
+              onError={(error) => {
+                console.log(`[SmartThumb:${cameraName}] HLS error:`, error);
+                streamSession.reportFailure(stream.attempt, 'HLS playback failed');
+              }}
+            />
+          )}
         </Animated.View>
       )}
 
+      {/* Per-stream mute toggle while the live stream is showing */}
+      {showLiveStream && streamReady && (
+        <Pressable
+          style={styles.muteButton}
+          onPress={() => audioPreferences.setMuted(cameraName, !muted)}
+          hitSlop={8}
+          accessibilityLabel={muted ? 'Unmute' : 'Mute'}
+        >
+          <MaterialCommunityIcons name={muted ? 'volume-off' : 'volume-high'} size={14} color="#FFFFFF" />
+        </Pressable>
+      )}
+
       {/* Live indicator - pulsing red dot */}
       {isMotionActive && (
         <Animated.View style={[styles.liveDot, { opacity: pulseAnim }]} />
@@ -305,6 +411,17 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: 'transparent',
   },
+  muteButton: {
+    position: 'absolute',
+    top: 6,
+    left: 6,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   liveDot: {
     position: 'absolute',
     top: 8,
@@ -0,0 +1,81 @@
+import React from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import { Text } from 'react-native-paper';
+import type { StreamStatsSnapshot } from '../services/streamStats';
+
+interface StreamStatsOverlayProps {
+  stats: StreamStatsSnapshot | null;
+  streamName: string;
+}
+
+const PROTOCOL_LABELS: Record<StreamStatsSnapshot['protocol'], string> = {
+  webrtc: 'WebRTC',
+  mse: 'MSE (fMP4 proxy)',
+  hls: 'HLS',
+};
+
+const formatBitrate = (kbps: number) => (kbps >= 1000 ? `${(kbps / 1000).toFixed(1)} Mbps` : `${kbps} kbps`);
+
+/**
+ * "Stats for nerds" box over the live video. Values a transport can't
+ * measure show as a dash.
+ */
+export const StreamStatsOverlay: React.FC<StreamStatsOverlayProps> = ({ stats, streamName }) => {
+  const rows: Array<[string, string | null]> = stats
+    ? [
+        ['Protocol', PROTOCOL_LABELS[stats.protocol]],
+        ['Stream', streamName],
+        ['Codec', stats.codec],
+        ['Resolution', stats.width && stats.height ? `${stats.width}×${stats.height}` : null],
+        ['Framerate', stats.fps !== null ? `${Math.round(stats.fps)} fps` : null],
+        ['Bitrate', stats.bitrateKbps !== null ? formatBitrate(stats.bitrateKbps) : null],
+        ['Latency', stats.latencyMs !== null ? `~${stats.latencyMs} ms` : null],
+        ['Dropped', stats.droppedFrames !== null ? `${stats.droppedFrames} frames` : null],
+        ['Packet loss', stats.packetLossPercent !== null ? `${stats.packetLossPercent.toFixed(1)}%` : null],
+        ['Buffer', stats.bufferSeconds !== null ? `${stats.bufferSeconds.toFixed(2)} s` : null],
+        ['Proxy buffer', stats.bufferedSegments !== null ? `${stats.bufferedSegments} segments` : null],
+      ]
+    : [['Stream', streamName]];
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      {rows.map(([label, value]) => (
+        <View key={label} style={styles.row}>
+          <Text style={styles.label}>{label}</Text>
+          <Text style={styles.value}>{value ?? '—'}</Text>
+        </View>
+      ))}
+      {!stats && <Text style={styles.value}>Collecting stats...</Text>}
+    </View>
+  );
+};
+
+const monospace = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    // Below the audio control
+    top: 56,
+    left: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: 'rgba(0,0,0,0.65)',
+    zIndex: 22,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  label: {
+    color: 'rgba(255,255,255,0.6)',
+    fontFamily: monospace,
+    fontSize: 10,
+    width: 84,
+  },
+  value: {
+    color: '#FFFFFF',
+    fontFamily: monospace,
+    fontSize: 10,
+  },
+});
@@ -0,0 +1,74 @@
+import React, { useRef } from 'react';
+import { View, StyleSheet, Animated, PanResponder, Dimensions } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from 'react-native-paper';
+
+interface SwipeToDismissProps {
+  onDismiss: () => void;
+  children: React.ReactNode;
+}
+
+// Fraction of the screen width a swipe has to cover to dismiss
+const DISMISS_THRESHOLD = 0.35;
+
+/**
+ * Row wrapper that slides out and calls onDismiss when swiped left.
+ * Built on PanResponder so it doesn't need a gesture handler library.
+ */
+export const SwipeToDismiss: React.FC<SwipeToDismissProps> = ({ onDismiss, children }) => {
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const translateX = useRef(new Animated.Value(0)).current;
+  const onDismissRef = useRef(onDismiss);
+  onDismissRef.current = onDismiss;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Only claim clearly horizontal drags so taps and list scrolling still work
+      onMoveShouldSetPanResponder: (_, gesture) =>
+        Math.abs(gesture.dx) > 10 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+      onPanResponderMove: (_, gesture) => {
+        translateX.setValue(Math.min(0, gesture.dx));
+      },
+      onPanResponderRelease: (_, gesture) => {
+        const width = Dimensions.get('window').width;
+        if (gesture.dx < -width * DISMISS_THRESHOLD || gesture.vx < -1) {
+          Animated.timing(translateX, {
+            toValue: -width,
+            duration: 180,
+            useNativeDriver: true,
+          }).start(() => onDismissRef.current());
+        } else {
+          Animated.spring(translateX, { toValue: 0, useNativeDriver: true }).start();
+        }
+      },
+      onPanResponderTerminate: () => {
+        Animated.spring(translateX, { toValue: 0, useNativeDriver: true }).start();
+      },
+    })
+  ).current;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.background}>
+        <Ionicons name="trash-outline" size={22} color={theme.colors.onError} />
+      </View>
+      <Animated.View style={{ transform: [{ translateX }] }} {...panResponder.panHandlers}>
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+  },
+  background: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: theme.colors.error,
+    alignItems: 'flex-end',
+    justifyContent: 'center',
+    paddingRight: 24,
+  },
+});
@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, StyleSheet, Pressable, Alert } from 'react-native';
+import { Text, ActivityIndicator } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import type { TalkbackState } from '../services/webrtcService';
+
+interface TalkbackButtonProps {
+  state: TalkbackState;
+  onEnable: () => void;
+  onTalkStart: () => void;
+  onTalkEnd: () => void;
+}
+
+const STATE_LABELS: Record<TalkbackState, string> = {
+  idle: 'Tap to enable talkback',
+  connecting: 'Connecting microphone...',
+  ready: 'Hold to talk',
+  talking: 'Talking...',
+  unsupported: 'No two-way audio',
+  error: 'Talkback failed - tap to retry',
+};
+
+/**
+ * Push-to-talk overlay for the live view. The first tap negotiates the
+ * backchannel; after that, holding the button unmutes the microphone.
+ */
+export const TalkbackButton: React.FC<TalkbackButtonProps> = ({ state, onEnable, onTalkStart, onTalkEnd }) => {
+  const isLive = state === 'ready' || state === 'talking';
+
+  const handlePress = () => {
+    if (state === 'idle' || state === 'error') {
+      onEnable();
+    } else if (state === 'unsupported') {
+      Alert.alert(
+        'Two-Way Audio Unavailable',
+        "This camera doesn't expose an audio backchannel to go2rtc. Check that the camera has a speaker and that its go2rtc stream enables backchannel audio."
+      );
+    }
+  };
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <Pressable
+        style={[
+          styles.button,
+          state === 'talking' && styles.buttonTalking,
+          state === 'unsupported' && styles.buttonUnsupported,
+        ]}
+        onPress={handlePress}
+        onPressIn={isLive ? onTalkStart : undefined}
+        onPressOut={isLive ? onTalkEnd : undefined}
+        accessibilityLabel={STATE_LABELS[state]}
+      >
+        {state === 'connecting' ? (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        ) : (
+          <MaterialCommunityIcons
+            name={state === 'unsupported' || state === 'error' ? 'microphone-off' : 'microphone'}
+            size={26}
+            color="#FFFFFF"
+          />
+        )}
+      </Pressable>
+      <Text style={styles.label}>{STATE_LABELS[state]}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    bottom: 8,
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    zIndex: 21,
+  },
+  button: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    backgroundColor: 'rgba(0,0,0,0.55)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: 'rgba(255,255,255,0.6)',
+  },
+  buttonTalking: {
+    backgroundColor: '#F44336',
+    borderColor: '#FFFFFF',
+  },
+  buttonUnsupported: {
+    opacity: 0.6,
+  },
+  label: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    marginTop: 4,
+    textShadowColor: 'rgba(0,0,0,0.8)',
+    textShadowRadius: 3,
+  },
+});
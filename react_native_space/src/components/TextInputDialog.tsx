@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet } from 'react-native';
+import { Dialog, Portal, TextInput, Button } from 'react-native-paper';
+
+interface TextInputDialogProps {
+  visible: boolean;
+  title: string;
+  label: string;
+  initialValue?: string;
+  multiline?: boolean;
+  submitLabel?: string;
+  onSubmit: (value: string) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Cross-platform replacement for Alert.prompt (which is iOS only)
+ */
+export const TextInputDialog: React.FC<TextInputDialogProps> = ({
+  visible,
+  title,
+  label,
+  initialValue = '',
+  multiline = false,
+  submitLabel = 'Save',
+  onSubmit,
+  onDismiss,
+}) => {
+  const [value, setValue] = useState(initialValue);
+
+  useEffect(() => {
+    if (visible) {
+      setValue(initialValue);
+    }
+  }, [visible, initialValue]);
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>{title}</Dialog.Title>
+        <Dialog.Content>
+          <TextInput
+            label={label}
+            value={value}
+            onChangeText={setValue}
+            mode="outlined"
+            multiline={multiline}
+            style={multiline ? styles.multilineInput : undefined}
+            autoFocus
+          />
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss}>Cancel</Button>
+          <Button onPress={() => onSubmit(value.trim())}>{submitLabel}</Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  multilineInput: {
+    minHeight: 100,
+  },
+});
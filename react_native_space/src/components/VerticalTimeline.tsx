@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   View,
   ScrollView,
@@ -10,8 +10,18 @@ import {
   GestureResponderEvent,
 } from 'react-native';
 import { Text, IconButton, useTheme } from 'react-native-paper';
-import { format } from 'date-fns';
+import { format, isSameDay } from 'date-fns';
 import { frigateApi } from '../services/frigateApi';
+import type { RecordingSegment } from '../services/frigateRecordingsApi';
+import type { MotionActivity, AudioActivity } from '../services/frigateReviewApi';
+import { buildRecordingSpans } from '../services/recordingCoverage';
+import {
+  ActivityBucket,
+  audioSamples,
+  bucketActivity,
+  motionSamples,
+  motionSamplesFromRecordings,
+} from '../services/timelineActivity';
 
 /**
  * Vertical Timeline Component - UniFi Protect Inspired
@@ -22,6 +32,11 @@ import { frigateApi } from '../services/frigateApi';
  * - Time markers on the left
  * - Event thumbnails on the right
  * - Blue dots for motion events
+ * - Recorded spans drawn over the spine (gaps stay thin)
+ * - Motion / audio activity heatmap beside the spine, one cell per row interval
+ * - Scrolls back as far as rangeStart; only rows near the viewport are rendered
+ * - Pinch to zoom between row intervals
+ * - Dragging scrubs (onScrub); the time is only selected once the drag settles
  * - Smooth scrolling
  */
 
@@ -35,38 +50,85 @@ interface TimelineEvent {
 }
 
 interface VerticalTimelineProps {
+  // A tapped time, or where a drag settled
   onTimeSelect: (timestamp: number | 'LIVE') => void;
+  // Every position passed while the user drags, for cheap previews
+  onScrub?: (timestamp: number | 'LIVE') => void;
   events: TimelineEvent[];
+  // Selected time - the timeline scrolls to it when it changes
   currentTime: number | 'LIVE';
-  timeRangeHours?: number;
+  // Frame being played back (MILLISECONDS). Shown as the cursor without
+  // scrolling, so a playing clip doesn't pull the timeline from under a drag.
+  playbackTime?: number | null;
+  // Oldest time the timeline scrolls back to (MILLISECONDS)
+  rangeStart: number;
+  // Recording segments loaded so far, if known
+  recordings?: RecordingSegment[];
+  // Review activity samples; motion falls back to the recordings' own counts
+  motionActivity?: MotionActivity[] | null;
+  audioActivity?: AudioActivity[] | null;
+  // Times (MILLISECONDS) around the rendered rows, for loading data and extending the range
+  onVisibleRangeChange?: (oldest: number, newest: number) => void;
+  onOpenCalendar?: () => void;
 }
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const TIME_COLUMN_WIDTH = 70;
 const SPINE_LEFT = TIME_COLUMN_WIDTH + 20;
+const LIVE_ROW_HEIGHT = 60;
+const HEATMAP_CELL_WIDTH = 6;
+
+// Rows are rendered in steps of this many, plus an overscan either side of the viewport
+const ROW_WINDOW_STEP = 10;
+const ROW_OVERSCAN = 20;
+
+// Finger spread (relative to where the pinch started) that changes zoom by one level
+const PINCH_ZOOM_IN_RATIO = 1.4;
+const PINCH_ZOOM_OUT_RATIO = 0.7;
+
+// A drag counts as settled once the timeline has been still this long
+const SCRUB_SETTLE_MS = 300;
 
-// Zoom levels: interval in minutes, row height, hours to show
+// Zoom levels: interval in minutes, row height
 const ZOOM_LEVELS = [
-  { interval: 1, rowHeight: 40, hours: 0.25, label: '1m' },    // 15 min view
-  { interval: 2, rowHeight: 45, hours: 0.5, label: '2m' },     // 30 min view
-  { interval: 5, rowHeight: 50, hours: 1, label: '5m' },       // 1 hour view
-  { interval: 10, rowHeight: 50, hours: 2, label: '10m' },     // 2 hour view (default)
-  { interval: 30, rowHeight: 55, hours: 6, label: '30m' },     // 6 hour view
-  { interval: 60, rowHeight: 60, hours: 12, label: '1h' },     // 12 hour view
+  { interval: 1, rowHeight: 40, label: '1m' },
+  { interval: 2, rowHeight: 45, label: '2m' },
+  { interval: 5, rowHeight: 50, label: '5m' },
+  { interval: 10, rowHeight: 50, label: '10m' },     // default
+  { interval: 30, rowHeight: 55, label: '30m' },
+  { interval: 60, rowHeight: 60, label: '1h' },
 ];
 const DEFAULT_ZOOM_INDEX = 3; // 10 minute intervals
 
 export const VerticalTimeline: React.FC<VerticalTimelineProps> = ({
   onTimeSelect,
+  onScrub,
   events,
   currentTime,
-  timeRangeHours = 2,
+  playbackTime = null,
+  rangeStart,
+  recordings,
+  motionActivity,
+  audioActivity,
+  onVisibleRangeChange,
+  onOpenCalendar,
 }) => {
   const theme = useTheme();
   const isDark = theme.dark;
+  const cursorTime = playbackTime ?? currentTime;
   const scrollViewRef = useRef<ScrollView>(null);
   const [isScrolling, setIsScrolling] = useState(false);
   const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Programmatic scrollTo calls also fire onScroll - only the user's drags scrub
+  const userScrollingRef = useRef(false);
+  const draggingRef = useRef(false);
+  const scrubTimeRef = useRef<number | 'LIVE'>('LIVE');
+  const [viewportHeight, setViewportHeight] = useState(Dimensions.get('window').height);
+  // First rendered row, moved in ROW_WINDOW_STEPs as the list scrolls
+  const [windowRow, setWindowRow] = useState(0);
+  // Finger distance a pinch is measured from
+  const pinchDistanceRef = useRef<number | null>(null);
+  const [pinching, setPinching] = useState(false);
   
   // Zoom state
   const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
@@ -84,21 +146,60 @@ export const VerticalTimeline: React.FC<VerticalTimelineProps> = ({
     return () => clearInterval(interval);
   }, []);
 
-  const timeRangeMs = zoomLevel.hours * 60 * 60 * 1000;
+  const intervalMs = zoomLevel.interval * 60 * 1000;
 
-  // Generate time markers based on zoom level
-  const generateTimeMarkers = () => {
-    const markers: number[] = [];
-    const interval = zoomLevel.interval * 60 * 1000;
-    const startTime = now - timeRangeMs;
-    for (let time = now; time >= startTime; time -= interval) {
-      markers.push(time);
-    }
-    return markers;
-  };
+  // Row i is the time marker for now - i intervals
+  const rowCount = Math.floor(Math.max(now - rangeStart, 0) / intervalMs) + 1;
+  const totalHeight = rowCount * zoomLevel.rowHeight + 80;
+
+  const visibleRows = Math.ceil(viewportHeight / zoomLevel.rowHeight);
+  const firstRow = Math.max(0, windowRow - ROW_OVERSCAN);
+  const lastRow = Math.min(rowCount - 1, windowRow + visibleRows + ROW_WINDOW_STEP + ROW_OVERSCAN);
+  const timeMarkers: number[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    timeMarkers.push(now - row * intervalMs);
+  }
+  // Time span covered by the rendered rows
+  const renderedNewest = now - (firstRow - 1) * intervalMs;
+  const renderedOldest = now - (lastRow + 1) * intervalMs;
 
-  const timeMarkers = generateTimeMarkers();
-  const totalHeight = timeMarkers.length * zoomLevel.rowHeight + 80;
+  // Content offset of a time, lined up with the centre of the time rows
+  const getYForTime = (timestamp: number) =>
+    LIVE_ROW_HEIGHT + zoomLevel.rowHeight / 2 + ((now - timestamp) / intervalMs) * zoomLevel.rowHeight;
+
+  const recordingSpans = useMemo(() => buildRecordingSpans(recordings ?? []), [recordings]);
+  const motionBuckets = useMemo(
+    () => bucketActivity(
+      motionActivity ? motionSamples(motionActivity) : motionSamplesFromRecordings(recordings ?? []),
+      rangeStart / 1000,
+      now / 1000,
+      zoomLevel.interval * 60,
+      'sum'
+    ),
+    [motionActivity, recordings, zoomLevel.interval, now, rangeStart]
+  );
+  const audioBuckets = useMemo(
+    () => bucketActivity(audioSamples(audioActivity ?? []), rangeStart / 1000, now / 1000, zoomLevel.interval * 60, 'max'),
+    [audioActivity, zoomLevel.interval, now, rangeStart]
+  );
+
+  const isRendered = (start: number, end: number) =>
+    end * 1000 >= renderedOldest && start * 1000 <= renderedNewest;
+
+  const renderHeatmap = (buckets: ActivityBucket[], cellStyle: object) =>
+    buckets.filter(bucket => isRendered(bucket.start, bucket.end)).map(bucket => {
+      const top = getYForTime(bucket.end * 1000);
+      return (
+        <View
+          key={bucket.end}
+          style={[
+            cellStyle,
+            { top, height: getYForTime(bucket.start * 1000) - top, opacity: 0.2 + bucket.intensity * 0.8 },
+          ]}
+          pointerEvents="none"
+        />
+      );
+    });
   
   // Zoom in/out handlers
   const handleZoomIn = useCallback(() => {
@@ -109,29 +210,86 @@ export const VerticalTimeline: React.FC<VerticalTimelineProps> = ({
     setZoomIndex(prev => Math.min(ZOOM_LEVELS.length - 1, prev + 1));
   }, []);
 
+  // Two-finger pinch: spreading zooms in to shorter intervals, pinching zooms out
+  const getTouchDistance = (event: GestureResponderEvent) => {
+    const [first, second] = event.nativeEvent.touches;
+    return Math.hypot(first.pageX - second.pageX, first.pageY - second.pageY);
+  };
+
+  const handleTouchMove = (event: GestureResponderEvent) => {
+    if (event.nativeEvent.touches.length !== 2) return;
+    const distance = getTouchDistance(event);
+
+    if (pinchDistanceRef.current === null) {
+      pinchDistanceRef.current = distance;
+      setPinching(true);
+      return;
+    }
+
+    const ratio = distance / pinchDistanceRef.current;
+    if (ratio > PINCH_ZOOM_IN_RATIO) {
+      handleZoomIn();
+      pinchDistanceRef.current = distance;
+    } else if (ratio < PINCH_ZOOM_OUT_RATIO) {
+      handleZoomOut();
+      pinchDistanceRef.current = distance;
+    }
+  };
+
+  const handleTouchEnd = (event: GestureResponderEvent) => {
+    if (event.nativeEvent.touches.length < 2 && pinchDistanceRef.current !== null) {
+      pinchDistanceRef.current = null;
+      setPinching(false);
+    }
+  };
+
   const getScrollFromTimestamp = (timestamp: number | 'LIVE'): number => {
     if (timestamp === 'LIVE') return 0;
-    const ageMs = now - timestamp;
-    const ratio = ageMs / timeRangeMs;
-    return ratio * (totalHeight - 80) + 60;
+    return LIVE_ROW_HEIGHT + ((now - timestamp) / intervalMs) * zoomLevel.rowHeight;
+  };
+
+  const updateWindow = (scrollY: number) => {
+    const row = Math.max(0, Math.floor((scrollY - LIVE_ROW_HEIGHT) / zoomLevel.rowHeight));
+    setWindowRow(Math.floor(row / ROW_WINDOW_STEP) * ROW_WINDOW_STEP);
+  };
+
+  // Select wherever the drag (and any momentum) stops
+  const settleScrub = () => {
+    if (scrollTimeoutRef.current) clearTimeout(scrollTimeoutRef.current);
+    scrollTimeoutRef.current = setTimeout(() => {
+      // Finger still down - onScrollEndDrag settles it
+      if (draggingRef.current) return;
+      setIsScrolling(false);
+      if (!userScrollingRef.current) return;
+      userScrollingRef.current = false;
+      onTimeSelect(scrubTimeRef.current);
+    }, SCRUB_SETTLE_MS);
   };
 
   const handleScroll = (event: any) => {
     const scrollY = event.nativeEvent.contentOffset.y;
     
+    updateWindow(scrollY);
+    if (draggingRef.current) userScrollingRef.current = true;
+    if (!userScrollingRef.current) return;
     setIsScrolling(true);
     
     // Determine timestamp from scroll position
-    if (scrollY < 40) {
-      onTimeSelect('LIVE');
-    } else {
-      const ratio = (scrollY - 60) / (totalHeight - 80);
-      const timestamp = now - (ratio * timeRangeMs);
-      onTimeSelect(Math.max(timestamp, now - timeRangeMs));
-    }
+    const timestamp = scrollY < 40
+      ? 'LIVE'
+      : Math.max(now - ((scrollY - LIVE_ROW_HEIGHT) / zoomLevel.rowHeight) * intervalMs, rangeStart);
+    scrubTimeRef.current = timestamp;
+    onScrub?.(timestamp);
+    settleScrub();
+  };
 
-    if (scrollTimeoutRef.current) clearTimeout(scrollTimeoutRef.current);
-    scrollTimeoutRef.current = setTimeout(() => setIsScrolling(false), 150);
+  const handleScrollBeginDrag = () => {
+    draggingRef.current = true;
+  };
+
+  const handleScrollEndDrag = () => {
+    draggingRef.current = false;
+    settleScrub();
   };
 
   const handleEventTap = (event: TimelineEvent) => {
@@ -156,12 +314,19 @@ export const VerticalTimeline: React.FC<VerticalTimelineProps> = ({
     return `${baseUrl}/api/events/${event.id}/thumbnail.jpg`;
   };
 
+  // Also runs when a scrub ends, so a time snapped out of a gap moves the timeline too,
+  // and after a zoom so the selected time stays in view
   useEffect(() => {
     if (!isScrolling && currentTime !== 'LIVE') {
       const scrollY = getScrollFromTimestamp(currentTime);
+      updateWindow(scrollY);
       scrollViewRef.current?.scrollTo({ y: scrollY, animated: true });
     }
-  }, [currentTime]);
+  }, [currentTime, isScrolling, zoomIndex]);
+
+  useEffect(() => {
+    onVisibleRangeChange?.(renderedOldest, renderedNewest);
+  }, [windowRow, zoomIndex, viewportHeight, now, rangeStart]);
 
   return (
     <View style={styles.container}>
@@ -170,6 +335,13 @@ export const VerticalTimeline: React.FC<VerticalTimelineProps> = ({
         style={styles.scrollView}
         contentContainerStyle={{ minHeight: totalHeight }}
         onScroll={handleScroll}
+        onScrollBeginDrag={handleScrollBeginDrag}
+        onScrollEndDrag={handleScrollEndDrag}
+        onLayout={(event) => setViewportHeight(event.nativeEvent.layout.height)}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        onTouchCancel={handleTouchEnd}
+        scrollEnabled={!pinching}
         scrollEventThrottle={16}
         showsVerticalScrollIndicator={false}
       >
@@ -178,6 +350,24 @@ export const VerticalTimeline: React.FC<VerticalTimelineProps> = ({
           <View style={styles.spine} />
         </View>
 
+        {/* Recorded footage - the thin spine left showing is a gap */}
+        {recordingSpans.filter(span => isRendered(span.start, span.end)).map(span => {
+          const top = getYForTime(Math.min(span.end * 1000, now));
+          const bottom = getYForTime(Math.max(span.start * 1000, rangeStart));
+          if (bottom <= top) return null;
+          return (
+            <View
+              key={span.start}
+              style={[styles.recordingSpan, { top, height: bottom - top }]}
+              pointerEvents="none"
+            />
+          );
+        })}
+
+        {/* Activity heatmap: motion, then audio */}
+        {renderHeatmap(motionBuckets, styles.motionCell)}
+        {renderHeatmap(audioBuckets, styles.audioCell)}
+
         {/* LIVE Section */}
         <TouchableOpacity
           style={styles.liveRow}
@@ -198,15 +388,18 @@ export const VerticalTimeline: React.FC<VerticalTimelineProps> = ({
 
         {/* Time Markers */}
         {timeMarkers.map((markerTime, index) => {
+          const row = firstRow + index;
           const markerEvents = getEventsNearMarker(markerTime);
           const hasEvents = markerEvents.length > 0;
-          const isSelected = currentTime !== 'LIVE' && 
-            Math.abs(markerTime - (currentTime as number)) < 5 * 60 * 1000;
+          // Label the newest row of each earlier day
+          const startsDay = !isSameDay(markerTime, markerTime + intervalMs);
+          const isSelected = cursorTime !== 'LIVE' && 
+            Math.abs(markerTime - cursorTime) < 5 * 60 * 1000;
 
           return (
             <TouchableOpacity
-              key={index}
-              style={styles.timeRow}
+              key={row}
+              style={[styles.timeRow, { top: LIVE_ROW_HEIGHT + row * zoomLevel.rowHeight }]}
               onPress={() => onTimeSelect(markerTime)}
               activeOpacity={0.7}
             >
@@ -215,6 +408,9 @@ export const VerticalTimeline: React.FC<VerticalTimelineProps> = ({
                 <Text style={[styles.timeText, isSelected && styles.timeTextSelected]}>
                   {format(markerTime, 'h:mm a')}
                 </Text>
+                {startsDay && (
+                  <Text style={styles.dayText}>{format(markerTime, 'EEE d MMM')}</Text>
+                )}
               </View>
 
               {/* Spine dot */}
@@ -252,11 +448,11 @@ export const VerticalTimeline: React.FC<VerticalTimelineProps> = ({
       </ScrollView>
 
       {/* Current time overlay when not LIVE */}
-      {currentTime !== 'LIVE' && (
+      {cursorTime !== 'LIVE' && (
         <View style={styles.currentTimeOverlay} pointerEvents="none">
           <View style={styles.currentTimeBadge}>
             <Text style={styles.currentTimeText}>
-              {format(currentTime as number, 'h:mm:ss a')}
+              {format(cursorTime, 'h:mm:ss a')}
             </Text>
           </View>
           <View style={styles.currentTimeLine} />
@@ -265,6 +461,15 @@ export const VerticalTimeline: React.FC<VerticalTimelineProps> = ({
       
       {/* Zoom controls */}
       <View style={styles.zoomControls}>
+        {onOpenCalendar && (
+          <IconButton
+            icon="calendar-month"
+            size={20}
+            onPress={onOpenCalendar}
+            style={styles.zoomButton}
+            iconColor={isDark ? '#fff' : '#333'}
+          />
+        )}
         <IconButton
           icon="magnify-plus"
           size={20}
@@ -310,8 +515,27 @@ const createStyles = (theme: any, isDark: boolean, rowHeight: number = 50) =>
       width: 2,
       backgroundColor: isDark ? '#3a3a3a' : '#d0d0d0',
     },
+    recordingSpan: {
+      position: 'absolute',
+      left: SPINE_LEFT - 2,
+      width: 6,
+      borderRadius: 3,
+      backgroundColor: isDark ? '#2f5d8a' : '#9cc3ec',
+    },
+    motionCell: {
+      position: 'absolute',
+      left: SPINE_LEFT + 7,
+      width: HEATMAP_CELL_WIDTH,
+      backgroundColor: '#FF9500',
+    },
+    audioCell: {
+      position: 'absolute',
+      left: SPINE_LEFT + 8 + HEATMAP_CELL_WIDTH,
+      width: HEATMAP_CELL_WIDTH,
+      backgroundColor: '#AF52DE',
+    },
     liveRow: {
-      height: 60,
+      height: LIVE_ROW_HEIGHT,
       flexDirection: 'row',
       alignItems: 'center',
     },
@@ -343,6 +567,9 @@ const createStyles = (theme: any, isDark: boolean, rowHeight: number = 50) =>
       marginLeft: -2,
     },
     timeRow: {
+      position: 'absolute',
+      left: 0,
+      right: 0,
       height: rowHeight,
       flexDirection: 'row',
       alignItems: 'center',
@@ -357,6 +584,11 @@ const createStyles = (theme: any, isDark: boolean, rowHeight: number = 50) =>
       color: isDark ? '#888' : '#666',
       fontWeight: '500',
     },
+    dayText: {
+      fontSize: 10,
+      color: isDark ? '#aaa' : '#444',
+      fontWeight: '700',
+    },
     timeTextSelected: {
       color: '#007AFF',
       fontWeight: '700',
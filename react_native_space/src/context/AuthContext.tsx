@@ -1,12 +1,20 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import * as Sentry from '@sentry/react-native';
 import { frigateApi } from '../services/frigateApi';
+import { serverProfiles, ServerProfile } from '../services/serverProfiles';
 
 interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (username: string, password: string, localUrl?: string, remoteUrl?: string) => Promise<void>;
+  // Bumped on every silent token refresh - use it to rebuild token-bearing URLs
+  tokenVersion: number;
+  // Saved Frigate servers and the one the app is currently talking to
+  servers: ServerProfile[];
+  activeServer: ServerProfile | null;
+  login: (username: string, password: string, localUrl?: string, remoteUrl?: string, serverName?: string) => Promise<void>;
   logout: () => Promise<void>;
+  switchServer: (profileId: string) => Promise<void>;
+  removeServer: (profileId: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -14,12 +22,38 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [tokenVersion, setTokenVersion] = useState(0);
+  const [servers, setServers] = useState<ServerProfile[]>([]);
+  const [activeServer, setActiveServer] = useState<ServerProfile | null>(null);
+
+  useEffect(() => {
+    return frigateApi.onTokenChange(() => {
+      setTokenVersion(version => version + 1);
+    });
+  }, []);
+
+  useEffect(() => {
+    const unsubscribeProfiles = serverProfiles.onChange((profiles) => {
+      setServers(profiles);
+      setActiveServer(frigateApi.getActiveServer());
+    });
+    const unsubscribeServer = frigateApi.onServerChange((profile) => {
+      setActiveServer(profile);
+    });
+
+    return () => {
+      unsubscribeProfiles();
+      unsubscribeServer();
+    };
+  }, []);
 
   useEffect(() => {
     // Try to restore session on app start
     const restoreSession = async () => {
       try {
         const restored = await frigateApi.restoreSession();
+        setServers(serverProfiles.getProfiles());
+        setActiveServer(frigateApi.getActiveServer());
         setIsAuthenticated(restored);
       } catch (error) {
         console.error('Failed to restore session:', error);
@@ -31,12 +65,22 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     restoreSession();
   }, []);
 
-  const login = async (username: string, password: string, localUrl?: string, remoteUrl?: string) => {
-    setIsLoading(true);
+  const login = async (
+    username: string,
+    password: string,
+    localUrl?: string,
+    remoteUrl?: string,
+    serverName?: string
+  ) => {
+    // Adding another server happens inside the authenticated app - keep it mounted
+    const addingServer = isAuthenticated;
+    if (!addingServer) {
+      setIsLoading(true);
+    }
     try {
       // Use local URL if available, otherwise remote URL
       const frigateUrl = localUrl || remoteUrl || '';
-      await frigateApi.login(username, password, frigateUrl, localUrl, remoteUrl);
+      await frigateApi.login(username, password, frigateUrl, localUrl, remoteUrl, serverName);
       setIsAuthenticated(true);
       
       // Set Sentry user context (if available)
@@ -66,6 +110,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       } catch (e) {
         // Sentry not available, continue without it
       }
+
+      // A failed login tears down the current session - go back to the server we were on
+      if (addingServer) {
+        setIsAuthenticated(await frigateApi.restoreSession());
+      }
       throw error;
     } finally {
       setIsLoading(false);
@@ -74,7 +123,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const logout = async () => {
     await frigateApi.clearSession();
-    setIsAuthenticated(false);
+
+    // Fall back to another saved server if there is one
+    const restored = await frigateApi.restoreSession();
+    setActiveServer(frigateApi.getActiveServer());
+    setIsAuthenticated(restored);
     
     // Clear Sentry user context (if available)
     try {
@@ -91,8 +144,33 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const switchServer = async (profileId: string) => {
+    await frigateApi.switchServer(profileId);
+    setActiveServer(frigateApi.getActiveServer());
+  };
+
+  const removeServer = async (profileId: string) => {
+    if (profileId === activeServer?.id) {
+      await logout();
+    } else {
+      await serverProfiles.removeProfile(profileId);
+    }
+  };
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, isLoading, login, logout }}>
+    <AuthContext.Provider
+      value={{
+        isAuthenticated,
+        isLoading,
+        tokenVersion,
+        servers,
+        activeServer,
+        login,
+        logout,
+        switchServer,
+        removeServer,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
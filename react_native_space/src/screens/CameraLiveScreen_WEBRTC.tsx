@@ -12,13 +12,12 @@
  * - No black screens or loading indicators
  */
 
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import {
   View,
   StyleSheet,
   ActivityIndicator,
   Dimensions,
-  ScrollView,
   TouchableOpacity,
   Platform,
   AppState,
@@ -33,24 +32,68 @@ import {
   Surface,
   FAB,
   Badge,
+  Menu,
 } from 'react-native-paper';
 import { RTCView, MediaStream } from 'react-native-webrtc';
 import Video, { VideoRef } from 'react-native-video';
-import { WebRTCConnection } from '../services/webrtcService';
-import { MSEStreamService, createMSEStream } from '../services/mseStreamService';
-import { frigateRecordingsApi } from '../services/frigateRecordingsApi';
-import { frigateApi } from '../services/frigateApi';
-import { format } from 'date-fns';
+import { WebRTCConnection, TalkbackState, WebRTCStats } from '../services/webrtcService';
+import { MSEStreamService, MSEStreamStats, createMSEStream } from '../services/mseStreamService';
+import { frigateRecordingsApi, RecordingSegment, PreviewClip } from '../services/frigateRecordingsApi';
+import { frigateReviewApi, MotionActivity, AudioActivity } from '../services/frigateReviewApi';
+import { buildRecordingSpans, findNearestFootage } from '../services/recordingCoverage';
+import {
+  getChunkStart,
+  getMissingChunks,
+  mergeTimelineItems,
+  INITIAL_TIMELINE_MS,
+  TIMELINE_CHUNK_MS,
+} from '../services/timelineRange';
+import { findScrubPreview } from '../services/scrubPreview';
+import { findAdjacentEvent, FRAME_STEP_SECONDS } from '../services/playbackControls';
+import { frigateApi, PtzInfo } from '../services/frigateApi';
+import { audioPreferences } from '../services/audioPreferences';
+import { streamNegotiator, StreamState, MAX_RETRY_ROUNDS } from '../services/streamNegotiator';
+import {
+  streamQuality,
+  getCameraStreams,
+  resolveStreamName,
+  isStreamDegraded,
+  StreamQuality,
+  CameraStreams,
+  STREAM_QUALITY_LABELS,
+} from '../services/streamQuality';
+import { connectionManager } from '../services/connectionManager';
+import {
+  fromWebRTCStats,
+  fromMSEStats,
+  fromHLSStats,
+  PlayerStats,
+  StreamStatsSnapshot,
+  EMPTY_PLAYER_STATS,
+} from '../services/streamStats';
 import * as Sentry from '@sentry/react-native';
 import { VerticalTimeline } from '../components/VerticalTimeline';
+import { CameraSettingsSheet } from '../components/CameraSettingsSheet';
+import { RecordingCalendarSheet } from '../components/RecordingCalendarSheet';
+import { ScrubPreviewOverlay } from '../components/ScrubPreviewOverlay';
+import { PlaybackControls } from '../components/PlaybackControls';
+import { PtzControls } from '../components/PtzControls';
+import { TalkbackButton } from '../components/TalkbackButton';
+import { AudioControl } from '../components/AudioControl';
+import { StreamStatsOverlay } from '../components/StreamStatsOverlay';
 
 type PlaybackMode = 'live' | 'timeline';
-type StreamType = 'webrtc' | 'mse' | 'hls';  // Added MSE option
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const SCREEN_HEIGHT = Dimensions.get('window').height;
 const VIDEO_HEIGHT = (SCREEN_WIDTH * 9) / 16; // 16:9 aspect ratio
 const TIMELINE_HEIGHT = SCREEN_HEIGHT - VIDEO_HEIGHT - 120; // Remaining space
+const RECORDINGS_REFRESH_INTERVAL = 60 * 1000;
+const LIVE_EDGE_REFRESH_MS = 60 * 60 * 1000; // Re-fetched each refresh for new footage and events
+const EVENTS_PAGE_LIMIT = 200; // Per timeline chunk
+const PREVIEW_FRAMES_REFRESH_MS = 10 * 1000; // The current hour's frames keep arriving
+const PREVIEW_FRAMES_LOOKBACK_MS = 2 * 60 * 60 * 1000; // Covers an hour whose preview clip isn't written yet
+const ACTIVITY_SCALE_SECONDS = 60; // Narrowest timeline row
 
 interface TimelineEvent {
   id: string;
@@ -66,10 +109,38 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
   const styles = createStyles(theme);
   const { cameraName, initialTimestamp } = route.params;
   
-  // Stream state
-  const [streamType, setStreamType] = useState<StreamType>('webrtc');
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Stream quality - which go2rtc stream (main / sub) to play
+  const [cameraStreams, setCameraStreams] = useState<CameraStreams | null>(null);
+  const [quality, setQuality] = useState<StreamQuality>(() => streamQuality.getQuality(cameraName));
+  const [degraded, setDegraded] = useState(false);
+  const [showQualityMenu, setShowQualityMenu] = useState(false);
+  const statsSamples = useRef<WebRTCStats[]>([]);
+  // Auto quality follows the network, so switching to cellular drops to the sub stream
+  const [networkType, setNetworkType] = useState(() => connectionManager.getNetworkType());
+  const streamName = cameraStreams
+    ? resolveStreamName(cameraStreams, quality, { networkType, degraded })
+    : cameraName;
+  const isSubStream = !!cameraStreams?.low && streamName === cameraStreams.low;
+  
+  // Stats overlay
+  const [showStats, setShowStats] = useState(false);
+  const [streamStats, setStreamStats] = useState<StreamStatsSnapshot | null>(null);
+  const playerStats = useRef<PlayerStats>(EMPTY_PLAYER_STATS);
+  
+  // Stream state - the negotiator picks the protocol, this screen runs it
+  const streamSession = useMemo(
+    () => streamNegotiator.createSession({ cameraName, streamName, surface: 'live' }),
+    [cameraName, streamName]
+  );
+  const [stream, setStream] = useState<StreamState>(streamSession.getState());
+  const streamType = stream.protocol;
+  const streamActive = stream.phase === 'connecting' || stream.phase === 'playing';
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const loading = !cameraStreams
+    || stream.phase === 'negotiating'
+    || stream.phase === 'connecting'
+    || stream.phase === 'backoff';
+  const error = stream.phase === 'failed' ? stream.error : playbackError;
   const [connectionState, setConnectionState] = useState<string>('new');
   const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
   const [hlsUrl, setHlsUrl] = useState<string | null>(null);
@@ -85,48 +156,205 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
   const [recordingReady, setRecordingReady] = useState(false);
   const [buffering, setBuffering] = useState(false);
   const [recordingEndTime, setRecordingEndTime] = useState<number>(0); // Track where current clip ends
+  const recordingRangeRef = useRef<{ start: number; end: number } | null>(null);
   const videoRef = useRef<VideoRef>(null);
+  const [playbackPaused, setPlaybackPaused] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  // Unix timestamp in MILLISECONDS of the recording frame on screen
+  const [playbackPosition, setPlaybackPosition] = useState<number | null>(null);
   
   // Timeline state
   const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [recordings, setRecordings] = useState<RecordingSegment[]>([]);
+  // Null until loaded, or when the server has no activity API (before 0.14)
+  const [motionActivity, setMotionActivity] = useState<MotionActivity[] | null>(null);
+  const [audioActivity, setAudioActivity] = useState<AudioActivity[] | null>(null);
+  // Read by handleTimeSelect, which also runs from timers set up before the fetch
+  const recordingsRef = useRef<RecordingSegment[]>([]);
+  // Timeline chunks requested so far, and those fully loaded (only these are trusted for snapping)
+  const requestedChunksRef = useRef(new Set<number>());
+  const loadedChunksRef = useRef(new Set<number>());
+  // Oldest time the timeline scrolls back to - grows as it's scrolled or jumped back
+  const [timelineStart, setTimelineStart] = useState(() => Date.now() - INITIAL_TIMELINE_MS);
+  const [showCalendar, setShowCalendar] = useState(false);
+  // Timeline scrub previews - shown from the first drag until the full recording is ready
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  const [previewClips, setPreviewClips] = useState<PreviewClip[]>([]);
+  const [previewFrames, setPreviewFrames] = useState<string[]>([]);
+  const previewFramesFetchedRef = useRef(0);
+  const scrubPreview = useMemo(
+    () => (scrubTime !== null ? findScrubPreview(scrubTime / 1000, previewClips, previewFrames) : null),
+    [scrubTime, previewClips, previewFrames]
+  );
   const [loadingEvents, setLoadingEvents] = useState(false);
-  const scrollViewRef = useRef<ScrollView>(null);
-  const [isScrolling, setIsScrolling] = useState(false);
-  const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  
+  // PTZ state
+  const [ptzInfo, setPtzInfo] = useState<PtzInfo | null>(null);
+  const [showPtz, setShowPtz] = useState(false);
+  const [autotrackingAvailable, setAutotrackingAvailable] = useState(false);
+  
+  // Talkback state (WebRTC only)
+  const [showTalkback, setShowTalkback] = useState(false);
+  const [talkbackState, setTalkbackState] = useState<TalkbackState>('idle');
+  
+  // Audio state - starts from the camera's remembered preference
+  const [audioMuted, setAudioMuted] = useState(() => audioPreferences.isMuted(cameraName));
+  const [hasAudio, setHasAudio] = useState(false);
 
-  // Initialize stream on mount - check codec first
   useEffect(() => {
-    console.log('[CameraLive] Initializing for camera:', cameraName);
-    
-    const initializeStream = async () => {
-      // Check if camera is H265 - if so, skip WebRTC and go straight to MSE
-      const isH265 = await frigateApi.isH265Camera(cameraName);
-      if (isH265) {
-        console.log('[CameraLive] H265 camera detected, using MSE directly');
-        fallbackToMSE();
-      } else {
-        console.log('[CameraLive] H264 camera, using WebRTC');
-        initializeWebRTC();
+    let cancelled = false;
+    audioPreferences.load().then(() => {
+      if (!cancelled) setAudioMuted(audioPreferences.isMuted(cameraName));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraName]);
+
+  useEffect(() => {
+    webrtcConnection.current?.setAudioMuted(audioMuted);
+  }, [audioMuted]);
+
+  // Only ONVIF cameras can have PTZ - skip the request for the rest
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPtzInfo = async () => {
+      try {
+        const config = await frigateApi.getCameraConfig(cameraName);
+        if (!config?.onvif.host) return;
+
+        const info = await frigateApi.getPtzInfo(cameraName);
+        if (cancelled) return;
+        if (info.features.includes('pt') || info.features.includes('zoom') || info.presets.length > 0) {
+          setPtzInfo(info);
+          setAutotrackingAvailable(config.onvif.autotracking.enabled);
+        }
+      } catch (err) {
+        console.warn('[CameraLive] Failed to load PTZ info:', err);
       }
     };
-    
-    initializeStream();
-    fetchRecentEvents();
+
+    loadPtzInfo();
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraName]);
+
+  // The stream to play depends on the camera's live.streams and the quality preference
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadStreams = async () => {
+      const [config] = await Promise.all([
+        frigateApi.getCameraConfig(cameraName).catch(err => {
+          console.warn('[CameraLive] Failed to load camera config:', err);
+          return null;
+        }),
+        streamQuality.load(),
+      ]);
+      if (cancelled) return;
+      setQuality(streamQuality.getQuality(cameraName));
+      setCameraStreams(getCameraStreams(cameraName, config));
+    };
+
+    loadStreams();
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraName]);
+
+  useEffect(() => connectionManager.onNetworkTypeChange(setNetworkType), []);
+
+  // Follow the negotiator; it picks the protocol and drives fallbacks/retries
+  useEffect(() => {
+    if (!cameraStreams) return;
+    setStream(streamSession.getState());
+    const unsubscribe = streamSession.onStateChange(setStream);
+    streamSession.start();
+
+    return () => {
+      console.log('[CameraLive] Cleaning up');
+      unsubscribe();
+      streamSession.stop();
+    };
+  }, [streamSession, !!cameraStreams]);
+
+  // Start the transport the negotiator picked. A new attempt (fallback, retry,
+  // URL change) or leaving the connecting/playing phases tears it down.
+  useEffect(() => {
+    if (!streamActive) return;
+
+    const { attempt, protocol } = stream;
+    console.log(`[CameraLive] Starting ${protocol} (attempt ${attempt})`);
+    if (protocol === 'webrtc') {
+      startWebRTC(attempt);
+    } else if (protocol === 'mse') {
+      startMSE(attempt);
+    } else if (protocol === 'hls') {
+      startHLS();
+    }
+
+    return () => {
+      webrtcConnection.current?.disconnect();
+      webrtcConnection.current = null;
+      mseStreamService.current?.stop();
+      mseStreamService.current = null;
+      setRemoteStream(null);
+      setMseUrl(null);
+      setMseCodec(null);
+      setHlsUrl(null);
+      setStreamStats(null);
+      playerStats.current = EMPTY_PLAYER_STATS;
+    };
+  }, [stream.attempt, streamActive]);
+
+  // MSE / HLS stats are polled; WebRTC pushes its own through onStats
+  useEffect(() => {
+    if (!showStats || stream.phase !== 'playing' || streamType === 'webrtc') return;
+
+    let previous: MSEStreamStats | null = null;
+    const interval = setInterval(() => {
+      if (streamType === 'mse') {
+        const current = mseStreamService.current?.getStats();
+        if (!current) return;
+        setStreamStats(fromMSEStats(previous, current, playerStats.current));
+        previous = current;
+      } else {
+        setStreamStats(fromHLSStats(playerStats.current));
+      }
+    }, 2000);
+
+    return () => clearInterval(interval);
+  }, [showStats, stream.phase, stream.attempt, streamType]);
+
+  // New footage, events and activity keep arriving at the live edge
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const now = Date.now();
+      fetchEvents(now - LIVE_EDGE_REFRESH_MS, now);
+      fetchRecordings(now - LIVE_EDGE_REFRESH_MS, now);
+      fetchActivity(now - LIVE_EDGE_REFRESH_MS, now);
+    }, RECORDINGS_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [cameraName]);
+
+  useEffect(() => {
+    const now = Date.now();
+    requestedChunksRef.current = new Set();
+    loadedChunksRef.current = new Set();
+    recordingsRef.current = [];
+    loadTimelineRange(now - INITIAL_TIMELINE_MS, now);
 
     // If we have an initial timestamp (from tapping an event), start playback there
     if (initialTimestamp) {
       console.log('[CameraLive] Starting at timestamp:', new Date(initialTimestamp).toLocaleString());
       // Small delay to let the stream initialize first
       setTimeout(() => {
-        handleTimeSelect(initialTimestamp);
+        handleJumpTo(initialTimestamp);
       }, 1000);
     }
-
-    return () => {
-      console.log('[CameraLive] Cleaning up');
-      webrtcConnection.current?.disconnect();
-      mseStreamService.current?.stop();
-    };
   }, [cameraName]);
 
   // Stop streaming when app goes to background (battery saving)
@@ -134,38 +362,31 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
     const subscription = AppState.addEventListener('change', (nextAppState) => {
       if (nextAppState === 'background' || nextAppState === 'inactive') {
         console.log('[CameraLive] App backgrounded, stopping streams');
-        webrtcConnection.current?.disconnect();
-        mseStreamService.current?.stop();
+        streamSession.stop();
       } else if (nextAppState === 'active') {
         console.log('[CameraLive] App active, reconnecting');
         // Only reconnect if we were in live mode
         if (playbackMode === 'live') {
-          initializeWebRTC();
+          streamSession.start();
         }
       }
     });
 
     return () => subscription.remove();
-  }, [playbackMode]);
-
-  // Fallback to MSE stream (best option for H265 - uses local HTTP proxy)
-  const fallbackToMSE = useCallback(async () => {
-    console.log('[CameraLive] Falling back to MSE stream (fMP4 proxy)');
-    webrtcConnection.current?.disconnect();
-    setStreamType('mse');
-    setRemoteStream(null);
-    setLoading(true);
+  }, [playbackMode, streamSession]);
+
+  // MSE stream (fMP4 proxy - lowest latency for H265, no UDP needed)
+  const startMSE = async (attempt: number) => {
     setConnectionState('connecting');
-    
+    setHasAudio(true);
+
     try {
-      // Create MSE stream service
       const mseService = createMSEStream({
         cameraName,
+        streamName: streamSession.streamName,
         onReady: (localUrl) => {
           console.log('[CameraLive] MSE stream ready:', localUrl);
           setMseUrl(localUrl);
-          setLoading(false);
-          setConnectionState('mse');
         },
         onCodecInfo: (mimeType) => {
           console.log('[CameraLive] MSE codec:', mimeType);
@@ -173,105 +394,144 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
         },
         onError: (err) => {
           console.error('[CameraLive] MSE error:', err);
-          // Fall back to HLS if MSE fails
-          fallbackToHLS();
+          streamSession.reportFailure(attempt, err);
         },
-        onStats: (stats) => {
-          console.log('[CameraLive] MSE stats:', stats);
-        }
       });
-      
+
       mseStreamService.current = mseService;
       await mseService.start();
     } catch (err) {
-      console.error('[CameraLive] MSE failed, falling back to HLS:', err);
-      fallbackToHLS();
+      console.error('[CameraLive] MSE failed:', err);
+      streamSession.reportFailure(attempt, err instanceof Error ? err : String(err));
     }
-  }, [cameraName]);
+  };
 
-  // Fallback to HLS stream (last resort - higher latency)
-  const fallbackToHLS = useCallback(() => {
-    console.log('[CameraLive] Falling back to HLS stream');
-    webrtcConnection.current?.disconnect();
-    mseStreamService.current?.stop();
-    setStreamType('hls');
-    setRemoteStream(null);
-    setMseUrl(null);
-    
-    // Build HLS URL
+  const buildHlsUrl = () => {
     const baseUrl = frigateApi.getBaseUrl();
     const token = frigateApi.getJWTToken();
-    const url = `${baseUrl}/api/go2rtc/api/stream.m3u8?src=${encodeURIComponent(cameraName)}&token=${token}`;
+    return `${baseUrl}/api/go2rtc/api/stream.m3u8?src=${encodeURIComponent(streamSession.streamName)}&token=${token}`;
+  };
+
+  // HLS stream (last resort - higher latency)
+  const startHLS = () => {
+    const url = buildHlsUrl();
     console.log('[CameraLive] HLS URL:', url);
+    setConnectionState('connecting');
+    setHasAudio(true);
     setHlsUrl(url);
-    setLoading(false);
-    setConnectionState('hls');
-  }, [cameraName]);
+  };
 
-  const initializeWebRTC = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      setStreamType('webrtc');
+  const startWebRTC = async (attempt: number) => {
+    setConnectionState('new');
+    setHasAudio(false);
+    statsSamples.current = [];
 
-      const connection = new WebRTCConnection({
-        cameraName,
-        onRemoteStream: (stream) => {
-          console.log('[CameraLive WebRTC] Remote stream received!');
-          setRemoteStream(stream);
-          setLoading(false);
-        },
-        onConnectionStateChange: (state) => {
-          console.log('[CameraLive WebRTC] Connection state:', state);
-          setConnectionState(state);
-          
-          if (state === 'connected') {
-            setLoading(false);
-          }
-        },
-        onCodecError: (err) => {
-          // H265/HEVC codec not supported by WebRTC - try MSE first (lower latency)
-          console.log('[CameraLive] Codec error, trying MSE fallback:', err.message);
-          fallbackToMSE();
-        },
-        onError: (err) => {
-          console.error('[CameraLive WebRTC] Error:', err);
-          setError(err.message);
-          setLoading(false);
-          
-          Sentry.captureException(err, {
-            tags: { screen: 'CameraLiveWebRTC', camera: cameraName },
+    const connection = new WebRTCConnection({
+      cameraName,
+      streamName: streamSession.streamName,
+      audioMuted: audioPreferences.isMuted(cameraName),
+      onRemoteStream: (mediaStream) => {
+        console.log('[CameraLive WebRTC] Remote stream received!');
+        setRemoteStream(mediaStream);
+        // Called again when the audio track arrives
+        setHasAudio(mediaStream.getAudioTracks().length > 0);
+      },
+      onConnectionStateChange: (state) => {
+        console.log('[CameraLive WebRTC] Connection state:', state);
+        setConnectionState(state);
+
+        if (state === 'connected') {
+          streamSession.reportPlaying(attempt);
+        }
+      },
+      onTalkbackStateChange: setTalkbackState,
+      onStats: (stats) => {
+        setStreamStats(fromWebRTCStats(statsSamples.current[statsSamples.current.length - 1], stats));
+        statsSamples.current = [...statsSamples.current.slice(-19), stats];
+        // Auto quality drops to the sub stream and stays there for this visit,
+        // rather than bouncing back and forth on a flaky connection
+        if (isStreamDegraded(statsSamples.current)) {
+          setDegraded(prev => {
+            if (!prev) console.log('[CameraLive] Stream degraded (packet loss / framerate)');
+            return true;
           });
-        },
-      });
+        }
+      },
+      onCodecError: (err) => {
+        // H265/HEVC codec not supported by WebRTC - remembered for this camera
+        console.log('[CameraLive] Codec error:', err.message);
+        streamSession.reportFailure(attempt, err, { unsupported: true });
+      },
+      onError: (err) => {
+        console.error('[CameraLive WebRTC] Error:', err);
+        Sentry.captureException(err, {
+          tags: { screen: 'CameraLiveWebRTC', camera: cameraName },
+        });
+        streamSession.reportFailure(attempt, err);
+      },
+    });
 
-      webrtcConnection.current = connection;
+    webrtcConnection.current = connection;
+    try {
       await connection.connect();
     } catch (err) {
-      const error = err instanceof Error ? err : new Error(String(err));
-      console.error('[CameraLive WebRTC] Failed to initialize:', error);
-      setError(error.message);
-      setLoading(false);
-      
-      Sentry.captureException(error, {
-        tags: { screen: 'CameraLiveWebRTC', camera: cameraName },
+      // Already reported through onError
+    }
+  };
+
+  const handleQualityChange = (newQuality: StreamQuality) => {
+    setShowQualityMenu(false);
+    setDegraded(false);
+    setQuality(newQuality);
+    streamQuality.setQuality(cameraName, newQuality);
+  };
+
+  const handleToggleMute = () => {
+    const muted = !audioMuted;
+    setAudioMuted(muted);
+    audioPreferences.setMuted(cameraName, muted);
+  };
+
+  const handleEnableTalkback = async () => {
+    try {
+      await webrtcConnection.current?.enableTalkback();
+    } catch (err) {
+      // State is already 'error'; the button explains
+      Sentry.captureException(err, {
+        tags: { screen: 'CameraLiveWebRTC', camera: cameraName, feature: 'talkback' },
       });
     }
   };
 
-  // Fetch recent events for timeline
-  const fetchRecentEvents = async () => {
+  // Rebuild token-bearing URLs after a silent token refresh
+  useEffect(() => {
+    const unsubscribe = frigateApi.onTokenChange(() => {
+      setHlsUrl(prev => (prev ? buildHlsUrl() : prev));
+
+      // A clip that is already playing keeps its connection - only reload one still loading
+      const range = recordingRangeRef.current;
+      if (!recordingReady && range) {
+        setRecordingUrl(prev =>
+          prev ? frigateRecordingsApi.getRecordingUrl(cameraName, range.start, range.end) : prev
+        );
+      }
+    });
+
+    return unsubscribe;
+  }, [cameraName, recordingReady]);
+
+  // Fetch events for a stretch of the timeline (MILLISECONDS)
+  const fetchEvents = async (after: number, before: number): Promise<boolean> => {
     try {
       setLoadingEvents(true);
-      const now = Date.now();
-      const oneHourAgo = now - 60 * 60 * 1000;
       
-      console.log(`[Timeline] Fetching events for ${cameraName} from ${new Date(oneHourAgo).toLocaleTimeString()} to ${new Date(now).toLocaleTimeString()}`);
+      console.log(`[Timeline] Fetching events for ${cameraName} from ${new Date(after).toLocaleString()} to ${new Date(before).toLocaleString()}`);
       
       const eventData = await frigateRecordingsApi.getEventsInRange(
         cameraName,
-        oneHourAgo,  // Pass milliseconds, API converts to seconds
-        now
+        after,  // Pass milliseconds, API converts to seconds
+        before,
+        EVENTS_PAGE_LIMIT
       );
       
       // Map to TimelineEvent format
@@ -283,56 +543,142 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
         has_clip: e.has_clip,
       }));
       
-      setEvents(timelineEvents);
-      console.log(`[Timeline] Loaded ${timelineEvents.length} events:`, timelineEvents.map(e => `${e.label}@${new Date(e.start_time * 1000).toLocaleTimeString()}`));
+      setEvents(prev => mergeTimelineItems(prev, timelineEvents, e => e.id));
+      console.log(`[Timeline] Loaded ${timelineEvents.length} events`);
+      return true;
     } catch (err) {
       console.error('[Timeline] Failed to fetch events:', err);
+      return false;
     } finally {
       setLoadingEvents(false);
     }
   };
 
-  // Handle timeline scroll to switch between live and recordings
-  const handleTimelineScroll = useCallback(
-    (event: any) => {
-      const scrollY = event.nativeEvent.contentOffset.y;
-      
-      // Clear existing timeout
-      if (scrollTimeoutRef.current) {
-        clearTimeout(scrollTimeoutRef.current);
+  // Recorded spans and motion for a stretch of the timeline (MILLISECONDS)
+  const fetchRecordings = async (after: number, before: number): Promise<boolean> => {
+    try {
+      const segments = await frigateRecordingsApi.getRecordingSegments(cameraName, after, before);
+      recordingsRef.current = mergeTimelineItems(recordingsRef.current, segments, segment => segment.id);
+      setRecordings(recordingsRef.current);
+      return true;
+    } catch (err) {
+      // The timeline still works without coverage, just without snapping
+      console.error('[Timeline] Failed to fetch recordings:', err);
+      return false;
+    }
+  };
+
+  // Motion / audio levels for the activity heatmap, at the finest zoom's interval.
+  // Left null on servers without the activity API (before 0.14).
+  const fetchActivity = async (after: number, before: number): Promise<boolean> => {
+    const query = {
+      cameras: [cameraName],
+      after: after / 1000,
+      before: before / 1000,
+      scale: ACTIVITY_SCALE_SECONDS,
+    };
+    const [motion, audio] = await Promise.allSettled([
+      frigateReviewApi.getMotionActivity(query),
+      frigateReviewApi.getAudioActivity(query),
+    ]);
+    if (motion.status === 'fulfilled') {
+      setMotionActivity(prev => mergeTimelineItems(prev ?? [], motion.value, sample => sample.start_time));
+    }
+    if (audio.status === 'fulfilled') {
+      setAudioActivity(prev => mergeTimelineItems(prev ?? [], audio.value, sample => sample.start_time));
+    }
+    return true;
+  };
+
+  // Preview clips for scrubbing - optional (previews can be disabled), so never fail a chunk
+  const fetchPreviewClips = async (after: number, before: number) => {
+    try {
+      const clips = await frigateRecordingsApi.getPreviewClips(cameraName, after, before);
+      setPreviewClips(prev => mergeTimelineItems(prev, clips, clip => clip.src));
+    } catch (err) {
+      console.error('[Timeline] Failed to fetch preview clips:', err);
+    }
+  };
+
+  const fetchPreviewFrames = async () => {
+    const now = Date.now();
+    if (now - previewFramesFetchedRef.current < PREVIEW_FRAMES_REFRESH_MS) return;
+    previewFramesFetchedRef.current = now;
+    try {
+      setPreviewFrames(await frigateRecordingsApi.getPreviewFrames(cameraName, now - PREVIEW_FRAMES_LOOKBACK_MS, now));
+    } catch (err) {
+      console.error('[Timeline] Failed to fetch preview frames:', err);
+    }
+  };
+
+  // Load whichever timeline chunks overlapping [from, to] haven't been fetched yet
+  const loadTimelineRange = async (from: number, to: number) => {
+    const chunks = getMissingChunks(requestedChunksRef.current, from, Math.min(to, Date.now()));
+
+    for (const chunk of chunks) {
+      requestedChunksRef.current.add(chunk);
+      const before = Math.min(chunk + TIMELINE_CHUNK_MS, Date.now());
+      const [results] = await Promise.all([
+        Promise.all([
+          fetchEvents(chunk, before),
+          fetchRecordings(chunk, before),
+          fetchActivity(chunk, before),
+        ]),
+        fetchPreviewClips(chunk, before),
+      ]);
+
+      if (results.every(Boolean)) {
+        loadedChunksRef.current.add(chunk);
+      } else {
+        // Try again next time this part of the timeline comes into view
+        requestedChunksRef.current.delete(chunk);
       }
-      
-      setIsScrolling(true);
-      
-      // Debounce to avoid too many switches
-      scrollTimeoutRef.current = setTimeout(() => {
-        setIsScrolling(false);
-        
-        // If scrolled to top (within 50px), go LIVE
-        if (scrollY < 50) {
-          handleGoLive();
-        } else {
-          // Calculate timestamp based on scroll position
-          const now = Date.now();
-          const oneHourAgo = now - 60 * 60 * 1000;
-          const maxScroll = 600; // Assume 600px for 1 hour
-          const ratio = Math.min(scrollY / maxScroll, 1);
-          const timestamp = now - (ratio * (60 * 60 * 1000));
-          
-          handleTimeSelect(timestamp);
-        }
-      }, 300);
-    },
-    []
-  );
+    }
+  };
+
+  // Keep a chunk of headroom below what's on screen so scrolling back never runs out
+  const handleVisibleRangeChange = (oldest: number, newest: number) => {
+    setTimelineStart(prev => Math.min(prev, getChunkStart(oldest) - TIMELINE_CHUNK_MS));
+    loadTimelineRange(oldest, newest);
+  };
+
+  // While the timeline is dragged: previews only, the recording loads once it settles
+  const handleScrub = (timestamp: number | 'LIVE') => {
+    if (timestamp === 'LIVE') {
+      setScrubTime(null);
+      return;
+    }
+    setScrubTime(timestamp);
+    if (timestamp >= Date.now() - PREVIEW_FRAMES_LOOKBACK_MS) {
+      fetchPreviewFrames();
+    }
+  };
 
   // Handle timeline selection
-  const handleTimeSelect = async (timestamp: number | 'LIVE') => {
+  const handleTimeSelect = async (selected: number | 'LIVE') => {
+    let timestamp = selected;
+
+    // A clip over a gap fails to load - move onto the nearest footage instead
+    if (timestamp !== 'LIVE' && loadedChunksRef.current.has(getChunkStart(timestamp))) {
+      const nearest = findNearestFootage(buildRecordingSpans(recordingsRef.current), timestamp / 1000);
+      if (nearest !== null && Math.abs(nearest * 1000 - timestamp) >= 1000) {
+        console.log('[Timeline] No footage at', new Date(timestamp).toLocaleTimeString(), '- snapping to', new Date(nearest * 1000).toLocaleTimeString());
+        timestamp = nearest * 1000;
+      }
+    }
+
+    // Snapping makes repeated scrubs into the same gap land on the same clip
+    if (timestamp !== 'LIVE' && recordingRangeRef.current?.start === Math.floor(timestamp / 1000) && playbackMode === 'timeline') {
+      setScrubTime(null);
+      return;
+    }
+
     console.log('[Timeline] Selected:', timestamp);
     setSelectedTime(timestamp);
 
     if (timestamp === 'LIVE') {
       // Switch back to live WebRTC
+      setScrubTime(null);
       setPlaybackMode('live');
       setRecordingUrl(null);
       setRecordingReady(false);
@@ -350,12 +696,22 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
         loadRecordingSegment(startTime, endTime);
       } catch (err) {
         console.error('[Timeline] Failed to load recording:', err);
-        setError('Failed to load recording');
+        setPlaybackError('Failed to load recording');
         setBuffering(false);
+        setScrubTime(null);
       }
     }
   };
 
+  // Jump anywhere in history (calendar, or an event opened from elsewhere)
+  const handleJumpTo = async (timestamp: number) => {
+    setShowCalendar(false);
+    setTimelineStart(prev => Math.min(prev, getChunkStart(timestamp) - TIMELINE_CHUNK_MS));
+    // Load the hour after the target first, so the jump can snap onto footage
+    await loadTimelineRange(timestamp, timestamp + 60 * 60 * 1000);
+    handleTimeSelect(timestamp);
+  };
+
   // Load a recording segment
   const loadRecordingSegment = (startTime: number, endTime: number) => {
     const url = frigateRecordingsApi.getRecordingUrl(cameraName, startTime, endTime);
@@ -365,10 +721,41 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
     console.log('[Timeline] Duration:', durationMinutes, 'minutes');
     
     setRecordingEndTime(endTime); // Track where this clip ends
+    recordingRangeRef.current = { start: startTime, end: endTime };
     setRecordingUrl(url);
     setRecordingReady(false);
+    setPlaybackPaused(false);
+    setPlaybackPosition(startTime * 1000);
   };
 
+  // Move playback to a time (SECONDS) - seeks within the loaded clip, otherwise loads a new one
+  const seekPlayback = (target: number) => {
+    if (target >= Date.now() / 1000 - 10) {
+      handleGoLive();
+      return;
+    }
+
+    const range = recordingRangeRef.current;
+    if (range && target >= range.start && target < range.end) {
+      videoRef.current?.seek(target - range.start);
+      setPlaybackPosition(target * 1000);
+      setSelectedTime(target * 1000);
+    } else {
+      handleTimeSelect(target * 1000);
+    }
+  };
+
+  const getPlaybackSeconds = () =>
+    (playbackPosition ?? (selectedTime === 'LIVE' ? Date.now() : selectedTime)) / 1000;
+
+  const handleSkip = (seconds: number) => seekPlayback(getPlaybackSeconds() + seconds);
+
+  const handleStepFrame = (direction: 1 | -1) =>
+    seekPlayback(getPlaybackSeconds() + direction * FRAME_STEP_SECONDS);
+
+  const previousEvent = playbackPosition !== null ? findAdjacentEvent(events, playbackPosition / 1000, -1) : null;
+  const nextEvent = playbackPosition !== null ? findAdjacentEvent(events, playbackPosition / 1000, 1) : null;
+
   // Handle when recording segment ends - load next segment or go live
   const handleRecordingEnd = () => {
     const nowSeconds = Math.floor(Date.now() / 1000);
@@ -390,44 +777,11 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
 
   const handleGoLive = () => {
     handleTimeSelect('LIVE');
-    // Scroll to top
-    scrollViewRef.current?.scrollTo({ y: 0, animated: true });
   };
 
   const handleRetry = () => {
-    webrtcConnection.current?.disconnect();
-    initializeWebRTC();
-  };
-
-  // Generate time markers for timeline
-  const generateTimeMarkers = () => {
-    const markers: { time: number; label: string }[] = [];
-    const now = Date.now();
-    const oneHourAgo = now - 60 * 60 * 1000;
-    const interval = 5 * 60 * 1000; // 5 minutes
-    
-    for (let time = now; time >= oneHourAgo; time -= interval) {
-      markers.push({
-        time,
-        label: format(time, 'HH:mm'),
-      });
-    }
-    
-    return markers;
-  };
-
-  const timeMarkers = generateTimeMarkers();
-
-  // Get emoji for event type
-  const getEventEmoji = (label: string): string => {
-    const lowerLabel = label.toLowerCase();
-    if (lowerLabel.includes('person')) return '🚶';
-    if (lowerLabel.includes('car')) return '🚗';
-    if (lowerLabel.includes('dog')) return '🐕';
-    if (lowerLabel.includes('cat')) return '🐈';
-    if (lowerLabel.includes('bird')) return '🐦';
-    if (lowerLabel.includes('package')) return '📦';
-    return '🔴';
+    setPlaybackError(null);
+    streamSession.retry();
   };
 
   // Determine which player to show
@@ -480,6 +834,47 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
         {error && (
           <IconButton icon="refresh" onPress={handleRetry} />
         )}
+        {ptzInfo && (
+          <Appbar.Action
+            icon={showPtz ? 'gamepad-variant' : 'gamepad-variant-outline'}
+            onPress={() => setShowPtz(prev => !prev)}
+          />
+        )}
+        {streamType === 'webrtc' && remoteStream && (
+          <Appbar.Action
+            icon={showTalkback ? 'microphone' : 'microphone-outline'}
+            onPress={() => {
+              if (showTalkback) webrtcConnection.current?.setTalking(false);
+              setShowTalkback(prev => !prev);
+            }}
+          />
+        )}
+        {cameraStreams?.low && (
+          <Menu
+            visible={showQualityMenu}
+            onDismiss={() => setShowQualityMenu(false)}
+            anchor={
+              <Appbar.Action
+                icon={quality === 'auto' ? 'quality-medium' : quality === 'high' ? 'quality-high' : 'quality-low'}
+                onPress={() => setShowQualityMenu(true)}
+              />
+            }
+          >
+            {(Object.keys(STREAM_QUALITY_LABELS) as StreamQuality[]).map(option => (
+              <Menu.Item
+                key={option}
+                title={STREAM_QUALITY_LABELS[option]}
+                leadingIcon={option === quality ? 'check' : undefined}
+                onPress={() => handleQualityChange(option)}
+              />
+            ))}
+          </Menu>
+        )}
+        <Appbar.Action
+          icon={showStats ? 'chart-box' : 'chart-box-outline'}
+          onPress={() => setShowStats(prev => !prev)}
+        />
+        <Appbar.Action icon="tune-variant" onPress={() => setShowSettings(true)} />
       </Appbar.Header>
 
       {/* Video Player Area (16:9) */}
@@ -489,9 +884,11 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
             <ActivityIndicator size="large" color={theme.colors.primary} />
             <Text style={styles.loadingText}>Connecting to camera...</Text>
             <Text style={styles.loadingSubtext}>
-              {connectionState === 'new' && 'Initializing WebRTC...'}
-              {connectionState === 'connecting' && 'Establishing connection...'}
-              {connectionState === 'checking' && 'Checking ICE candidates...'}
+              {stream.phase === 'negotiating' && 'Choosing stream type...'}
+              {stream.phase === 'backoff' && `Retrying (${stream.round} of ${MAX_RETRY_ROUNDS})...`}
+              {stream.phase === 'connecting' && connectionState === 'new' && `Initializing ${streamType?.toUpperCase()}...`}
+              {stream.phase === 'connecting' && connectionState === 'connecting' && 'Establishing connection...'}
+              {stream.phase === 'connecting' && connectionState === 'checking' && 'Checking ICE candidates...'}
             </Text>
           </View>
         )}
@@ -521,7 +918,7 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
           />
         )}
         
-        {/* Live MSE Stream (fMP4 proxy - best for H265) */}
+        {/* Live MSE Stream (fMP4 proxy - H265, or H264 when WebRTC can't get through) */}
         {streamType === 'mse' && mseUrl && showLiveStream && (
           <Video
             source={{ uri: mseUrl }}
@@ -529,6 +926,7 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
             resizeMode="cover"
             controls={false}
             paused={false}
+            muted={audioMuted}
             repeat={false}
             bufferConfig={{
               minBufferMs: 500,
@@ -536,22 +934,28 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
               bufferForPlaybackMs: 250,
               bufferForPlaybackAfterRebufferMs: 500,
             }}
+            onLoad={({ naturalSize }) => {
+              playerStats.current = { ...playerStats.current, width: naturalSize.width, height: naturalSize.height };
+            }}
+            onProgress={({ currentTime, playableDuration }) => {
+              playerStats.current = { ...playerStats.current, bufferSeconds: Math.max(playableDuration - currentTime, 0) };
+            }}
             onReadyForDisplay={() => {
               console.log('[MSE] Ready for display');
-              setLoading(false);
+              setConnectionState('mse');
+              streamSession.reportPlaying(stream.attempt);
             }}
             onBuffer={({ isBuffering }) => {
               console.log('[MSE] Buffering:', isBuffering);
             }}
             onError={(error) => {
               console.error('[MSE] Playback error:', error);
-              // Fall back to HLS if MSE playback fails
-              fallbackToHLS();
+              streamSession.reportFailure(stream.attempt, 'MSE playback failed');
             }}
           />
         )}
 
-        {/* Live HLS Stream (last resort fallback for H265 cameras) */}
+        {/* Live HLS Stream (last resort fallback) */}
         {streamType === 'hls' && hlsUrl && showLiveStream && (
           <Video
             source={{ 
@@ -562,17 +966,29 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
             resizeMode="cover"
             controls={false}
             paused={false}
+            muted={audioMuted}
             repeat={true}
+            reportBandwidth
+            onLoad={({ naturalSize }) => {
+              playerStats.current = { ...playerStats.current, width: naturalSize.width, height: naturalSize.height };
+            }}
+            onProgress={({ currentTime, playableDuration }) => {
+              playerStats.current = { ...playerStats.current, bufferSeconds: Math.max(playableDuration - currentTime, 0) };
+            }}
+            onBandwidthUpdate={({ bitrate }) => {
+              playerStats.current = { ...playerStats.current, bitrate };
+            }}
             onReadyForDisplay={() => {
               console.log('[HLS] Ready for display');
-              setLoading(false);
+              setConnectionState('hls');
+              streamSession.reportPlaying(stream.attempt);
             }}
             onBuffer={({ isBuffering }) => {
               console.log('[HLS] Buffering:', isBuffering);
             }}
             onError={(error) => {
               console.error('[HLS] Playback error:', error);
-              setError('HLS stream failed');
+              streamSession.reportFailure(stream.attempt, 'HLS stream failed');
             }}
           />
         )}
@@ -589,13 +1005,17 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
               },
             ]}
             resizeMode="cover"
-            controls={true}
-            paused={false}
+            controls={false}
+            paused={playbackPaused}
+            rate={playbackRate}
             repeat={false}
+            progressUpdateInterval={1000}
             onReadyForDisplay={() => {
               console.log('[Recording] Ready for display, URL:', recordingUrl.substring(0, 80));
               setRecordingReady(true);
+              setPlaybackError(null);
               setBuffering(false);
+              setScrubTime(null);
             }}
             onBuffer={({ isBuffering }) => {
               console.log('[Recording] Buffering:', isBuffering);
@@ -606,6 +1026,11 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
               if (Math.floor(currentTime) % 5 === 0) {
                 console.log('[Recording] Progress:', Math.floor(currentTime), 'seconds');
               }
+              // Keep the timeline cursor on the frame being shown
+              const range = recordingRangeRef.current;
+              if (range) {
+                setPlaybackPosition((range.start + currentTime) * 1000);
+              }
             }}
             onEnd={() => {
               // Recording segment ended - load next or go live
@@ -614,14 +1039,54 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
             }}
             onError={(error) => {
               console.error('[Recording] Playback error:', error);
-              setError('Failed to play recording');
+              setPlaybackError('Failed to play recording');
               setBuffering(false);
+              setScrubTime(null);
               // Fall back to live
               handleGoLive();
             }}
           />
         )}
 
+        {/* Scrub preview - low-res frames while the timeline is dragged */}
+        {scrubTime !== null && (
+          <ScrubPreviewOverlay time={scrubTime} source={scrubPreview} />
+        )}
+
+        {/* PTZ controls (live view only - recordings can't be steered) */}
+        {ptzInfo && showPtz && playbackMode === 'live' && (
+          <PtzControls
+            cameraName={cameraName}
+            info={ptzInfo}
+            autotrackingAvailable={autotrackingAvailable}
+          />
+        )}
+
+        {/* Live audio mute + level meter */}
+        {playbackMode === 'live' && !loading && !error && (
+          <AudioControl
+            cameraName={cameraName}
+            muted={audioMuted}
+            hasAudio={hasAudio}
+            onToggleMute={handleToggleMute}
+          />
+        )}
+
+        {/* Stats overlay */}
+        {showStats && playbackMode === 'live' && stream.phase === 'playing' && (
+          <StreamStatsOverlay stats={streamStats} streamName={streamSession.streamName} />
+        )}
+
+        {/* Push-to-talk (needs the WebRTC peer connection) */}
+        {showTalkback && streamType === 'webrtc' && playbackMode === 'live' && (
+          <TalkbackButton
+            state={talkbackState}
+            onEnable={handleEnableTalkback}
+            onTalkStart={() => webrtcConnection.current?.setTalking(true)}
+            onTalkEnd={() => webrtcConnection.current?.setTalking(false)}
+          />
+        )}
+
         {/* Buffering indicator overlay */}
         {buffering && playbackMode === 'timeline' && (
           <View style={styles.bufferingOverlay}>
@@ -631,30 +1096,54 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
         )}
       </View>
 
+      {/* Recording transport - speed, skips, frame step, event jumps */}
+      {playbackMode === 'timeline' && (
+        <PlaybackControls
+          position={playbackPosition}
+          paused={playbackPaused}
+          rate={playbackRate}
+          hasPreviousEvent={!!previousEvent}
+          hasNextEvent={!!nextEvent}
+          onTogglePause={() => setPlaybackPaused(prev => !prev)}
+          onSkip={handleSkip}
+          onStepFrame={handleStepFrame}
+          onRateChange={setPlaybackRate}
+          onPreviousEvent={() => previousEvent && handleTimeSelect(previousEvent.start_time * 1000)}
+          onNextEvent={() => nextEvent && handleTimeSelect(nextEvent.start_time * 1000)}
+        />
+      )}
+
       {/* Vertical Timeline Component */}
       <VerticalTimeline
         onTimeSelect={handleTimeSelect}
+        onScrub={handleScrub}
         events={events}
         currentTime={selectedTime}
-        timeRangeHours={1}
+        playbackTime={playbackMode === 'timeline' ? playbackPosition : null}
+        rangeStart={timelineStart}
+        recordings={recordings}
+        motionActivity={motionActivity}
+        audioActivity={audioActivity}
+        onVisibleRangeChange={handleVisibleRangeChange}
+        onOpenCalendar={() => setShowCalendar(true)}
       />
 
       {/* Info Banner */}
       {playbackMode === 'live' && streamType === 'webrtc' && remoteStream && (
         <Surface style={styles.infoBanner}>
-          <Text style={styles.infoText}>⚡ WebRTC • Ultra Low Latency</Text>
+          <Text style={styles.infoText}>⚡ WebRTC • Ultra Low Latency{isSubStream ? ' • Sub stream' : ''}</Text>
         </Surface>
       )}
 
       {playbackMode === 'live' && streamType === 'mse' && mseUrl && (
         <Surface style={styles.infoBanner}>
-          <Text style={styles.infoText}>🚀 MSE Proxy • H265 Low Latency{mseCodec ? ` • ${mseCodec.split(';')[0]}` : ''}</Text>
+          <Text style={styles.infoText}>🚀 MSE Proxy • Low Latency{mseCodec ? ` • ${mseCodec.split(';')[0]}` : ''}{isSubStream ? ' • Sub stream' : ''}</Text>
         </Surface>
       )}
 
       {playbackMode === 'live' && streamType === 'hls' && hlsUrl && (
         <Surface style={styles.infoBanner}>
-          <Text style={styles.infoText}>📺 HLS • H265 (Higher Latency)</Text>
+          <Text style={styles.infoText}>📺 HLS • Higher Latency{isSubStream ? ' • Sub stream' : ''}</Text>
         </Surface>
       )}
 
@@ -663,6 +1152,20 @@ export const CameraLiveScreenWebRTC = ({ route, navigation }: any) => {
           <Text style={styles.infoText}>📹 Playback • Scroll to top for LIVE</Text>
         </Surface>
       )}
+
+      <CameraSettingsSheet
+        visible={showSettings}
+        cameraName={cameraName}
+        onDismiss={() => setShowSettings(false)}
+      />
+
+      <RecordingCalendarSheet
+        visible={showCalendar}
+        cameraName={cameraName}
+        currentTime={selectedTime === 'LIVE' ? null : playbackPosition ?? selectedTime}
+        onSelect={handleJumpTo}
+        onDismiss={() => setShowCalendar(false)}
+      />
     </SafeAreaView>
   );
 };
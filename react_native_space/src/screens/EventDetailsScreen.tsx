@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -6,21 +6,33 @@ import {
   Image,
   Platform,
   StatusBar,
+  Alert,
 } from 'react-native';
 import { Text, Button, ActivityIndicator, IconButton, useTheme } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Video, { VideoRef } from 'react-native-video';
-import { frigateApi, Event } from '../services/frigateApi';
+import { frigateApi, Event, mergeEventChanges } from '../services/frigateApi';
+import { useAuth } from '../context/AuthContext';
+import { TextInputDialog } from '../components/TextInputDialog';
 
 export const EventDetailsScreen = ({ route, navigation }: any) => {
   const theme = useTheme();
   const styles = createStyles(theme);
   const { eventId } = route.params;
+  // Bumped on token refresh so the thumbnail URL carries the new token
+  const { tokenVersion } = useAuth();
   const [event, setEvent] = useState<Event | null>(null);
   const [loading, setLoading] = useState(true);
   const [showVideo, setShowVideo] = useState(false);
   const [videoLoading, setVideoLoading] = useState(false);
+  // Captured when playback starts so a token refresh doesn't restart the clip
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
+  const [editing, setEditing] = useState<'subLabel' | 'description' | null>(null);
   const videoRef = useRef<VideoRef>(null);
+  const thumbnailUrl = useMemo(
+    () => (event ? frigateApi.getEventThumbnailUrl(event.id) : null),
+    [event?.id, tokenVersion]
+  );
 
   useEffect(() => {
     loadEvent();
@@ -39,11 +51,88 @@ export const EventDetailsScreen = ({ route, navigation }: any) => {
 
   const handleViewClip = () => {
     if (event) {
+      setClipUrl(frigateApi.getEventClipUrl(event.id));
       setShowVideo(true);
       setVideoLoading(true);
     }
   };
 
+  /**
+   * Show a change immediately and roll it back if Frigate rejects it
+   */
+  const updateEvent = async (
+    changes: Partial<Event>,
+    request: () => Promise<void>,
+    errorMessage: string
+  ) => {
+    if (!event) return;
+    const previous = event;
+    setEvent(mergeEventChanges(event, changes));
+
+    try {
+      await request();
+    } catch (err) {
+      console.error('[EventDetails] Update failed:', err);
+      setEvent(previous);
+      Alert.alert('Error', errorMessage);
+    }
+  };
+
+  const handleToggleRetain = () => {
+    if (!event) return;
+    const retain = !event.retain_indefinitely;
+    updateEvent(
+      { retain_indefinitely: retain },
+      () => frigateApi.setEventRetained(event.id, retain),
+      retain ? 'Could not add event to favorites.' : 'Could not remove event from favorites.'
+    );
+  };
+
+  const handleSaveSubLabel = (value: string) => {
+    setEditing(null);
+    if (!event) return;
+    const subLabel = value || null;
+    updateEvent(
+      { sub_label: subLabel },
+      () => frigateApi.setEventSubLabel(event.id, subLabel),
+      'Could not update the sub-label.'
+    );
+  };
+
+  const handleSaveDescription = (value: string) => {
+    setEditing(null);
+    if (!event) return;
+    updateEvent(
+      { data: { description: value } },
+      () => frigateApi.setEventDescription(event.id, value),
+      'Could not update the description.'
+    );
+  };
+
+  const handleDelete = () => {
+    if (!event) return;
+    Alert.alert(
+      'Delete Event',
+      'This permanently deletes the event, its snapshot and its clip.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await frigateApi.deleteEvent(event.id);
+              navigation.goBack();
+            } catch (err) {
+              console.error('[EventDetails] Delete failed:', err);
+              Alert.alert('Error', 'Could not delete the event.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleGoToLive = () => {
     if (event) {
       navigation.navigate('CameraLive', { cameraName: event.camera });
@@ -74,8 +163,6 @@ export const EventDetailsScreen = ({ route, navigation }: any) => {
     );
   }
 
-  const clipUrl = frigateApi.getEventClipUrl(event.id);
-
   return (
     <SafeAreaView style={styles.container} edges={['top', 'left', 'right', 'bottom']}>
       <StatusBar barStyle={theme.dark ? 'light-content' : 'dark-content'} backgroundColor={theme.colors.surface} />
@@ -89,12 +176,17 @@ export const EventDetailsScreen = ({ route, navigation }: any) => {
         <Text variant="titleLarge" style={styles.title}>
           Event Details
         </Text>
-        <View style={styles.placeholder} />
+        <IconButton
+          icon={event.retain_indefinitely ? 'star' : 'star-outline'}
+          size={24}
+          iconColor={event.retain_indefinitely ? '#FFC107' : theme.colors.onSurface}
+          onPress={handleToggleRetain}
+        />
       </View>
 
       <ScrollView contentContainerStyle={styles.scrollContent}>
         {/* Video Player or Thumbnail */}
-        {showVideo ? (
+        {showVideo && clipUrl ? (
           <View style={styles.videoContainer}>
             <Video
               ref={videoRef}
@@ -124,7 +216,7 @@ export const EventDetailsScreen = ({ route, navigation }: any) => {
           </View>
         ) : (
           <Image
-            source={{ uri: frigateApi.getEventThumbnailUrl(event.id) }}
+            source={{ uri: thumbnailUrl ?? undefined }}
             style={styles.thumbnail}
             resizeMode="contain"
           />
@@ -149,6 +241,17 @@ export const EventDetailsScreen = ({ route, navigation }: any) => {
             </Text>
           </View>
 
+          {event.sub_label && (
+            <View style={styles.detailRow}>
+              <Text variant="labelLarge" style={styles.label}>
+                Sub-label
+              </Text>
+              <Text variant="bodyLarge" style={styles.value}>
+                {event.sub_label}
+              </Text>
+            </View>
+          )}
+
           <View style={styles.detailRow}>
             <Text variant="labelLarge" style={styles.label}>
               Start Time
@@ -168,6 +271,17 @@ export const EventDetailsScreen = ({ route, navigation }: any) => {
               </Text>
             </View>
           )}
+
+          {!!event.data?.description && (
+            <View style={styles.descriptionRow}>
+              <Text variant="labelLarge" style={styles.label}>
+                Description
+              </Text>
+              <Text variant="bodyMedium" style={styles.description}>
+                {event.data.description}
+              </Text>
+            </View>
+          )}
         </View>
 
         <View style={styles.actions}>
@@ -189,8 +303,52 @@ export const EventDetailsScreen = ({ route, navigation }: any) => {
           >
             Go to Live View
           </Button>
+          <View style={styles.editActions}>
+            <Button
+              mode="outlined"
+              onPress={() => setEditing('subLabel')}
+              style={styles.editButton}
+              icon="tag-outline"
+            >
+              Sub-label
+            </Button>
+            <Button
+              mode="outlined"
+              onPress={() => setEditing('description')}
+              style={styles.editButton}
+              icon="text"
+            >
+              Description
+            </Button>
+          </View>
+          <Button
+            mode="text"
+            onPress={handleDelete}
+            textColor={theme.colors.error}
+            icon="delete-outline"
+          >
+            Delete Event
+          </Button>
         </View>
       </ScrollView>
+
+      <TextInputDialog
+        visible={editing === 'subLabel'}
+        title="Sub-label"
+        label="Name (leave empty to clear)"
+        initialValue={event.sub_label ?? ''}
+        onSubmit={handleSaveSubLabel}
+        onDismiss={() => setEditing(null)}
+      />
+      <TextInputDialog
+        visible={editing === 'description'}
+        title="Description"
+        label="Description"
+        initialValue={event.data?.description ?? ''}
+        multiline
+        onSubmit={handleSaveDescription}
+        onDismiss={() => setEditing(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -219,9 +377,6 @@ const createStyles = (theme: any) => StyleSheet.create({
     flex: 1,
     textAlign: 'center',
   },
-  placeholder: {
-    width: 48,
-  },
   scrollContent: {
     padding: 16,
   },
@@ -275,6 +430,13 @@ const createStyles = (theme: any) => StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: theme.colors.outlineVariant,
   },
+  descriptionRow: {
+    paddingVertical: 12,
+    gap: 6,
+  },
+  description: {
+    color: theme.colors.onSurface,
+  },
   label: {
     color: theme.colors.onSurfaceVariant,
   },
@@ -288,6 +450,14 @@ const createStyles = (theme: any) => StyleSheet.create({
   button: {
     marginBottom: 8,
   },
+  editActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 8,
+  },
+  editButton: {
+    flex: 1,
+  },
   loadingText: {
     marginTop: 16,
     color: theme.colors.onSurfaceVariant,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   StyleSheet,
@@ -7,36 +7,397 @@ import {
   Image,
   Pressable,
   StatusBar,
+  Alert,
+  ScrollView,
 } from 'react-native';
-import { Text, ActivityIndicator, Chip, Appbar, useTheme } from 'react-native-paper';
-import { frigateApi, Event } from '../services/frigateApi';
+import { Text, ActivityIndicator, Chip, Appbar, SegmentedButtons, useTheme } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import {
+  frigateReviewApi,
+  ReviewSegment,
+  ReviewSeverity,
+  ReviewSummary,
+} from '../services/frigateReviewApi';
+import { frigateApi, Event, mergeEventChanges } from '../services/frigateApi';
+import { frigateWebSocket, frigateEventToEvent } from '../services/frigateWebSocket';
+import {
+  EventFilters,
+  DEFAULT_EVENT_FILTERS,
+  loadEventFilters,
+  saveEventFilters,
+  toEventQuery,
+  toReviewQuery,
+  reviewMatchesFilters,
+  eventMatchesFilters,
+  matchesNoCameras,
+  getActiveFilterChips,
+} from '../services/eventFilters';
+import { PAGE_SIZE, appendPage, getPageCursor } from '../services/eventPaging';
+import { EventFilterSheet } from '../components/EventFilterSheet';
+import { cameraGroups, CameraGroup, toCameraGroupMap } from '../services/cameraGroups';
+import { TextInputDialog } from '../components/TextInputDialog';
+import { useAuth } from '../context/AuthContext';
+
+// Alerts and detections are review items; 'events' is every tracked object
+type EventsView = ReviewSeverity | 'events';
+
+const SEVERITY_COLORS: Record<ReviewSeverity, string> = {
+  alert: '#F44336',
+  detection: '#FF9800',
+};
 
 export const EventsScreen = ({ navigation }: any) => {
   const theme = useTheme();
   const styles = createStyles(theme);
+  const { tokenVersion, activeServer } = useAuth();
+  const [view, setView] = useState<EventsView>('alert');
+  const [reviews, setReviews] = useState<ReviewSegment[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
+  const [filters, setFilters] = useState<EventFilters | null>(null);
+  const [groups, setGroups] = useState<CameraGroup[]>([]);
+  const [showFilterSheet, setShowFilterSheet] = useState(false);
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showSubLabelDialog, setShowSubLabelDialog] = useState(false);
+  // Bumped by every fresh load, so late pages from older requests are ignored
+  const requestGenerationRef = useRef(0);
 
-  const loadEvents = useCallback(async () => {
+  const selecting = selectedIds.size > 0;
+
+  const groupMap = useMemo(() => toCameraGroupMap(groups), [groups]);
+  const groupNames = useMemo(() => Object.fromEntries(groups.map(group => [group.id, group.name])), [groups]);
+
+  // Filters are saved per server, so reload them when it changes. Groups are
+  // loaded first so a group filter never runs as "all cameras".
+  useEffect(() => {
+    setFilters(null);
+    const load = async () => {
+      const [stored, loadedGroups] = await Promise.all([loadEventFilters(), cameraGroups.fetchGroups()]);
+      setGroups(loadedGroups);
+      setFilters(stored);
+    };
+    load();
+    return cameraGroups.onChange(() => setGroups(cameraGroups.getGroups()));
+  }, [activeServer?.id]);
+
+  const loadSummary = useCallback(async () => {
+    if (!filters) return;
+    if (matchesNoCameras(filters, groupMap)) {
+      setSummary(null);
+      return;
+    }
     try {
-      const eventList = await frigateApi.getEvents({ limit: 50 });
-      setEvents(eventList);
+      setSummary(await frigateReviewApi.getReviewSummary(toReviewQuery(filters, groupMap).cameras));
+    } catch (err: any) {
+      // Counts are a nice-to-have - the list still works without them
+    }
+  }, [filters, groupMap]);
+
+  const loadItems = useCallback(async () => {
+    // Pages still in flight for the previous tab or filters are dropped on arrival
+    const generation = ++requestGenerationRef.current;
+    if (!filters) return;
+    const isCurrent = () => generation === requestGenerationRef.current;
+    try {
+      // Only deleted groups picked - an empty camera list would fetch everything
+      if (matchesNoCameras(filters, groupMap)) {
+        setEvents([]);
+        setReviews([]);
+        setHasMore(false);
+      } else if (view === 'events') {
+        const page = await frigateApi.getEvents({ ...toEventQuery(filters, groupMap), limit: PAGE_SIZE });
+        if (!isCurrent()) return;
+        setEvents(page);
+        setHasMore(page.length >= PAGE_SIZE);
+      } else {
+        const page = await frigateReviewApi.getReviews({ ...toReviewQuery(filters, groupMap), severity: view, limit: PAGE_SIZE });
+        if (!isCurrent()) return;
+        setReviews(page);
+        setHasMore(page.length >= PAGE_SIZE);
+      }
     } catch (err: any) {
       console.error('Failed to load events:', err);
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      if (isCurrent()) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
-  }, []);
+  }, [view, filters, groupMap]);
+
+  // Reload when the tab or the filters change
+  useEffect(() => {
+    setLoading(true);
+    setSelectedIds(new Set());
+    loadItems();
+    loadSummary();
+  }, [loadItems, loadSummary]);
+
+  /**
+   * Fetch the next (older) page, using the oldest loaded item as the cursor
+   */
+  const loadMore = async () => {
+    if (!filters || loading || loadingMore || !hasMore) return;
+
+    const oldest = view === 'events' ? events[events.length - 1] : reviews[reviews.length - 1];
+    if (!oldest) return;
+
+    const generation = requestGenerationRef.current;
+    setLoadingMore(true);
+    try {
+      if (view === 'events') {
+        const page = await frigateApi.getEvents({
+          ...toEventQuery(filters, groupMap),
+          before: getPageCursor(oldest.start_time),
+          limit: PAGE_SIZE,
+        });
+        if (generation !== requestGenerationRef.current) return;
+        setEvents(prev => appendOlderPage(prev, page));
+      } else {
+        const page = await frigateReviewApi.getReviews({
+          ...toReviewQuery(filters, groupMap),
+          severity: view,
+          before: getPageCursor(oldest.start_time),
+          limit: PAGE_SIZE,
+        });
+        if (generation !== requestGenerationRef.current) return;
+        setReviews(prev => appendOlderPage(prev, page));
+      }
+    } catch (err: any) {
+      console.error('Failed to load more events:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // hasMore comes from the list the page actually lands on
+  const appendOlderPage = <T extends { id: string }>(existing: T[], page: T[]): T[] => {
+    const appended = appendPage(existing, page);
+    setHasMore(appended.hasMore);
+    return appended.items;
+  };
+
+  const applyFilters = (nextFilters: EventFilters) => {
+    setShowFilterSheet(false);
+    setFilters(nextFilters);
+    saveEventFilters(nextFilters);
+  };
+
+  // Live review updates - new items go on top, updates replace in place
+  useEffect(() => {
+    return frigateWebSocket.onReview(({ type, after }) => {
+      if (after.severity !== view || !filters || !reviewMatchesFilters(after, filters, groupMap)) return;
+
+      setReviews(prev => {
+        const index = prev.findIndex(review => review.id === after.id);
+        if (index === -1) {
+          return type === 'new' ? [after, ...prev] : prev;
+        }
+        const updated = [...prev];
+        updated[index] = after;
+        return updated;
+      });
+
+      if (type === 'new') {
+        loadSummary();
+      }
+    });
+  }, [view, filters, groupMap, loadSummary]);
+
+  // Live tracked objects - new ones go on top, updates replace in place
+  useEffect(() => {
+    if (view !== 'events') return;
+
+    return frigateWebSocket.onEvent((message) => {
+      const event = frigateEventToEvent(message.after);
+      if (!filters || !eventMatchesFilters(event, filters, groupMap)) return;
+
+      setEvents(prev => {
+        const index = prev.findIndex(existing => existing.id === event.id);
+        if (index === -1) {
+          return message.type === 'new' ? [event, ...prev] : prev;
+        }
+        const updated = [...prev];
+        // Keep fields the WebSocket doesn't carry (retain flag, description)
+        updated[index] = { ...prev[index], ...event, data: { ...prev[index].data, ...event.data } };
+        return updated;
+      });
+    });
+  }, [view, filters, groupMap]);
 
+  // Follow edits made elsewhere (e.g. on the event details screen)
   useEffect(() => {
-    loadEvents();
-  }, [loadEvents]);
+    return frigateApi.onEventUpdate((eventId, changes) => {
+      setEvents(prev => changes
+        ? prev.map(event => event.id === eventId ? mergeEventChanges(event, changes) : event)
+        : prev.filter(event => event.id !== eventId)
+      );
+    });
+  }, []);
 
   const handleRefresh = () => {
     setRefreshing(true);
-    loadEvents();
+    loadItems();
+    loadSummary();
+  };
+
+  /**
+   * Mark items reviewed optimistically, rolling back if Frigate rejects it
+   */
+  const markReviewed = async (ids: string[]) => {
+    const idSet = new Set(ids);
+    const previous = reviews;
+    setReviews(prev => prev.map(review =>
+      idSet.has(review.id) ? { ...review, has_been_reviewed: true } : review
+    ));
+
+    try {
+      await frigateReviewApi.markReviewed(ids);
+      loadSummary();
+    } catch (err: any) {
+      console.error('Failed to mark review items as reviewed:', err);
+      setReviews(previous);
+      Alert.alert('Error', 'Could not mark items as reviewed. Please try again.');
+    }
+  };
+
+  const handleMarkSelectedReviewed = () => {
+    markReviewed(Array.from(selectedIds));
+    setSelectedIds(new Set());
+  };
+
+  const handleMarkAllReviewed = () => {
+    const unreviewed = reviews.filter(review => !review.has_been_reviewed).map(review => review.id);
+    if (unreviewed.length === 0) return;
+
+    Alert.alert(
+      'Mark All as Reviewed',
+      `Mark ${unreviewed.length} ${view === 'alert' ? 'alert' : 'detection'}${unreviewed.length === 1 ? '' : 's'} as reviewed?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Mark Reviewed', onPress: () => markReviewed(unreviewed) },
+      ]
+    );
+  };
+
+  /**
+   * Apply a change to the selected events right away, then run the request
+   * per event and put back any Frigate rejected. changes=null means delete.
+   */
+  const bulkUpdateEvents = async (
+    changes: Partial<Event> | null,
+    request: (eventId: string) => Promise<void>,
+    errorMessage: string
+  ) => {
+    const ids = Array.from(selectedIds);
+    const idSet = new Set(ids);
+    const previous = events;
+
+    setSelectedIds(new Set());
+    setEvents(prev => changes
+      ? prev.map(event => idSet.has(event.id) ? mergeEventChanges(event, changes) : event)
+      : prev.filter(event => !idSet.has(event.id))
+    );
+
+    const results = await Promise.allSettled(ids.map(request));
+    const failed = new Set(ids.filter((_, index) => results[index].status === 'rejected'));
+    if (failed.size === 0) return;
+
+    setEvents(prev => {
+      if (changes) {
+        const previousById = new Map(previous.map(event => [event.id, event]));
+        return prev.map(event => failed.has(event.id) ? previousById.get(event.id) ?? event : event);
+      }
+      const restored = previous.filter(event => failed.has(event.id));
+      return [...prev, ...restored].sort((a, b) => b.start_time - a.start_time);
+    });
+    Alert.alert('Error', `${errorMessage} (${failed.size} of ${ids.length} failed)`);
+  };
+
+  const handleBulkRetain = () => {
+    // Favorite all unless every selected event already is one
+    const retain = !events
+      .filter(event => selectedIds.has(event.id))
+      .every(event => event.retain_indefinitely);
+    bulkUpdateEvents(
+      { retain_indefinitely: retain },
+      (eventId) => frigateApi.setEventRetained(eventId, retain),
+      retain ? 'Could not add events to favorites.' : 'Could not remove events from favorites.'
+    );
+  };
+
+  const handleBulkSubLabel = (value: string) => {
+    setShowSubLabelDialog(false);
+    const subLabel = value || null;
+    bulkUpdateEvents(
+      { sub_label: subLabel },
+      (eventId) => frigateApi.setEventSubLabel(eventId, subLabel),
+      'Could not update sub-labels.'
+    );
+  };
+
+  const handleBulkDelete = () => {
+    const count = selectedIds.size;
+    Alert.alert(
+      'Delete Events',
+      `Permanently delete ${count} event${count === 1 ? '' : 's'} with their snapshots and clips?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => bulkUpdateEvents(
+            null,
+            (eventId) => frigateApi.deleteEvent(eventId),
+            'Could not delete events.'
+          ),
+        },
+      ]
+    );
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleOpenReview = (review: ReviewSegment) => {
+    if (selecting) {
+      toggleSelected(review.id);
+      return;
+    }
+
+    if (!review.has_been_reviewed) {
+      markReviewed([review.id]);
+    }
+
+    // Review items wrap one or more tracked objects - open the first
+    const eventId = review.data.detections[0];
+    if (eventId) {
+      navigation.navigate('EventDetails', { eventId });
+    }
+  };
+
+  const viewName = () => {
+    switch (view) {
+      case 'alert':
+        return 'alerts';
+      case 'detection':
+        return 'detections';
+      default:
+        return 'events';
+    }
   };
 
   const formatTime = (timestamp: number) => {
@@ -44,76 +405,288 @@ export const EventsScreen = ({ navigation }: any) => {
     return date.toLocaleString();
   };
 
-  const renderEvent = ({ item }: { item: Event }) => (
-    <Pressable
-      style={styles.eventCard}
-      onPress={() => navigation.navigate('EventDetails', { eventId: item.id })}
-    >
-      <Image
-        source={{ uri: frigateApi.getEventThumbnailUrl(item.id) }}
-        style={styles.eventThumbnail}
-        resizeMode="cover"
-      />
-      <View style={styles.eventInfo}>
-        <View style={styles.eventHeader}>
-          <Text variant="titleMedium" style={styles.eventCamera}>
-            {item.camera}
+  const formatDuration = (review: ReviewSegment) => {
+    if (!review.end_time) return 'In progress';
+    const seconds = Math.max(Math.round(review.end_time - review.start_time), 1);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  };
+
+  const unreviewedCount = (kind: ReviewSeverity): number => {
+    if (!summary) return 0;
+    const counts = summary.last24Hours;
+    return kind === 'alert'
+      ? counts.total_alert - counts.reviewed_alert
+      : counts.total_detection - counts.reviewed_detection;
+  };
+
+  const segmentLabel = (kind: ReviewSeverity, label: string) => {
+    const count = unreviewedCount(kind);
+    return count > 0 ? `${label} (${count})` : label;
+  };
+
+  const renderReview = ({ item }: { item: ReviewSegment }) => {
+    const isSelected = selectedIds.has(item.id);
+    const labels = Array.from(new Set([...item.data.objects, ...item.data.sub_labels, ...item.data.audio]));
+
+    return (
+      <Pressable
+        style={[
+          styles.eventCard,
+          item.has_been_reviewed && styles.eventCardReviewed,
+          isSelected && styles.eventCardSelected,
+        ]}
+        onPress={() => handleOpenReview(item)}
+        onLongPress={() => toggleSelected(item.id)}
+      >
+        <View>
+          <Image
+            source={{ uri: frigateReviewApi.getThumbnailUrl(item) }}
+            style={styles.eventThumbnail}
+            resizeMode="cover"
+          />
+          {selecting && (
+            <View style={styles.selectionIndicator}>
+              <MaterialCommunityIcons
+                name={isSelected ? 'checkbox-marked-circle' : 'checkbox-blank-circle-outline'}
+                size={22}
+                color="#FFFFFF"
+              />
+            </View>
+          )}
+        </View>
+        <View style={styles.eventInfo}>
+          <View style={styles.eventHeader}>
+            {!item.has_been_reviewed && <View style={styles.unreviewedDot} />}
+            <Text variant="titleMedium" style={styles.eventCamera} numberOfLines={1}>
+              {item.camera.replace(/_/g, ' ')}
+            </Text>
+            <View style={[styles.severityBadge, { backgroundColor: SEVERITY_COLORS[item.severity] }]}>
+              <Text style={styles.severityBadgeText}>
+                {item.severity === 'alert' ? 'ALERT' : 'DETECTION'}
+              </Text>
+            </View>
+          </View>
+          <View style={styles.labelRow}>
+            {labels.slice(0, 3).map(label => (
+              <Chip key={label} mode="flat" compact textStyle={styles.chipText}>
+                {label}
+              </Chip>
+            ))}
+          </View>
+          <Text variant="bodySmall" style={styles.eventTime}>
+            {formatTime(item.start_time)} • {formatDuration(item)}
           </Text>
-          <Chip mode="flat" textStyle={styles.chipText}>
-            {item.label}
-          </Chip>
         </View>
-        <Text variant="bodySmall" style={styles.eventTime}>
-          {formatTime(item.start_time)}
-        </Text>
-      </View>
-    </Pressable>
-  );
+      </Pressable>
+    );
+  };
+
+  const renderEvent = ({ item }: { item: Event }) => {
+    const score = item.data?.top_score ?? item.top_score;
+    const isSelected = selectedIds.has(item.id);
 
-  if (loading) {
     return (
-      <View style={styles.container}>
-        <StatusBar barStyle={theme.dark ? 'light-content' : 'dark-content'} backgroundColor={theme.colors.surface} />
-        <Appbar.Header>
-          <Appbar.Content title="Events" />
-        </Appbar.Header>
-        <View style={styles.centerContainer}>
-          <ActivityIndicator size="large" />
-          <Text style={styles.loadingText}>Loading events...</Text>
+      <Pressable
+        style={[styles.eventCard, isSelected && styles.eventCardSelected]}
+        onPress={() => selecting
+          ? toggleSelected(item.id)
+          : navigation.navigate('EventDetails', { eventId: item.id })
+        }
+        onLongPress={() => toggleSelected(item.id)}
+      >
+        <View>
+          <Image
+            source={{ uri: frigateApi.getEventThumbnailUrl(item.id) }}
+            style={styles.eventThumbnail}
+            resizeMode="cover"
+          />
+          {selecting && (
+            <View style={styles.selectionIndicator}>
+              <MaterialCommunityIcons
+                name={isSelected ? 'checkbox-marked-circle' : 'checkbox-blank-circle-outline'}
+                size={22}
+                color="#FFFFFF"
+              />
+            </View>
+          )}
         </View>
-      </View>
+        <View style={styles.eventInfo}>
+          <View style={styles.eventHeader}>
+            <Text variant="titleMedium" style={styles.eventCamera} numberOfLines={1}>
+              {item.camera.replace(/_/g, ' ')}
+            </Text>
+            {item.retain_indefinitely && (
+              <MaterialCommunityIcons name="star" size={18} color="#FFC107" />
+            )}
+          </View>
+          <View style={styles.labelRow}>
+            <Chip mode="flat" compact textStyle={styles.chipText}>
+              {item.sub_label ? `${item.label}: ${item.sub_label}` : item.label}
+            </Chip>
+            {score != null && (
+              <Chip mode="outlined" compact textStyle={styles.chipText}>
+                {`${Math.round(score * 100)}%`}
+              </Chip>
+            )}
+          </View>
+          <Text variant="bodySmall" style={styles.eventTime}>
+            {formatTime(item.start_time)}
+          </Text>
+        </View>
+      </Pressable>
     );
-  }
+  };
+
+  const renderFilterChips = () => {
+    if (!filters) return null;
+    const chips = getActiveFilterChips(filters, groupNames);
+    if (chips.length === 0) return null;
 
-  if (events.length === 0) {
     return (
-      <View style={styles.container}>
-        <StatusBar barStyle={theme.dark ? 'light-content' : 'dark-content'} backgroundColor={theme.colors.surface} />
-        <Appbar.Header>
-          <Appbar.Content title="Events" />
-        </Appbar.Header>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterChips}
+        contentContainerStyle={styles.filterChipsContent}
+      >
+        {chips.map(chip => (
+          <Chip
+            key={chip.id}
+            icon={chip.icon}
+            compact
+            onClose={() => applyFilters(chip.remove(filters))}
+            textStyle={styles.chipText}
+          >
+            {chip.label}
+          </Chip>
+        ))}
+        <Chip compact mode="outlined" onPress={() => applyFilters(DEFAULT_EVENT_FILTERS)}>
+          Clear all
+        </Chip>
+      </ScrollView>
+    );
+  };
+
+  const renderFooter = () => (
+    loadingMore ? <ActivityIndicator style={styles.footerLoader} /> : null
+  );
+
+  const renderContent = () => {
+    if (loading || !filters) {
+      return (
         <View style={styles.centerContainer}>
-          <Text style={styles.emptyText}>No events found</Text>
+          <ActivityIndicator size="large" />
+          <Text style={styles.loadingText}>Loading {viewName()}...</Text>
         </View>
-      </View>
-    );
-  }
+      );
+    }
 
-  return (
-    <View style={styles.container}>
-      <StatusBar barStyle={theme.dark ? 'light-content' : 'dark-content'} backgroundColor={theme.colors.surface} />
-      <Appbar.Header>
-        <Appbar.Content title="Events" />
-      </Appbar.Header>
+    if ((view === 'events' ? events.length : reviews.length) === 0) {
+      return (
+        <View style={styles.centerContainer}>
+          <Text style={styles.emptyText}>No {viewName()} found</Text>
+        </View>
+      );
+    }
+
+    if (view === 'events') {
+      return (
+        <FlatList
+          data={events}
+          renderItem={renderEvent}
+          keyExtractor={(item) => item.id}
+          extraData={[tokenVersion, selectedIds]}
+          contentContainerStyle={styles.listContent}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={renderFooter}
+          maintainVisibleContentPosition={{ minIndexForVisible: 0, autoscrollToTopThreshold: 40 }}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+          }
+        />
+      );
+    }
+
+    return (
       <FlatList
-        data={events}
-        renderItem={renderEvent}
+        data={reviews}
+        renderItem={renderReview}
         keyExtractor={(item) => item.id}
+        extraData={[tokenVersion, selectedIds]}
         contentContainerStyle={styles.listContent}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={renderFooter}
+        maintainVisibleContentPosition={{ minIndexForVisible: 0, autoscrollToTopThreshold: 40 }}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
         }
       />
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle={theme.dark ? 'light-content' : 'dark-content'} backgroundColor={theme.colors.surface} />
+      {selecting ? (
+        <Appbar.Header>
+          <Appbar.Action icon="close" onPress={() => setSelectedIds(new Set())} />
+          <Appbar.Content title={`${selectedIds.size} selected`} />
+          {view === 'events' ? (
+            <>
+              <Appbar.Action icon="star-outline" onPress={handleBulkRetain} />
+              <Appbar.Action icon="tag-outline" onPress={() => setShowSubLabelDialog(true)} />
+              <Appbar.Action icon="delete-outline" onPress={handleBulkDelete} />
+            </>
+          ) : (
+            <Appbar.Action icon="check-all" onPress={handleMarkSelectedReviewed} />
+          )}
+        </Appbar.Header>
+      ) : (
+        <Appbar.Header>
+          <Appbar.Content title="Events" />
+          <Appbar.Action
+            icon={filters && getActiveFilterChips(filters, groupNames).length > 0 ? 'filter' : 'filter-outline'}
+            onPress={() => setShowFilterSheet(true)}
+            disabled={!filters}
+          />
+          {view !== 'events' && (
+            <Appbar.Action
+              icon="check-all"
+              onPress={handleMarkAllReviewed}
+              disabled={!reviews.some(review => !review.has_been_reviewed)}
+            />
+          )}
+        </Appbar.Header>
+      )}
+      <SegmentedButtons
+        value={view}
+        onValueChange={(value) => setView(value as EventsView)}
+        style={styles.segments}
+        buttons={[
+          { value: 'alert', label: segmentLabel('alert', 'Alerts'), icon: 'alert-circle-outline' },
+          { value: 'detection', label: segmentLabel('detection', 'Detections'), icon: 'shape-outline' },
+          { value: 'events', label: 'All', icon: 'format-list-bulleted' },
+        ]}
+      />
+      {renderFilterChips()}
+      {renderContent()}
+      {filters && (
+        <EventFilterSheet
+          visible={showFilterSheet}
+          filters={filters}
+          onApply={applyFilters}
+          onDismiss={() => setShowFilterSheet(false)}
+        />
+      )}
+      <TextInputDialog
+        visible={showSubLabelDialog}
+        title="Set Sub-label"
+        label="Name (leave empty to clear)"
+        onSubmit={handleBulkSubLabel}
+        onDismiss={() => setShowSubLabelDialog(false)}
+      />
     </View>
   );
 };
@@ -129,6 +702,18 @@ const createStyles = (theme: any) => StyleSheet.create({
     alignItems: 'center',
     backgroundColor: theme.colors.background,
   },
+  segments: {
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  filterChips: {
+    flexGrow: 0,
+    marginTop: 12,
+  },
+  filterChipsContent: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
   listContent: {
     padding: 16,
   },
@@ -139,12 +724,25 @@ const createStyles = (theme: any) => StyleSheet.create({
     marginBottom: 16,
     overflow: 'hidden',
     elevation: 4,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  eventCardReviewed: {
+    opacity: 0.6,
+  },
+  eventCardSelected: {
+    borderColor: theme.colors.primary,
   },
   eventThumbnail: {
     width: 120,
     height: 90,
     backgroundColor: '#000',
   },
+  selectionIndicator: {
+    position: 'absolute',
+    top: 6,
+    left: 6,
+  },
   eventInfo: {
     flex: 1,
     padding: 12,
@@ -155,11 +753,36 @@ const createStyles = (theme: any) => StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'space-between',
   },
+  unreviewedDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: theme.colors.primary,
+    marginRight: 6,
+  },
   eventCamera: {
     color: theme.colors.onSurface,
     textTransform: 'capitalize',
     flex: 1,
   },
+  severityBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  severityBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 10,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginVertical: 4,
+  },
   eventTime: {
     color: theme.colors.onSurfaceVariant,
   },
@@ -167,6 +790,9 @@ const createStyles = (theme: any) => StyleSheet.create({
     fontSize: 12,
     textTransform: 'capitalize',
   },
+  footerLoader: {
+    marginVertical: 16,
+  },
   loadingText: {
     marginTop: 16,
     color: theme.colors.onSurfaceVariant,
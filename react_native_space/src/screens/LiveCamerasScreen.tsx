@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -13,13 +13,19 @@ import {
   Dimensions,
   Alert,
 } from 'react-native';
-import { Text, ActivityIndicator, Button, useTheme } from 'react-native-paper';
+import { Text, ActivityIndicator, Button, Chip, useTheme } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { frigateApi, Camera, Event } from '../services/frigateApi';
 import { frigateWebSocket, CameraActivityMap, FrigateEventMessage } from '../services/frigateWebSocket';
 import { SmartCameraThumbnail } from '../components/SmartCameraThumbnail';
+import { CameraGroupSheet } from '../components/CameraGroupSheet';
 import { useAuth } from '../context/AuthContext';
+import { notificationService } from '../services/notificationService';
+import { notificationInbox } from '../services/notificationInbox';
+import { findMatchingRule } from '../services/notificationRules';
+import { cameraGroups, CameraGroup, createCameraGroup } from '../services/cameraGroups';
+import type { ServerProfile } from '../services/serverProfiles';
 import { useFocusEffect } from '@react-navigation/native';
 
 type LayoutMode = 'grid' | 'stacked';
@@ -29,15 +35,21 @@ interface RecentEvent extends Event {}
 export const LiveCamerasScreen = ({ navigation }: any) => {
   const theme = useTheme();
   const styles = createStyles(theme);
-  const { logout } = useAuth();
+  const { logout, tokenVersion, servers, activeServer, switchServer } = useAuth();
   
+  // Every enabled camera - the dashboard shows all of them or a group
   const [cameras, setCameras] = useState<Camera[]>([]);
+  const [groups, setGroups] = useState<CameraGroup[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [editingGroup, setEditingGroup] = useState<CameraGroup | null>(null);
+  const [isNewGroup, setIsNewGroup] = useState(false);
   const [recentEvents, setRecentEvents] = useState<RecentEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [layoutMode, setLayoutMode] = useState<LayoutMode>('stacked');
   const [showProfileMenu, setShowProfileMenu] = useState(false);
+  const [showServerMenu, setShowServerMenu] = useState(false);
   const [showConnectionTooltip, setShowConnectionTooltip] = useState(false);
   const [isConnected, setIsConnected] = useState(true);
   const [cameraLastMotion, setCameraLastMotion] = useState<Record<string, number>>({});
@@ -45,9 +57,24 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
   const [cameraMotionActive, setCameraMotionActive] = useState<Record<string, boolean>>({});
   const [cameraActiveDetections, setCameraActiveDetections] = useState<Record<string, boolean>>({});
   const [wsConnected, setWsConnected] = useState(false);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(notificationService.getSettings().enabled);
+  const [unreadCount, setUnreadCount] = useState(0);
 
   const screenWidth = Dimensions.get('window').width;
 
+  useEffect(() => {
+    notificationService.load().then(() => setNotificationsEnabled(notificationService.getSettings().enabled));
+    return notificationService.onSettingsChange(settings => setNotificationsEnabled(settings.enabled));
+  }, []);
+
+  // Unread badge on the bell for the current server's inbox
+  useEffect(() => {
+    const serverId = activeServer?.id ?? null;
+    notificationInbox.load().then(() => setUnreadCount(notificationInbox.getUnreadCount(serverId)));
+    return notificationInbox.onChange(() => setUnreadCount(notificationInbox.getUnreadCount(serverId)));
+  }, [activeServer?.id]);
+
+
   const loadCameras = useCallback(async () => {
     try {
       setError(null);
@@ -63,6 +90,45 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
     }
   }, []);
 
+  // Groups and the selected group are per server
+  useEffect(() => {
+    const updateGroups = () => {
+      setGroups(cameraGroups.getGroups());
+      setSelectedGroupId(cameraGroups.getSelectedGroupId());
+    };
+    cameraGroups.fetchGroups().then(updateGroups);
+    return cameraGroups.onChange(updateGroups);
+  }, [activeServer?.id]);
+
+  const selectedGroup = groups.find(group => group.id === selectedGroupId) ?? null;
+
+  const visibleCameras = useMemo(
+    () => selectedGroup
+      ? cameras.filter(camera => selectedGroup.cameras.includes(camera.name))
+      : cameras,
+    [cameras, selectedGroup]
+  );
+
+  const handleSaveGroup = async (group: CameraGroup) => {
+    setEditingGroup(null);
+    await cameraGroups.saveGroup(group);
+    if (isNewGroup) cameraGroups.setSelectedGroupId(group.id);
+  };
+
+  const handleDeleteGroup = (groupId: string) => {
+    setEditingGroup(null);
+    cameraGroups.deleteGroup(groupId);
+  };
+
+  const handleGroupLongPress = (group: CameraGroup) => {
+    if (group.source === 'frigate') {
+      Alert.alert(group.name, 'This group comes from your Frigate config. Edit it in the Frigate web UI.');
+      return;
+    }
+    setIsNewGroup(false);
+    setEditingGroup(group);
+  };
+
   const loadRecentEvents = useCallback(async () => {
     try {
       const events = await frigateApi.getEvents({ limit: 20 });
@@ -138,13 +204,13 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
     });
   }, [cameras]);
 
-  // Initial load
+  // Initial load, and again whenever the active server changes
   useEffect(() => {
     console.log('[Dashboard] Initial load');
     loadCameras();
     loadRecentEvents();
     loadLastMotionTimes();
-  }, [loadCameras, loadRecentEvents, loadLastMotionTimes]);
+  }, [loadCameras, loadRecentEvents, loadLastMotionTimes, activeServer?.id]);
 
   // Set up WebSocket connection and intervals
   useEffect(() => {
@@ -168,7 +234,6 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
     const unsubscribeEvents = frigateWebSocket.onEvent((event, camera, label) => {
       const payload = event.after;
       const isLive = payload.active && !payload.stationary && !payload.end_time;
-      const eventType = event.type;
       
       if (isLive) {
         // Clear any pending timeout
@@ -188,13 +253,10 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
         setCameraActiveDetections(prev => ({ ...prev, [camera]: false }));
       }
       
-      // Add new DETECTIONS to ribbon (notification-worthy items only)
-      const notificationLabels = ['person', 'car', 'dog', 'cat', 'package', 'motorcycle', 'bicycle', 'face', 'license_plate'];
-      const isNotificationWorthy = eventType === 'new' 
-        && notificationLabels.includes(payload.label)
-        && payload.top_score >= 0.5;
+      // Add DETECTIONS to ribbon (items matching a notification rule only)
+      const rule = findMatchingRule(event, notificationService.getSettings().rules, cameraGroups.getGroupMap());
       
-      if (isNotificationWorthy && !addedEventIds.has(payload.id)) {
+      if (rule && !addedEventIds.has(payload.id)) {
         addedEventIds.add(payload.id);
         const newEvent: RecentEvent = {
           id: payload.id,
@@ -205,8 +267,11 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
           has_clip: payload.has_clip,
           has_snapshot: payload.has_snapshot,
         };
-        setRecentEvents(prev => [newEvent, ...prev.slice(0, 19)]); // Keep max 20
-        console.log(`[Dashboard] 🔔 Detection added to ribbon: ${label} on ${camera} (score: ${payload.top_score.toFixed(2)})`);
+        // Rules also match updates, so the event may already be in the fetched list
+        setRecentEvents(prev => prev.some(e => e.id === newEvent.id)
+          ? prev
+          : [newEvent, ...prev.slice(0, 19)]); // Keep max 20
+        console.log(`[Dashboard] 🔔 Detection added to ribbon: ${label} on ${camera} (rule: ${rule.name}, score: ${payload.top_score.toFixed(2)})`);
         
         // Update last motion time for this camera
         setCameraLastMotion(prev => ({
@@ -272,6 +337,20 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
     );
   };
 
+  const handleSwitchServer = async (server: ServerProfile) => {
+    setShowServerMenu(false);
+    if (server.id === activeServer?.id) return;
+
+    setLoading(true);
+    try {
+      await switchServer(server.id);
+    } catch (err: any) {
+      Alert.alert('Switch Failed', err.message || `Could not connect to ${server.name}.`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const formatTimeAgo = (timestamp: number): string => {
     const now = Date.now() / 1000;
     const diff = now - timestamp;
@@ -425,6 +504,46 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
     </Modal>
   );
 
+  // Server switcher
+  const ServerMenu = () => (
+    <Modal
+      visible={showServerMenu}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setShowServerMenu(false)}
+    >
+      <Pressable style={[styles.modalOverlay, styles.serverMenuOverlay]} onPress={() => setShowServerMenu(false)}>
+        <View style={styles.profileMenu}>
+          {servers.map(server => (
+            <TouchableOpacity
+              key={server.id}
+              style={styles.profileMenuItem}
+              onPress={() => handleSwitchServer(server)}
+            >
+              <Ionicons
+                name={server.id === activeServer?.id ? 'checkmark-circle' : 'server-outline'}
+                size={20}
+                color={server.id === activeServer?.id ? theme.colors.primary : theme.colors.onSurface}
+              />
+              <Text style={styles.profileMenuText} numberOfLines={1}>{server.name}</Text>
+            </TouchableOpacity>
+          ))}
+          <View style={styles.menuDivider} />
+          <TouchableOpacity
+            style={styles.profileMenuItem}
+            onPress={() => {
+              setShowServerMenu(false);
+              navigation.navigate('URLSetup', { addServer: true });
+            }}
+          >
+            <Ionicons name="add-circle-outline" size={20} color={theme.colors.onSurface} />
+            <Text style={styles.profileMenuText}>Add Server</Text>
+          </TouchableOpacity>
+        </View>
+      </Pressable>
+    </Modal>
+  );
+
   // Header
   const Header = () => (
     <View style={styles.header}>
@@ -442,6 +561,12 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
             size={20} 
             color={isConnected ? '#4CAF50' : theme.colors.error} 
           />
+          {servers.length > 1 && activeServer && (
+            <Pressable style={styles.serverName} onPress={() => setShowServerMenu(true)}>
+              <Text style={styles.serverNameText} numberOfLines={1}>{activeServer.name}</Text>
+              <Ionicons name="chevron-down" size={14} color={theme.colors.onSurfaceVariant} />
+            </Pressable>
+          )}
         </Pressable>
         
         {showConnectionTooltip && (
@@ -459,9 +584,19 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
       
       <Pressable 
         style={styles.headerButton}
-        onPress={() => Alert.alert('Notifications', 'Notifications coming soon!')}
+        onPress={() => navigation.navigate('NotificationInbox')}
+        onLongPress={() => navigation.navigate('NotificationSettings')}
       >
-        <Ionicons name="notifications-outline" size={24} color={theme.colors.onSurfaceVariant} />
+        <Ionicons
+          name={notificationsEnabled ? 'notifications-outline' : 'notifications-off-outline'}
+          size={24}
+          color={theme.colors.onSurfaceVariant}
+        />
+        {unreadCount > 0 && (
+          <View style={styles.unreadBadge}>
+            <Text style={styles.unreadBadgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+          </View>
+        )}
       </Pressable>
     </View>
   );
@@ -500,6 +635,7 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
         <StatusBar barStyle={theme.dark ? 'light-content' : 'dark-content'} backgroundColor={theme.colors.background} />
         <Header />
         <ProfileMenu />
+        <ServerMenu />
         <View style={styles.centerContainer}>
           <MaterialCommunityIcons name="server-network-off" size={48} color={theme.colors.error} />
           <Text style={styles.errorText}>Connection Error</Text>
@@ -514,6 +650,7 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
     <SafeAreaView style={styles.container} edges={['top']}>
       <StatusBar barStyle={theme.dark ? 'light-content' : 'dark-content'} backgroundColor={theme.colors.background} />
       <ProfileMenu />
+      <ServerMenu />
       
       <Pressable style={{ flex: 1 }} onPress={() => setShowConnectionTooltip(false)}>
       <ScrollView
@@ -530,6 +667,7 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
               data={recentEvents}
               renderItem={renderEventItem}
               keyExtractor={(item) => item.id}
+              extraData={tokenVersion}
               horizontal
               showsHorizontalScrollIndicator={false}
               contentContainerStyle={styles.eventsContainer}
@@ -542,33 +680,84 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
           <SectionHeader 
             icon="videocam-outline" 
             title="Cameras"
-            count={cameras.length}
+            count={visibleCameras.length}
             rightElement={
-              <View style={styles.layoutToggle}>
-                <Pressable
-                  style={[styles.layoutButton, layoutMode === 'grid' && styles.layoutButtonActive]}
-                  onPress={() => setLayoutMode('grid')}
-                >
-                  <Ionicons name="grid-outline" size={16} color={layoutMode === 'grid' ? theme.colors.primary : theme.colors.onSurfaceVariant} />
-                </Pressable>
+              <View style={styles.sectionActions}>
                 <Pressable
-                  style={[styles.layoutButton, layoutMode === 'stacked' && styles.layoutButtonActive]}
-                  onPress={() => setLayoutMode('stacked')}
+                  style={styles.liveWallButton}
+                  onPress={() => navigation.navigate('LiveWall', selectedGroup
+                    ? { cameras: selectedGroup.cameras, title: selectedGroup.name }
+                    : undefined)}
+                  disabled={visibleCameras.length === 0}
                 >
-                  <Ionicons name="list-outline" size={16} color={layoutMode === 'stacked' ? theme.colors.primary : theme.colors.onSurfaceVariant} />
+                  <Ionicons name="tv-outline" size={16} color={theme.colors.primary} />
+                  <Text style={styles.liveWallText}>Live Wall</Text>
                 </Pressable>
+                <View style={styles.layoutToggle}>
+                  <Pressable
+                    style={[styles.layoutButton, layoutMode === 'grid' && styles.layoutButtonActive]}
+                    onPress={() => setLayoutMode('grid')}
+                  >
+                    <Ionicons name="grid-outline" size={16} color={layoutMode === 'grid' ? theme.colors.primary : theme.colors.onSurfaceVariant} />
+                  </Pressable>
+                  <Pressable
+                    style={[styles.layoutButton, layoutMode === 'stacked' && styles.layoutButtonActive]}
+                    onPress={() => setLayoutMode('stacked')}
+                  >
+                    <Ionicons name="list-outline" size={16} color={layoutMode === 'stacked' ? theme.colors.primary : theme.colors.onSurfaceVariant} />
+                  </Pressable>
+                </View>
               </View>
             }
           />
 
-          {cameras.length === 0 ? (
+          {cameras.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.groupChips}
+            >
+              <Chip
+                icon="view-grid-outline"
+                selected={selectedGroupId === null}
+                showSelectedOverlay
+                onPress={() => cameraGroups.setSelectedGroupId(null)}
+              >
+                All
+              </Chip>
+              {groups.map(group => (
+                <Chip
+                  key={group.id}
+                  icon={group.icon}
+                  selected={selectedGroupId === group.id}
+                  showSelectedOverlay
+                  onPress={() => cameraGroups.setSelectedGroupId(group.id)}
+                  onLongPress={() => handleGroupLongPress(group)}
+                >
+                  {group.name}
+                </Chip>
+              ))}
+              <Chip
+                icon="plus"
+                mode="outlined"
+                onPress={() => {
+                  setIsNewGroup(true);
+                  setEditingGroup(createCameraGroup());
+                }}
+              >
+                New Group
+              </Chip>
+            </ScrollView>
+          )}
+
+          {visibleCameras.length === 0 ? (
             <View style={styles.emptyCameras}>
               <Text style={styles.emptyText}>No cameras found</Text>
               <Button mode="contained" onPress={loadCameras}>Refresh</Button>
             </View>
           ) : (
             <FlatList
-              data={cameras}
+              data={visibleCameras}
               renderItem={renderCamera}
               keyExtractor={(item) => item.name}
               numColumns={layoutMode === 'grid' ? 2 : 1}
@@ -581,6 +770,15 @@ export const LiveCamerasScreen = ({ navigation }: any) => {
         </View>
       </ScrollView>
       </Pressable>
+
+      <CameraGroupSheet
+        visible={editingGroup !== null}
+        group={editingGroup}
+        cameras={cameras.map(camera => camera.name)}
+        onSave={handleSaveGroup}
+        onDelete={isNewGroup ? undefined : handleDeleteGroup}
+        onDismiss={() => setEditingGroup(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -608,6 +806,23 @@ const createStyles = (theme: any) => StyleSheet.create({
   headerButton: {
     padding: 4,
   },
+  unreadBadge: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    backgroundColor: theme.colors.error,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  unreadBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 10,
+    fontWeight: '700',
+  },
   connectionContainer: {
     position: 'relative',
     alignItems: 'center',
@@ -617,6 +832,18 @@ const createStyles = (theme: any) => StyleSheet.create({
     alignItems: 'center',
     padding: 4,
   },
+  serverName: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 6,
+    gap: 2,
+    maxWidth: 160,
+  },
+  serverNameText: {
+    color: theme.colors.onSurface,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   tooltip: {
     position: 'absolute',
     top: 32,
@@ -662,6 +889,10 @@ const createStyles = (theme: any) => StyleSheet.create({
     paddingTop: 100,
     paddingLeft: 16,
   },
+  serverMenuOverlay: {
+    alignItems: 'center',
+    paddingLeft: 0,
+  },
   profileMenu: {
     backgroundColor: theme.colors.surface,
     borderRadius: 12,
@@ -765,7 +996,33 @@ const createStyles = (theme: any) => StyleSheet.create({
     marginTop: 1,
   },
   
+  // Camera groups
+  groupChips: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    gap: 8,
+  },
+
   // Layout Toggle
+  sectionActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  liveWallButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  liveWallText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.primary,
+  },
   layoutToggle: {
     flexDirection: 'row',
     backgroundColor: theme.colors.surfaceVariant,
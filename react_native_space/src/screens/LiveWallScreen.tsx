@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  StyleSheet,
+  StatusBar,
+  AppState,
+  useWindowDimensions,
+} from 'react-native';
+import { Text, Appbar, SegmentedButtons, IconButton, ActivityIndicator, Button, useTheme } from 'react-native-paper';
+import { useIsFocused } from '@react-navigation/native';
+import { frigateApi } from '../services/frigateApi';
+import { connectionManager } from '../services/connectionManager';
+import { getCameraStreams, resolveStreamName, streamQuality, CameraStreams } from '../services/streamQuality';
+import {
+  liveWallSettings,
+  getLiveWallPage,
+  LiveWallLayout,
+  LIVE_WALL_LAYOUTS,
+} from '../services/liveWall';
+import { LiveStreamTile } from '../components/LiveStreamTile';
+
+// How often cells without a stream refresh their snapshot
+const SNAPSHOT_REFRESH_INTERVAL = 10000;
+
+export const LiveWallScreen = ({ route, navigation }: any) => {
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const isFocused = useIsFocused();
+  const { width: screenWidth } = useWindowDimensions();
+  // Optional subset of cameras to show, e.g. a camera group (defaults to every enabled camera)
+  const requestedCameras: string[] | undefined = route.params?.cameras;
+  const title: string = route.params?.title ?? 'Live Wall';
+
+  const [cameras, setCameras] = useState<string[]>([]);
+  const [cameraStreams, setCameraStreams] = useState<Record<string, CameraStreams>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [layout, setLayout] = useState<LiveWallLayout>(liveWallSettings.getLayout());
+  const [page, setPage] = useState(0);
+  const [focusedCamera, setFocusedCamera] = useState<string | null>(null);
+  const [appActive, setAppActive] = useState(AppState.currentState === 'active');
+  const [refreshTimestamp, setRefreshTimestamp] = useState(Date.now());
+
+  const loadCameras = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [cameraList, config] = await Promise.all([
+        frigateApi.getCameras(),
+        frigateApi.getConfig(),
+        streamQuality.load(),
+        liveWallSettings.load(),
+      ]);
+      const names = cameraList
+        .filter((c) => c.enabled && (!requestedCameras || requestedCameras.includes(c.name)))
+        .map((c) => c.name);
+
+      const streams: Record<string, CameraStreams> = {};
+      names.forEach(name => {
+        streams[name] = getCameraStreams(name, config.cameras[name]);
+      });
+
+      setLayout(liveWallSettings.getLayout());
+      setCameraStreams(streams);
+      setCameras(names);
+    } catch (err: any) {
+      console.error('[LiveWall] Failed to load cameras:', err);
+      setError(err.message || 'Failed to load cameras');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCameras();
+  }, []);
+
+  // Stop every stream while the app is in the background (battery saving)
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      setAppActive(nextAppState === 'active');
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const streaming = isFocused && appActive;
+
+  useEffect(() => {
+    if (!streaming) return;
+    const interval = setInterval(() => setRefreshTimestamp(Date.now()), SNAPSHOT_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [streaming]);
+
+  const wall = useMemo(() => getLiveWallPage(cameras, layout, page), [cameras, layout, page]);
+  const currentPage = Math.min(page, wall.pageCount - 1);
+
+  const handleLayoutChange = (value: string) => {
+    const next = value as LiveWallLayout;
+    setLayout(next);
+    setPage(0);
+    liveWallSettings.setLayout(next);
+  };
+
+  const openCamera = (cameraName: string) => {
+    navigation.navigate('CameraLive', { cameraName });
+  };
+
+  // Tiles play the sub stream; a focused camera gets what the live view would play
+  const getTileStream = (cameraName: string) => {
+    const streams = cameraStreams[cameraName] ?? { high: cameraName, low: null };
+    return streams.low ?? streams.high;
+  };
+
+  const getFocusedStream = (cameraName: string) => {
+    const streams = cameraStreams[cameraName] ?? { high: cameraName, low: null };
+    return resolveStreamName(streams, streamQuality.getQuality(cameraName), {
+      networkType: connectionManager.getNetworkType(),
+      degraded: false,
+    });
+  };
+
+  const renderWall = () => {
+    if (focusedCamera) {
+      return (
+        <LiveStreamTile
+          key={`focused:${focusedCamera}`}
+          cameraName={focusedCamera}
+          streamName={getFocusedStream(focusedCamera)}
+          width={screenWidth}
+          height={screenWidth * 9 / 16}
+          live={streaming}
+          refreshTimestamp={refreshTimestamp}
+          onPress={() => setFocusedCamera(null)}
+          onLongPress={() => openCamera(focusedCamera)}
+        />
+      );
+    }
+
+    const { columns } = LIVE_WALL_LAYOUTS[layout];
+    const tileWidth = screenWidth / columns;
+
+    return (
+      <View style={styles.grid}>
+        {wall.cameras.map(cameraName => (
+          <LiveStreamTile
+            key={cameraName}
+            cameraName={cameraName}
+            streamName={getTileStream(cameraName)}
+            width={tileWidth}
+            height={tileWidth * 9 / 16}
+            live={streaming && wall.live.has(cameraName)}
+            refreshTimestamp={refreshTimestamp}
+            onPress={() => setFocusedCamera(cameraName)}
+            onLongPress={() => openCamera(cameraName)}
+          />
+        ))}
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      );
+    }
+
+    if (error || cameras.length === 0) {
+      return (
+        <View style={styles.centerContainer}>
+          <Text style={styles.emptyText}>{error ?? 'No cameras found'}</Text>
+          <Button mode="contained" onPress={loadCameras}>Retry</Button>
+        </View>
+      );
+    }
+
+    const liveCount = focusedCamera ? 1 : wall.live.size;
+    const cappedCount = focusedCamera ? 0 : wall.cameras.length - wall.live.size;
+
+    return (
+      <>
+        {renderWall()}
+        <View style={styles.footer}>
+          <Text variant="bodySmall" style={styles.footerText}>
+            {focusedCamera
+              ? 'Tap to return to the wall • Long press for recordings'
+              : `${liveCount} live${cappedCount > 0 ? ` • ${cappedCount} snapshot${cappedCount === 1 ? '' : 's'} (stream limit)` : ''}`}
+          </Text>
+          {!focusedCamera && wall.pageCount > 1 && (
+            <View style={styles.pagination}>
+              <IconButton
+                icon="chevron-left"
+                size={20}
+                disabled={currentPage === 0}
+                onPress={() => setPage(currentPage - 1)}
+              />
+              <Text variant="bodySmall" style={styles.footerText}>
+                {currentPage + 1} / {wall.pageCount}
+              </Text>
+              <IconButton
+                icon="chevron-right"
+                size={20}
+                disabled={currentPage >= wall.pageCount - 1}
+                onPress={() => setPage(currentPage + 1)}
+              />
+            </View>
+          )}
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle={theme.dark ? 'light-content' : 'dark-content'} backgroundColor={theme.colors.surface} />
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => (focusedCamera ? setFocusedCamera(null) : navigation.goBack())} />
+        <Appbar.Content title={focusedCamera ? focusedCamera.replace(/_/g, ' ') : title} />
+        {focusedCamera && (
+          <Appbar.Action icon="open-in-new" onPress={() => openCamera(focusedCamera)} />
+        )}
+      </Appbar.Header>
+      {!focusedCamera && (
+        <SegmentedButtons
+          value={layout}
+          onValueChange={handleLayoutChange}
+          style={styles.segments}
+          buttons={[
+            { value: '2x2', label: '2 × 2', icon: 'view-grid-outline' },
+            { value: '3x3', label: '3 × 3', icon: 'view-module-outline' },
+          ]}
+        />
+      )}
+      {renderContent()}
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.colors.background,
+  },
+  segments: {
+    marginHorizontal: 16,
+    marginVertical: 12,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: '#000',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    minHeight: 48,
+  },
+  footerText: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  pagination: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: 16,
+  },
+});
@@ -12,6 +12,7 @@ import { TextInput, Button, Text, IconButton, Chip , useTheme } from 'react-nati
 import { useNavigation, useRoute } from '@react-navigation/native';
 import * as Sentry from '@sentry/react-native';
 import { useAuth } from '../context/AuthContext';
+import { getDefaultServerName } from '../services/serverProfiles';
 
 export const LoginScreen = () => {
   const theme = useTheme();
@@ -21,7 +22,10 @@ export const LoginScreen = () => {
   const { login } = useAuth();
   
   const frigateUrl = route.params?.frigateUrl || '';
+  const remoteUrl: string | undefined = route.params?.remoteUrl;
+  const addServer: boolean = !!route.params?.addServer;
   
+  const [serverName, setServerName] = useState(() => getDefaultServerName(frigateUrl));
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -38,8 +42,13 @@ export const LoginScreen = () => {
 
     setLoading(true);
     try {
-      await login(username.trim(), password.trim(), frigateUrl);
+      await login(username.trim(), password.trim(), frigateUrl, remoteUrl, serverName.trim());
       console.log('[Login] Login successful');
+
+      // Back to the app, now on the new server
+      if (addServer) {
+        navigation.navigate('Main');
+      }
     } catch (error: any) {
       console.error('[Login] Login failed:', error.message);
       
@@ -103,10 +112,32 @@ export const LoginScreen = () => {
           >
             {frigateUrl}
           </Chip>
+          {remoteUrl && (
+            <Chip
+              icon="web"
+              style={[styles.urlChip, styles.remoteUrlChip]}
+              textStyle={styles.urlChipText}
+            >
+              {remoteUrl}
+            </Chip>
+          )}
         </View>
 
         {/* Login Form */}
         <View style={styles.form}>
+          <TextInput
+            label="Server Name"
+            value={serverName}
+            onChangeText={setServerName}
+            mode="outlined"
+            autoCorrect={false}
+            left={<TextInput.Icon icon="tag-outline" />}
+            style={styles.input}
+            theme={{
+              roundness: 12,
+            }}
+          />
+
           <TextInput
             label="Username"
             value={username}
@@ -200,6 +231,9 @@ const createStyles = (theme: any) => StyleSheet.create({
   urlChip: {
     backgroundColor: theme.colors.surface,
   },
+  remoteUrlChip: {
+    marginTop: 8,
+  },
   urlChipText: {
     color: theme.colors.primary,
   },
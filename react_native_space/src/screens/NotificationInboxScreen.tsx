@@ -0,0 +1,224 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  StyleSheet,
+  SectionList,
+  Image,
+  Pressable,
+  StatusBar,
+  Alert,
+} from 'react-native';
+import { Text, Appbar, SegmentedButtons, IconButton, useTheme } from 'react-native-paper';
+import { formatDistanceToNow } from 'date-fns';
+import { frigateApi } from '../services/frigateApi';
+import {
+  notificationInbox,
+  groupInboxEntries,
+  InboxEntry,
+  InboxGrouping,
+} from '../services/notificationInbox';
+import { useAuth } from '../context/AuthContext';
+import { SwipeToDismiss } from '../components/SwipeToDismiss';
+
+export const NotificationInboxScreen = ({ navigation }: any) => {
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  // tokenVersion re-renders thumbnails with the refreshed token
+  const { activeServer, tokenVersion } = useAuth();
+  const serverId = activeServer?.id ?? null;
+  const [entries, setEntries] = useState<InboxEntry[]>(notificationInbox.getEntries(serverId));
+  const [grouping, setGrouping] = useState<InboxGrouping>('time');
+
+  // Thumbnails and event ids only make sense on the server they came from
+  useEffect(() => {
+    notificationInbox.load().then(() => setEntries(notificationInbox.getEntries(serverId)));
+    return notificationInbox.onChange(() => setEntries(notificationInbox.getEntries(serverId)));
+  }, [serverId]);
+
+  const sections = useMemo(() => groupInboxEntries(entries, grouping), [entries, grouping]);
+  const hasUnread = entries.some(entry => !entry.read);
+
+  const openEvent = (entry: InboxEntry) => {
+    notificationInbox.markRead(entry.eventId, entry.serverId);
+    navigation.navigate('EventDetails', { eventId: entry.eventId });
+  };
+
+  const openRecording = (entry: InboxEntry) => {
+    notificationInbox.markRead(entry.eventId, entry.serverId);
+    // Start 5 seconds before the event so the user doesn't miss the detection
+    navigation.navigate('CameraLive', {
+      cameraName: entry.camera,
+      initialTimestamp: (entry.startTime - 5) * 1000,
+    });
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear Notifications', 'Remove all notifications from the inbox?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => notificationInbox.clear(serverId),
+      },
+    ]);
+  };
+
+  const renderEntry = ({ item }: { item: InboxEntry }) => (
+    <SwipeToDismiss onDismiss={() => notificationInbox.dismiss(item.eventId, item.serverId)}>
+      <Pressable style={styles.entry} onPress={() => openEvent(item)}>
+        <Image
+          source={{ uri: frigateApi.getEventThumbnailUrl(item.eventId) }}
+          style={styles.thumbnail}
+          resizeMode="cover"
+        />
+        <View style={styles.entryInfo}>
+          <View style={styles.entryHeader}>
+            {!item.read && <View style={styles.unreadDot} />}
+            <Text
+              variant="titleSmall"
+              style={[styles.entryTitle, !item.read && styles.entryTitleUnread]}
+              numberOfLines={1}
+            >
+              {item.title}
+            </Text>
+          </View>
+          <Text variant="bodySmall" style={styles.entryBody} numberOfLines={1}>
+            {item.body}
+          </Text>
+          <Text variant="bodySmall" style={styles.entryTime}>
+            {formatDistanceToNow(new Date(item.startTime * 1000), { addSuffix: true })}
+          </Text>
+        </View>
+        <IconButton
+          icon="play-circle-outline"
+          size={28}
+          iconColor={theme.colors.primary}
+          onPress={() => openRecording(item)}
+        />
+      </Pressable>
+    </SwipeToDismiss>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle={theme.dark ? 'light-content' : 'dark-content'} backgroundColor={theme.colors.surface} />
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => navigation.goBack()} />
+        <Appbar.Content title="Notifications" />
+        <Appbar.Action
+          icon="check-all"
+          onPress={() => notificationInbox.markAllRead(serverId)}
+          disabled={!hasUnread}
+        />
+        <Appbar.Action icon="delete-sweep-outline" onPress={handleClear} disabled={entries.length === 0} />
+        <Appbar.Action icon="cog-outline" onPress={() => navigation.navigate('NotificationSettings')} />
+      </Appbar.Header>
+      <SegmentedButtons
+        value={grouping}
+        onValueChange={(value) => setGrouping(value as InboxGrouping)}
+        style={styles.segments}
+        buttons={[
+          { value: 'time', label: 'By Time', icon: 'clock-outline' },
+          { value: 'camera', label: 'By Camera', icon: 'cctv' },
+        ]}
+      />
+      {entries.length === 0 ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.emptyText}>No notifications yet</Text>
+          <Text variant="bodySmall" style={styles.emptyHint}>Swipe left on a notification to dismiss it</Text>
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          renderItem={renderEntry}
+          renderSectionHeader={({ section }) => (
+            <Text variant="labelLarge" style={styles.sectionHeader}>{section.title}</Text>
+          )}
+          keyExtractor={(item) => `${item.serverId}:${item.eventId}`}
+          extraData={tokenVersion}
+          contentContainerStyle={styles.listContent}
+          stickySectionHeadersEnabled={false}
+        />
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.colors.background,
+  },
+  segments: {
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  listContent: {
+    paddingBottom: 16,
+  },
+  sectionHeader: {
+    color: theme.colors.onSurfaceVariant,
+    textTransform: 'capitalize',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: theme.colors.outlineVariant,
+  },
+  thumbnail: {
+    width: 80,
+    height: 60,
+    borderRadius: 8,
+    backgroundColor: '#000',
+  },
+  entryInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: theme.colors.primary,
+    marginRight: 6,
+  },
+  entryTitle: {
+    color: theme.colors.onSurface,
+    flex: 1,
+  },
+  entryTitleUnread: {
+    fontWeight: '700',
+  },
+  entryBody: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: 2,
+  },
+  entryTime: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: 2,
+  },
+  emptyText: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  emptyHint: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,386 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Platform,
+  StatusBar,
+  Alert,
+} from 'react-native';
+import { Text, Chip, Button, Switch, IconButton, useTheme } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format } from 'date-fns';
+import { notificationService } from '../services/notificationService';
+import { cameraGroups } from '../services/cameraGroups';
+import {
+  DAY_LABELS,
+  NotificationRule,
+  NotificationSettings,
+  createNotificationRule,
+  describeRule,
+  formatTimeOfDay,
+  parseTimeOfDay,
+} from '../services/notificationRules';
+import { NotificationRuleSheet } from '../components/NotificationRuleSheet';
+import { TextInputDialog } from '../components/TextInputDialog';
+
+// Minutes
+const SNOOZE_OPTIONS = [
+  { label: '30 min', value: 30 },
+  { label: '1 hour', value: 60 },
+  { label: '4 hours', value: 4 * 60 },
+  { label: '8 hours', value: 8 * 60 },
+];
+
+// Seconds
+const COOLDOWN_OPTIONS = [
+  { label: 'Off', value: 0 },
+  { label: '30 sec', value: 30 },
+  { label: '1 min', value: 60 },
+  { label: '5 min', value: 5 * 60 },
+  { label: '15 min', value: 15 * 60 },
+];
+
+export const NotificationSettingsScreen = ({ navigation }: any) => {
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const [settings, setSettings] = useState<NotificationSettings>(notificationService.getSettings());
+  const [editingRule, setEditingRule] = useState<NotificationRule | null>(null);
+  const [isNewRule, setIsNewRule] = useState(false);
+  const [editingQuietTime, setEditingQuietTime] = useState<'start' | 'end' | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [groupNames, setGroupNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    notificationService.load().then(() => setSettings(notificationService.getSettings()));
+    return notificationService.onSettingsChange(setSettings);
+  }, []);
+
+  useEffect(() => {
+    const updateGroupNames = () => {
+      setGroupNames(Object.fromEntries(cameraGroups.getGroups().map(group => [group.id, group.name])));
+    };
+    cameraGroups.fetchGroups().then(updateGroupNames);
+    return cameraGroups.onChange(updateGroupNames);
+  }, []);
+
+  // Keep the snooze countdown honest while the screen is open
+  useEffect(() => {
+    if (!settings.snoozedUntil) return;
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [settings.snoozedUntil]);
+
+  const isSnoozed = settings.snoozedUntil !== null && settings.snoozedUntil > now;
+
+  const update = async (changes: Partial<NotificationSettings>) => {
+    try {
+      await notificationService.updateSettings(changes);
+    } catch (error: any) {
+      Alert.alert('Notifications', error.message || 'Could not update notification settings.');
+    }
+  };
+
+  const handleSnooze = async (minutes: number | null) => {
+    setNow(Date.now());
+    await notificationService.snooze(minutes);
+  };
+
+  const handleAddRule = () => {
+    setIsNewRule(true);
+    setEditingRule(createNotificationRule());
+  };
+
+  const handleEditRule = (rule: NotificationRule) => {
+    setIsNewRule(false);
+    setEditingRule(rule);
+  };
+
+  const handleSaveRule = async (rule: NotificationRule) => {
+    setEditingRule(null);
+    await notificationService.saveRule(rule);
+  };
+
+  const handleDeleteRule = (ruleId: string) => {
+    Alert.alert('Delete Rule', 'Stop notifying for detections matching this rule?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          setEditingRule(null);
+          await notificationService.deleteRule(ruleId);
+        },
+      },
+    ]);
+  };
+
+  const handleQuietTimeSubmit = (value: string) => {
+    const minutes = parseTimeOfDay(value);
+    if (minutes === null) {
+      Alert.alert('Invalid Time', 'Enter the time as HH:MM (24-hour).');
+      return;
+    }
+    const key = editingQuietTime;
+    setEditingQuietTime(null);
+    if (key) {
+      update({ quietHours: { ...settings.quietHours, [key]: minutes } });
+    }
+  };
+
+  const toggleQuietDay = (day: number) => {
+    const days = settings.quietHours.days.includes(day)
+      ? settings.quietHours.days.filter(item => item !== day)
+      : [...settings.quietHours.days, day].sort();
+    update({ quietHours: { ...settings.quietHours, days } });
+  };
+
+  const renderSwitchRow = (title: string, subtitle: string, value: boolean, onValueChange: (value: boolean) => void) => (
+    <View style={styles.row}>
+      <View style={styles.rowText}>
+        <Text variant="bodyLarge" style={styles.rowTitle}>{title}</Text>
+        <Text variant="bodySmall" style={styles.rowSubtitle}>{subtitle}</Text>
+      </View>
+      <Switch value={value} onValueChange={onValueChange} />
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right', 'bottom']}>
+      <StatusBar barStyle={theme.dark ? 'light-content' : 'dark-content'} backgroundColor={theme.colors.surface} />
+      <View style={styles.header}>
+        <IconButton
+          icon="arrow-left"
+          size={24}
+          iconColor={theme.colors.onSurface}
+          onPress={() => navigation.goBack()}
+        />
+        <Text variant="titleLarge" style={styles.title}>
+          Notifications
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {renderSwitchRow(
+          'Detection Notifications',
+          'Notify on new detections while the app is running',
+          settings.enabled,
+          (enabled) => update({ enabled })
+        )}
+
+        {/* Snooze */}
+        <Text variant="labelLarge" style={styles.sectionTitle}>SNOOZE</Text>
+        <Text variant="bodySmall" style={styles.sectionHint}>
+          {isSnoozed
+            ? `Snoozed until ${format(new Date(settings.snoozedUntil as number), 'HH:mm')}`
+            : 'Pause all notifications for a while'}
+        </Text>
+        <View style={styles.chipRow}>
+          {SNOOZE_OPTIONS.map(option => (
+            <Chip key={option.value} mode="outlined" onPress={() => handleSnooze(option.value)}>
+              {option.label}
+            </Chip>
+          ))}
+          {isSnoozed && (
+            <Chip mode="outlined" icon="bell-ring-outline" onPress={() => handleSnooze(null)}>
+              Resume
+            </Chip>
+          )}
+        </View>
+
+        {/* Cooldown */}
+        <Text variant="labelLarge" style={styles.sectionTitle}>COOLDOWN PER CAMERA</Text>
+        <Text variant="bodySmall" style={styles.sectionHint}>
+          Minimum time between notifications from the same camera
+        </Text>
+        <View style={styles.chipRow}>
+          {COOLDOWN_OPTIONS.map(option => (
+            <Chip
+              key={option.value}
+              mode="outlined"
+              selected={settings.cooldownSeconds === option.value}
+              showSelectedOverlay
+              onPress={() => update({ cooldownSeconds: option.value })}
+            >
+              {option.label}
+            </Chip>
+          ))}
+        </View>
+
+        {/* Quiet hours */}
+        <Text variant="labelLarge" style={styles.sectionTitle}>QUIET HOURS</Text>
+        {renderSwitchRow(
+          'Quiet Hours',
+          settings.quietHours.enabled
+            ? `${formatTimeOfDay(settings.quietHours.start)} - ${formatTimeOfDay(settings.quietHours.end)}`
+            : 'No notifications during a daily window',
+          settings.quietHours.enabled,
+          (enabled) => update({ quietHours: { ...settings.quietHours, enabled } })
+        )}
+        {settings.quietHours.enabled && (
+          <>
+            <View style={styles.timeRow}>
+              <Button mode="outlined" icon="clock-outline" onPress={() => setEditingQuietTime('start')}>
+                {`From ${formatTimeOfDay(settings.quietHours.start)}`}
+              </Button>
+              <Button mode="outlined" icon="clock-outline" onPress={() => setEditingQuietTime('end')}>
+                {`To ${formatTimeOfDay(settings.quietHours.end)}`}
+              </Button>
+            </View>
+            <View style={styles.chipRow}>
+              {DAY_LABELS.map((label, day) => (
+                <Chip
+                  key={label}
+                  mode="outlined"
+                  selected={settings.quietHours.days.includes(day)}
+                  showSelectedOverlay
+                  onPress={() => toggleQuietDay(day)}
+                >
+                  {label}
+                </Chip>
+              ))}
+            </View>
+            <Text variant="bodySmall" style={styles.sectionHint}>No days selected means every day</Text>
+          </>
+        )}
+
+        {/* Rules */}
+        <View style={styles.rulesHeader}>
+          <Text variant="labelLarge" style={styles.rulesTitle}>RULES</Text>
+          <Button icon="plus" onPress={handleAddRule}>Add Rule</Button>
+        </View>
+        <Text variant="bodySmall" style={styles.sectionHint}>
+          A detection notifies if it matches any enabled rule. Rules also pick what the dashboard shows as recent detections.
+        </Text>
+        {settings.rules.length === 0 && (
+          <Text variant="bodyMedium" style={styles.emptyText}>No rules - nothing will be notified.</Text>
+        )}
+        {settings.rules.map(rule => (
+          <Pressable key={rule.id} style={styles.ruleCard} onPress={() => handleEditRule(rule)}>
+            <View style={styles.rowText}>
+              <Text variant="titleSmall" style={styles.rowTitle}>{rule.name}</Text>
+              <Text variant="bodySmall" style={styles.rowSubtitle}>{describeRule(rule, groupNames)}</Text>
+            </View>
+            <Switch
+              value={rule.enabled}
+              onValueChange={(enabled) => {
+                notificationService.saveRule({ ...rule, enabled });
+              }}
+            />
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      <NotificationRuleSheet
+        visible={editingRule !== null}
+        rule={editingRule}
+        onSave={handleSaveRule}
+        onDelete={isNewRule ? undefined : handleDeleteRule}
+        onDismiss={() => setEditingRule(null)}
+      />
+
+      <TextInputDialog
+        visible={editingQuietTime !== null}
+        title={editingQuietTime === 'start' ? 'Quiet Hours Start' : 'Quiet Hours End'}
+        label="Time (HH:MM)"
+        initialValue={formatTimeOfDay(
+          editingQuietTime === 'end' ? settings.quietHours.end : settings.quietHours.start
+        )}
+        onSubmit={handleQuietTimeSubmit}
+        onDismiss={() => setEditingQuietTime(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: theme.colors.surface,
+    paddingHorizontal: 8,
+    paddingTop: Platform.OS === 'ios' ? 44 : 0,
+  },
+  title: {
+    color: theme.colors.onSurface,
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 48,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    color: theme.colors.onSurface,
+  },
+  rowSubtitle: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    color: theme.colors.secondary,
+    marginTop: 24,
+    letterSpacing: 0.5,
+  },
+  sectionHint: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginVertical: 8,
+  },
+  rulesHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  rulesTitle: {
+    color: theme.colors.secondary,
+    letterSpacing: 0.5,
+  },
+  emptyText: {
+    color: theme.colors.onSurfaceVariant,
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  ruleCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: theme.colors.outlineVariant,
+  },
+});
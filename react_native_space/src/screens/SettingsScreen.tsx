@@ -8,6 +8,8 @@ import {
   Alert,
   Modal,
   StatusBar,
+  ActivityIndicator,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -15,6 +17,10 @@ import { useAuth } from '../context/AuthContext';
 import { useTheme } from 'react-native-paper';
 import { useNavigation } from '@react-navigation/native';
 import * as Sentry from '@sentry/react-native';
+import { connectionManager, ActiveEndpoint } from '../services/connectionManager';
+import { frigateApi } from '../services/frigateApi';
+import { notificationService } from '../services/notificationService';
+import type { ServerProfile } from '../services/serverProfiles';
 import type { ThemePreference } from '../../App';
 import type { RouteProp } from '@react-navigation/native';
 
@@ -30,9 +36,9 @@ interface Props {
 }
 
 function SettingsScreen({ route }: Props) {
-  const { logout, isAuthenticated } = useAuth();
+  const { logout, isAuthenticated, servers, activeServer, switchServer, removeServer } = useAuth();
   const theme = useTheme();
-  const navigation = useNavigation();
+  const navigation = useNavigation<any>();
   const styles = createStyles(theme);
   
   const [showThemeModal, setShowThemeModal] = useState(false);
@@ -40,6 +46,23 @@ function SettingsScreen({ route }: Props) {
     route.params?.themePreference || 'light'
   );
 
+  const [activeEndpoint, setActiveEndpoint] = useState<ActiveEndpoint | null>(
+    connectionManager.getActiveEndpoint()
+  );
+  const [switchingServerId, setSwitchingServerId] = useState<string | null>(null);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(notificationService.getSettings().enabled);
+
+  // Track local/remote switches while the screen is open
+  useEffect(() => {
+    setActiveEndpoint(connectionManager.getActiveEndpoint());
+    return connectionManager.onEndpointChange(setActiveEndpoint);
+  }, []);
+
+  useEffect(() => {
+    notificationService.load().then(() => setNotificationsEnabled(notificationService.getSettings().enabled));
+    return notificationService.onSettingsChange(settings => setNotificationsEnabled(settings.enabled));
+  }, []);
+
   // Update local state when route params change
   useEffect(() => {
     if (route.params?.themePreference) {
@@ -77,6 +100,42 @@ function SettingsScreen({ route }: Props) {
     );
   };
 
+  const handleSwitchServer = async (server: ServerProfile) => {
+    if (server.id === activeServer?.id || switchingServerId) return;
+
+    setSwitchingServerId(server.id);
+    try {
+      await switchServer(server.id);
+    } catch (error: any) {
+      Alert.alert('Switch Failed', error.message || `Could not connect to ${server.name}.`);
+    } finally {
+      setSwitchingServerId(null);
+    }
+  };
+
+  const handleRemoveServer = (server: ServerProfile) => {
+    Alert.alert(
+      'Remove Server',
+      `Remove ${server.name}? You will need to log in again to add it back.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          onPress: () => removeServer(server.id),
+          style: 'destructive',
+        },
+      ]
+    );
+  };
+
+  const handleToggleNotifications = async (enabled: boolean) => {
+    try {
+      await notificationService.updateSettings({ enabled });
+    } catch (error: any) {
+      Alert.alert('Notifications', error.message || 'Could not turn on notifications.');
+    }
+  };
+
   const handleTestSentry = () => {
     try {
       // Check if Sentry native module is available
@@ -177,6 +236,38 @@ function SettingsScreen({ route }: Props) {
     </TouchableOpacity>
   );
 
+  const renderServerItem = (server: ServerProfile) => {
+    const isActive = server.id === activeServer?.id;
+    const subtitle = isActive && activeEndpoint
+      ? `${activeEndpoint.kind === 'local' ? 'Local' : 'Remote'} • ${activeEndpoint.url}`
+      : server.localUrl || server.remoteUrl || '';
+
+    return (
+      <TouchableOpacity
+        key={server.id}
+        style={styles.settingItem}
+        onPress={() => handleSwitchServer(server)}
+        onLongPress={() => handleRemoveServer(server)}
+      >
+        <View style={styles.settingLeft}>
+          <Ionicons
+            name={isActive ? 'checkmark-circle' : 'server-outline'}
+            size={24}
+            color={isActive ? theme.colors.primary : theme.colors.secondary}
+            style={styles.settingIcon}
+          />
+          <View style={styles.settingTextContainer}>
+            <Text style={styles.settingTitle}>{server.name}</Text>
+            <Text style={styles.settingSubtitle}>{subtitle}</Text>
+          </View>
+        </View>
+        {switchingServerId === server.id && (
+          <ActivityIndicator size="small" color={theme.colors.primary} />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar 
@@ -207,18 +298,63 @@ function SettingsScreen({ route }: Props) {
           )}
         </View>
 
+        {/* Notifications Section */}
+        {isAuthenticated && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>NOTIFICATIONS</Text>
+            <View style={styles.settingItem}>
+              <View style={styles.settingLeft}>
+                <Ionicons
+                  name="notifications-outline"
+                  size={24}
+                  color={theme.colors.primary}
+                  style={styles.settingIcon}
+                />
+                <View style={styles.settingTextContainer}>
+                  <Text style={styles.settingTitle}>Detection Notifications</Text>
+                  <Text style={styles.settingSubtitle}>Notify on new detections while the app is running</Text>
+                </View>
+              </View>
+              <Switch
+                value={notificationsEnabled}
+                onValueChange={handleToggleNotifications}
+                trackColor={{ true: theme.colors.primary }}
+              />
+            </View>
+            {renderSettingItem(
+              'options-outline',
+              'Notification Rules',
+              'Cameras, objects, zones, schedules and quiet hours',
+              () => navigation.navigate('NotificationSettings')
+            )}
+          </View>
+        )}
+
         {/* Server Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>SERVER</Text>
-          {renderSettingItem(
-            'server-outline',
-            'Frigate Server',
-            'Configured'
+          {servers.length > 0 ? (
+            servers.map(renderServerItem)
+          ) : (
+            renderSettingItem(
+              'server-outline',
+              'Frigate Server',
+              frigateApi.getBaseUrl() || 'Not configured'
+            )
+          )}
+          {servers.length > 1 && (
+            <Text style={styles.serverHint}>Tap to switch servers, long-press to remove</Text>
+          )}
+          {isAuthenticated && renderSettingItem(
+            'add-circle-outline',
+            'Add Server',
+            'Connect to another Frigate instance',
+            () => navigation.navigate('URLSetup', { addServer: true })
           )}
           {renderSettingItem(
             'trash-outline',
             'Clear Server URL',
-            'Remove stored Frigate URL',
+            activeServer ? `Remove ${activeServer.name}` : 'Remove stored Frigate URL',
             handleClearURL,
             true
           )}
@@ -396,6 +532,12 @@ const createStyles = (theme: any) =>
       color: theme.colors.secondary,
       marginTop: 2,
     },
+    serverHint: {
+      fontSize: 12,
+      color: theme.colors.secondary,
+      paddingHorizontal: 20,
+      paddingVertical: 6,
+    },
     destructiveText: {
       color: theme.colors.error,
     },
@@ -9,57 +9,84 @@ import {
   Pressable,
 } from 'react-native';
 import { TextInput, Button, Text, IconButton, HelperText, useTheme } from 'react-native-paper';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import axios from 'axios';
 import * as Sentry from '@sentry/react-native';
+import { findReachableEndpoint, isLocalAddress } from '../services/connectionManager';
+
+/**
+ * Add a protocol (https by default) and, for local IPs without a port, Frigate's
+ * authenticated port 8971. Remote URLs use standard HTTPS port 443 via reverse proxy.
+ */
+const normalizeFrigateUrl = (input: string): string => {
+  let finalUrl = input;
+  if (!finalUrl.startsWith('http://') && !finalUrl.startsWith('https://')) {
+    finalUrl = `https://${finalUrl}`;
+  }
+
+  const urlObj = new URL(finalUrl);
+  const isLocalIP = /^(192\.168\.|10\.|172\.(1[6-9]|2[0-9]|3[01])\.)/.test(urlObj.hostname);
+  
+  if (isLocalIP && !urlObj.port) {
+    // Local IP without port - default to 8971
+    finalUrl = `${urlObj.protocol}//${urlObj.hostname}:8971${urlObj.pathname}`;
+  }
+
+  // Remove trailing slash
+  return finalUrl.replace(/\/$/, '');
+};
 
 export const URLSetupScreen = () => {
   const navigation = useNavigation<any>();
+  const route = useRoute<any>();
   const theme = useTheme();
+  // Opened from Settings to add another server (already logged in)
+  const addServer: boolean = !!route.params?.addServer;
   const [url, setUrl] = useState('');
+  const [remoteUrl, setRemoteUrl] = useState('');
   const [loading, setLoading] = useState(false);
 
   const verifyConnection = async () => {
     const trimmedUrl = url.trim();
+    const trimmedRemoteUrl = remoteUrl.trim();
     
     if (!trimmedUrl) {
       Alert.alert('Error', 'Please enter your Frigate URL');
       return;
     }
 
-    // Add protocol if missing - default to https
-    let finalUrl = trimmedUrl;
-    if (!finalUrl.startsWith('http://') && !finalUrl.startsWith('https://')) {
-      finalUrl = `https://${finalUrl}`;
-    }
-
-    // Only add port 8971 for local IP addresses without a port specified
-    // (Remote URLs use standard HTTPS port 443 via reverse proxy)
-    const urlObj = new URL(finalUrl);
-    const isLocalIP = /^(192\.168\.|10\.|172\.(1[6-9]|2[0-9]|3[01])\.)/.test(urlObj.hostname);
-    
-    if (isLocalIP && !urlObj.port) {
-      // Local IP without port - default to 8971
-      finalUrl = `${urlObj.protocol}//${urlObj.hostname}:8971${urlObj.pathname}`;
+    let finalUrl: string;
+    let finalRemoteUrl: string | undefined;
+    try {
+      finalUrl = normalizeFrigateUrl(trimmedUrl);
+      finalRemoteUrl = trimmedRemoteUrl ? normalizeFrigateUrl(trimmedRemoteUrl) : undefined;
+    } catch (error) {
+      Alert.alert('Error', 'Please enter a valid URL');
+      return;
     }
 
-    // Remove trailing slash
-    finalUrl = finalUrl.replace(/\/$/, '');
-
     console.log('[URLSetup] Verifying connection to:', finalUrl);
     setLoading(true);
 
     try {
+      // Away from home only the remote URL answers - verify whichever is reachable.
+      // A lone URL is probed as local only when it's a LAN address.
+      const endpoint = finalRemoteUrl || isLocalAddress(finalUrl)
+        ? await findReachableEndpoint(finalUrl, finalRemoteUrl)
+        : await findReachableEndpoint(null, finalUrl);
+      // Nothing answered - still try the main URL for a specific error (SSL, 404...)
+      const verifyUrl = endpoint?.url ?? finalUrl;
+
       // Test connection to Frigate using the /login endpoint
       // This endpoint returns 200 OK without authentication (it's the login page)
-      console.log('[URLSetup] Making request to:', `${finalUrl}/login`);
+      console.log('[URLSetup] Making request to:', `${verifyUrl}/login`);
       console.log('[URLSetup] Axios config:', {
         timeout: 10000,
         headers: { 'Accept': '*/*' }
       });
       
-      const response = await axios.get(`${finalUrl}/login`, {
+      const response = await axios.get(`${verifyUrl}/login`, {
         timeout: 10000,
         validateStatus: (status) => status === 200, // Only accept 200 as success
         headers: {
@@ -73,11 +100,11 @@ export const URLSetupScreen = () => {
         category: 'auth',
         message: 'Frigate URL verified',
         level: 'info',
-        data: { url: finalUrl },
+        data: { url: verifyUrl },
       });
 
       // Navigate to login screen with the verified URL
-      navigation.navigate('Login', { frigateUrl: finalUrl });
+      navigation.navigate('Login', { frigateUrl: finalUrl, remoteUrl: finalRemoteUrl, addServer });
       
     } catch (error: any) {
       console.error('[URLSetup] Connection failed:', error.message);
@@ -144,7 +171,7 @@ export const URLSetupScreen = () => {
       } else if (error.response?.status === 401) {
         // This shouldn't happen with /api/ but just in case
         console.log('[URLSetup] Got 401 on health check - proceeding anyway');
-        navigation.navigate('Login', { frigateUrl: finalUrl });
+        navigation.navigate('Login', { frigateUrl: finalUrl, remoteUrl: finalRemoteUrl, addServer });
         setLoading(false);
         return;
       }
@@ -202,6 +229,25 @@ export const URLSetupScreen = () => {
             Enter domain name or IP address. Port 8971 auto-added for local IPs only.
           </HelperText>
 
+          <TextInput
+            label="Remote URL (optional)"
+            value={remoteUrl}
+            onChangeText={setRemoteUrl}
+            mode="outlined"
+            placeholder="frigate.example.com"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            style={styles.input}
+            left={<TextInput.Icon icon="web" />}
+            theme={{
+              roundness: 12,
+            }}
+          />
+          <HelperText type="info" visible>
+            Used automatically when the Frigate URL is unreachable (e.g. away from home).
+          </HelperText>
+
           {/* Unified Action Button */}
           <Pressable
             style={({ pressed }) => [
@@ -213,12 +259,12 @@ export const URLSetupScreen = () => {
             disabled={loading}
           >
             <View style={styles.buttonContainer}>
-              {/* Settings Icon Section */}
+              {/* Settings Icon Section (cancel when adding a server) */}
               <Pressable
                 style={styles.settingsSection}
-                onPress={() => navigation.navigate('Settings')}
+                onPress={() => addServer ? navigation.goBack() : navigation.navigate('Settings')}
               >
-                <MaterialCommunityIcons name="cog" size={24} color="#FFFFFF" />
+                <MaterialCommunityIcons name={addServer ? 'close' : 'cog'} size={24} color="#FFFFFF" />
               </Pressable>
 
               {/* Separator */}
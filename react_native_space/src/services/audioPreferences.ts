@@ -0,0 +1,67 @@
+import { PersistedStore, serverScopedKey } from './persistedStore';
+
+/**
+ * Audio Preferences
+ *
+ * Remembers whether each camera's live audio was last left on, so a camera
+ * the user listens to opens unmuted next time. Every stream starts muted
+ * until the user turns its audio on. Keyed by server as well as camera -
+ * camera names repeat across servers.
+ */
+
+export type AudioPreferenceCallback = (camera: string, muted: boolean) => void;
+
+const AUDIO_PREFERENCES_KEY = 'camera_audio_preferences';
+
+class AudioPreferencesStore {
+  // Keys of cameras with audio turned on
+  private store = new PersistedStore<Set<string>>(AUDIO_PREFERENCES_KEY, new Set(), {
+    name: 'AudioPreferences',
+    description: 'preferences',
+    parse: stored => new Set(JSON.parse(stored)),
+    serialize: unmuted => JSON.stringify(Array.from(unmuted)),
+  });
+  private changeCallbacks: Set<AudioPreferenceCallback> = new Set();
+
+  load(): Promise<void> {
+    return this.store.load();
+  }
+
+  isMuted(camera: string): boolean {
+    return !this.store.get().has(serverScopedKey(camera));
+  }
+
+  async setMuted(camera: string, muted: boolean): Promise<void> {
+    await this.load();
+    const key = serverScopedKey(camera);
+    if (muted === this.isMuted(camera)) return;
+
+    const unmuted = new Set(this.store.get());
+    if (muted) {
+      unmuted.delete(key);
+    } else {
+      unmuted.add(key);
+    }
+    const saved = this.store.set(unmuted);
+
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback(camera, muted);
+      } catch (err) {
+        console.error('[AudioPreferences] Change callback error:', err);
+      }
+    });
+
+    await saved;
+  }
+
+  /**
+   * Subscribe to mute changes, e.g. to keep a thumbnail and the live view in step
+   */
+  onChange(callback: AudioPreferenceCallback): () => void {
+    this.changeCallbacks.add(callback);
+    return () => this.changeCallbacks.delete(callback);
+  }
+}
+
+export const audioPreferences = new AudioPreferencesStore();
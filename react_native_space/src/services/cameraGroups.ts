@@ -0,0 +1,193 @@
+import { frigateApi } from './frigateApi';
+import { PersistedStore, activeServerKey } from './persistedStore';
+import type { FrigateConfig } from './frigateConfig.types';
+
+/**
+ * Camera Groups
+ *
+ * Frigate's camera_groups (read-only here, edited in Frigate's UI) plus groups
+ * defined in the app. Local groups, and the group picked on the dashboard,
+ * are stored per server - camera names repeat across servers. Filters and
+ * notification rules store group ids and expand them to cameras when they
+ * run, so editing a group updates everything that uses it.
+ */
+
+export type CameraGroupSource = 'frigate' | 'local';
+
+export interface CameraGroup {
+  // "frigate:<name>" or "local:<random>"
+  id: string;
+  name: string;
+  cameras: string[];
+  // MaterialCommunityIcons name
+  icon: string;
+  source: CameraGroupSource;
+}
+
+// Group id -> cameras
+export type CameraGroupMap = Record<string, string[]>;
+
+export type CameraGroupsCallback = () => void;
+
+interface StoredServerGroups {
+  groups: CameraGroup[];
+  selectedGroupId: string | null;
+}
+
+const CAMERA_GROUPS_KEY = 'camera_groups';
+
+export const DEFAULT_GROUP_ICON = 'folder-outline';
+
+// Frigate stores Lucide icon names (e.g. "LuCar"); match on keywords
+const FRIGATE_ICON_KEYWORDS: Array<[RegExp, string]> = [
+  [/car|truck/i, 'car'],
+  [/garage/i, 'garage'],
+  [/door/i, 'door'],
+  [/house|home/i, 'home-outline'],
+  [/tree|leaf|flower|sprout/i, 'tree-outline'],
+  [/dog|cat|paw|bird|rabbit/i, 'paw'],
+  [/baby/i, 'baby-face-outline'],
+  [/building|factory|warehouse/i, 'office-building-outline'],
+  [/store|shop/i, 'store-outline'],
+  [/parking|circlep/i, 'parking'],
+  [/fence/i, 'fence'],
+  [/sun/i, 'weather-sunny'],
+  [/moon|night/i, 'weather-night'],
+  [/bell/i, 'bell-outline'],
+  [/shield|lock/i, 'shield-outline'],
+  [/map|compass/i, 'map-outline'],
+  [/camera|cctv|video|cam/i, 'cctv'],
+];
+
+export const getGroupIcon = (frigateIcon: string): string =>
+  FRIGATE_ICON_KEYWORDS.find(([pattern]) => pattern.test(frigateIcon))?.[1] ?? DEFAULT_GROUP_ICON;
+
+/**
+ * Frigate's groups in its own order, limited to cameras that exist
+ * (groups can also list "birdseye")
+ */
+export const getFrigateCameraGroups = (config: FrigateConfig): CameraGroup[] =>
+  Object.values(config.camera_groups)
+    .sort((a, b) => a.order - b.order || a.name.localeCompare(b.name))
+    .map(group => ({
+      id: `frigate:${group.name}`,
+      name: group.name,
+      cameras: group.cameras.filter(camera => camera in config.cameras),
+      icon: getGroupIcon(group.icon),
+      source: 'frigate' as const,
+    }));
+
+export const toCameraGroupMap = (groups: CameraGroup[]): CameraGroupMap =>
+  Object.fromEntries(groups.map(group => [group.id, group.cameras]));
+
+/**
+ * Cameras picked directly plus every camera of the picked groups
+ */
+export const expandCameras = (cameras: string[], groupIds: string[], groups: CameraGroupMap): string[] =>
+  Array.from(new Set([...cameras, ...groupIds.flatMap(id => groups[id] ?? [])]));
+
+export const createCameraGroup = (changes: Partial<CameraGroup> = {}): CameraGroup => ({
+  id: `local:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+  name: 'New Group',
+  cameras: [],
+  icon: DEFAULT_GROUP_ICON,
+  ...changes,
+  source: 'local',
+});
+
+class CameraGroupsStore {
+  // Server id -> that server's groups
+  private servers = new PersistedStore<Record<string, StoredServerGroups>>(CAMERA_GROUPS_KEY, {}, {
+    name: 'CameraGroups',
+    description: 'groups',
+  });
+  private changeCallbacks: Set<CameraGroupsCallback> = new Set();
+
+  load(): Promise<void> {
+    return this.servers.load();
+  }
+
+  private get current(): StoredServerGroups {
+    return this.servers.get()[activeServerKey()] ?? { groups: [], selectedGroupId: null };
+  }
+
+  getLocalGroups(): CameraGroup[] {
+    return this.current.groups;
+  }
+
+  /**
+   * Frigate's groups (from the cached config) followed by the local ones
+   */
+  getGroups(): CameraGroup[] {
+    const config = frigateApi.getCachedConfig();
+    return [...(config ? getFrigateCameraGroups(config) : []), ...this.getLocalGroups()];
+  }
+
+  /**
+   * getGroups() after loading the stored groups and, if needed, the config
+   */
+  async fetchGroups(): Promise<CameraGroup[]> {
+    await this.load();
+    if (!frigateApi.getCachedConfig()) {
+      try {
+        await frigateApi.getConfig();
+      } catch (error) {
+        console.warn('[CameraGroups] Failed to load Frigate camera groups:', error);
+      }
+    }
+    return this.getGroups();
+  }
+
+  getGroupMap(): CameraGroupMap {
+    return toCameraGroupMap(this.getGroups());
+  }
+
+  getSelectedGroupId(): string | null {
+    return this.current.selectedGroupId;
+  }
+
+  async setSelectedGroupId(groupId: string | null): Promise<void> {
+    await this.update(current => ({ ...current, selectedGroupId: groupId }));
+  }
+
+  async saveGroup(group: CameraGroup): Promise<void> {
+    await this.update(current => ({
+      ...current,
+      groups: current.groups.some(existing => existing.id === group.id)
+        ? current.groups.map(existing => (existing.id === group.id ? group : existing))
+        : [...current.groups, group],
+    }));
+  }
+
+  async deleteGroup(groupId: string): Promise<void> {
+    await this.update(current => ({
+      groups: current.groups.filter(group => group.id !== groupId),
+      selectedGroupId: current.selectedGroupId === groupId ? null : current.selectedGroupId,
+    }));
+  }
+
+  /**
+   * Subscribe to group or selection changes
+   */
+  onChange(callback: CameraGroupsCallback): () => void {
+    this.changeCallbacks.add(callback);
+    return () => this.changeCallbacks.delete(callback);
+  }
+
+  private async update(change: (current: StoredServerGroups) => StoredServerGroups): Promise<void> {
+    await this.load();
+    const saved = this.servers.set({ ...this.servers.get(), [activeServerKey()]: change(this.current) });
+
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback();
+      } catch (err) {
+        console.error('[CameraGroups] Change callback error:', err);
+      }
+    });
+
+    await saved;
+  }
+}
+
+export const cameraGroups = new CameraGroupsStore();
@@ -0,0 +1,313 @@
+import axios from 'axios';
+import * as Network from 'expo-network';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+
+// Local probes should answer quickly - if they don't, we're probably not at home
+const LOCAL_PROBE_TIMEOUT = 2500;
+const REMOTE_PROBE_TIMEOUT = 6000;
+
+// Consecutive network failures on the active endpoint before we re-probe
+const FAILURE_THRESHOLD = 2;
+
+// Network changes come in bursts (wifi drops, cellular attaches) - wait for it to settle
+const NETWORK_CHANGE_DEBOUNCE = 1500;
+
+export type EndpointKind = 'local' | 'remote';
+
+export interface ActiveEndpoint {
+  kind: EndpointKind;
+  url: string;
+}
+
+export type EndpointChangeCallback = (endpoint: ActiveEndpoint) => void;
+export type NetworkTypeChangeCallback = (type: Network.NetworkStateType | null) => void;
+
+/**
+ * Connection Manager
+ *
+ * Decides which Frigate URL the app talks to:
+ * - Probes the local URL first (home network, no reverse proxy round trip)
+ * - Falls back to the remote URL when local is unreachable
+ * - Re-evaluates when the network changes, the app returns to the foreground,
+ *   or requests on the active endpoint start failing
+ *
+ * Listeners are notified whenever the active endpoint changes so the API
+ * client, WebSocket and streaming services can follow without a re-login.
+ */
+class ConnectionManager {
+  private localUrl: string | null = null;
+  private remoteUrl: string | null = null;
+  private activeEndpoint: ActiveEndpoint | null = null;
+  private resolvePromise: Promise<ActiveEndpoint | null> | null = null;
+  private consecutiveFailures = 0;
+
+  // Monitoring
+  private networkSubscription: { remove: () => void } | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private networkChangeTimeout: NodeJS.Timeout | null = null;
+  private networkType: Network.NetworkStateType | null = null;
+
+  // Callbacks
+  private changeCallbacks: Set<EndpointChangeCallback> = new Set();
+  private networkTypeCallbacks: Set<NetworkTypeChangeCallback> = new Set();
+
+  /**
+   * Set the local/remote URL pair of the active server profile.
+   * Persistence is the profile store's job (see serverProfiles).
+   */
+  configure(localUrl?: string | null, remoteUrl?: string | null): void {
+    this.localUrl = normalizeUrl(localUrl);
+    this.remoteUrl = normalizeUrl(remoteUrl);
+    this.activeEndpoint = null;
+    this.consecutiveFailures = 0;
+
+    console.log('[Connection] Configured - local:', this.localUrl || 'none', 'remote:', this.remoteUrl || 'none');
+  }
+
+  /**
+   * Forget both URLs and stop monitoring
+   */
+  clear(): void {
+    this.stopMonitoring();
+    this.localUrl = null;
+    this.remoteUrl = null;
+    this.activeEndpoint = null;
+    this.consecutiveFailures = 0;
+  }
+
+  /**
+   * Probe the configured URLs (local first) and activate the first reachable one.
+   * Concurrent callers share the same probe. Resolves to null if nothing answered,
+   * in which case the previous active endpoint is kept.
+   */
+  resolve(): Promise<ActiveEndpoint | null> {
+    if (!this.resolvePromise) {
+      this.resolvePromise = this.probeCandidates().finally(() => {
+        this.resolvePromise = null;
+      });
+    }
+    return this.resolvePromise;
+  }
+
+  private async probeCandidates(): Promise<ActiveEndpoint | null> {
+    const endpoint = await findReachableEndpoint(this.localUrl, this.remoteUrl);
+    if (endpoint) {
+      this.setActiveEndpoint(endpoint);
+    }
+    return endpoint;
+  }
+
+  private setActiveEndpoint(endpoint: ActiveEndpoint): void {
+    this.consecutiveFailures = 0;
+
+    if (this.activeEndpoint?.url === endpoint.url) {
+      return;
+    }
+
+    console.log(`[Connection] Switching to ${endpoint.kind} URL:`, endpoint.url);
+    this.activeEndpoint = endpoint;
+
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback(endpoint);
+      } catch (err) {
+        console.error('[Connection] Endpoint change callback error:', err);
+      }
+    });
+  }
+
+  /**
+   * Called by the API client after a successful request
+   */
+  reportSuccess(): void {
+    this.consecutiveFailures = 0;
+  }
+
+  /**
+   * Called by the API client when a request fails without a response
+   * (timeout, connection refused, DNS failure). After a few in a row we
+   * re-probe, which fails over to the other URL if it is reachable.
+   */
+  reportFailure(): void {
+    this.consecutiveFailures++;
+
+    if (this.consecutiveFailures >= FAILURE_THRESHOLD && this.hasAlternative()) {
+      console.log(`[Connection] ${this.consecutiveFailures} failed requests, re-checking endpoints`);
+      this.consecutiveFailures = 0;
+      this.resolve();
+    }
+  }
+
+  private hasAlternative(): boolean {
+    return !!(this.localUrl && this.remoteUrl && this.localUrl !== this.remoteUrl);
+  }
+
+  /**
+   * Watch network and app state changes and re-probe when they happen
+   */
+  startMonitoring(): void {
+    if (this.networkSubscription) return;
+
+    Network.getNetworkStateAsync()
+      .then(state => {
+        this.setNetworkType(state.type ?? null);
+      })
+      .catch(err => console.warn('[Connection] Failed to read network state:', err));
+
+    try {
+      this.networkSubscription = Network.addNetworkStateListener(state => {
+        const type = state.type ?? null;
+        if (type === this.networkType) return;
+
+        console.log('[Connection] Network changed:', this.networkType, '->', type);
+        this.setNetworkType(type);
+
+        if (state.isConnected) {
+          this.scheduleResolve();
+        }
+      });
+    } catch (err) {
+      console.warn('[Connection] Network listener unavailable:', err);
+    }
+
+    this.appStateSubscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        this.scheduleResolve();
+      }
+    });
+  }
+
+  stopMonitoring(): void {
+    this.networkSubscription?.remove();
+    this.networkSubscription = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+
+    if (this.networkChangeTimeout) {
+      clearTimeout(this.networkChangeTimeout);
+      this.networkChangeTimeout = null;
+    }
+  }
+
+  private setNetworkType(type: Network.NetworkStateType | null): void {
+    if (type === this.networkType) return;
+    this.networkType = type;
+
+    this.networkTypeCallbacks.forEach(callback => {
+      try {
+        callback(type);
+      } catch (err) {
+        console.error('[Connection] Network type callback error:', err);
+      }
+    });
+  }
+
+  private scheduleResolve(): void {
+    if (!this.hasAlternative()) return;
+
+    if (this.networkChangeTimeout) {
+      clearTimeout(this.networkChangeTimeout);
+    }
+    this.networkChangeTimeout = setTimeout(() => {
+      this.networkChangeTimeout = null;
+      this.resolve();
+    }, NETWORK_CHANGE_DEBOUNCE);
+  }
+
+  /**
+   * Subscribe to active endpoint changes
+   */
+  onEndpointChange(callback: EndpointChangeCallback): () => void {
+    this.changeCallbacks.add(callback);
+    return () => this.changeCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribe to network type changes (e.g. Wi-Fi to cellular)
+   */
+  onNetworkTypeChange(callback: NetworkTypeChangeCallback): () => void {
+    this.networkTypeCallbacks.add(callback);
+    return () => this.networkTypeCallbacks.delete(callback);
+  }
+
+  getActiveEndpoint(): ActiveEndpoint | null {
+    return this.activeEndpoint;
+  }
+
+  getLocalUrl(): string | null {
+    return this.localUrl;
+  }
+
+  getRemoteUrl(): string | null {
+    return this.remoteUrl;
+  }
+
+  getNetworkType(): Network.NetworkStateType | null {
+    return this.networkType;
+  }
+}
+
+function normalizeUrl(url?: string | null): string | null {
+  const trimmed = url?.trim().replace(/\/$/, '');
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Any HTTP response (even 401) means the server is reachable
+ */
+async function probe(url: string, timeout: number): Promise<boolean> {
+  try {
+    await axios.get(`${url}/api/version`, {
+      timeout,
+      validateStatus: () => true,
+    });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * LAN hosts (private IPv4 ranges, localhost, mDNS .local names)
+ */
+export function isLocalAddress(url: string): boolean {
+  try {
+    const { hostname } = new URL(url);
+    return /^(localhost|127\.|192\.168\.|10\.|172\.(1[6-9]|2[0-9]|3[01])\.)/.test(hostname)
+      || hostname.endsWith('.local');
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Probe a local/remote URL pair (local first) and return the first reachable
+ * one. Doesn't touch the active endpoint, so it can check a server before it
+ * is saved.
+ */
+export async function findReachableEndpoint(
+  localUrl?: string | null,
+  remoteUrl?: string | null
+): Promise<ActiveEndpoint | null> {
+  const local = normalizeUrl(localUrl);
+  const remote = normalizeUrl(remoteUrl);
+  const candidates: ActiveEndpoint[] = [];
+  if (local) candidates.push({ kind: 'local', url: local });
+  if (remote && remote !== local) {
+    candidates.push({ kind: 'remote', url: remote });
+  }
+
+  for (const candidate of candidates) {
+    const timeout = candidate.kind === 'local' ? LOCAL_PROBE_TIMEOUT : REMOTE_PROBE_TIMEOUT;
+    if (await probe(candidate.url, timeout)) {
+      console.log(`[Connection] ✅ ${candidate.kind} reachable:`, candidate.url);
+      return candidate;
+    }
+    console.log(`[Connection] ${candidate.kind} unreachable:`, candidate.url);
+  }
+
+  console.warn('[Connection] No Frigate URL reachable');
+  return null;
+}
+
+export const connectionManager = new ConnectionManager();
@@ -0,0 +1,288 @@
+import { format } from 'date-fns';
+import { PersistedStore, activeServerKey, serverScopedKey } from './persistedStore';
+import type { Event, EventQuery } from './frigateApi';
+import type { ReviewQuery, ReviewSegment } from './frigateReviewApi';
+import { expandCameras, CameraGroupMap } from './cameraGroups';
+
+/**
+ * Event Filters
+ *
+ * The filters picked on the Events tab, persisted per server (camera and
+ * zone names only mean something on the server they came from), and mapped
+ * onto /api/events and /api/review query parameters. Camera groups are
+ * stored by id and expanded to their cameras when a query is built.
+ */
+
+export type EventTimeRange = 'any' | '1h' | 'today' | '24h' | '7d' | '30d' | 'custom';
+
+export interface EventFilters {
+  cameras: string[];
+  // Camera group ids, combined with the cameras above
+  groups: string[];
+  labels: string[];
+  subLabels: string[];
+  zones: string[];
+  timeRange: EventTimeRange;
+  // Fixed dates for the 'custom' range - Unix timestamps in SECONDS
+  after: number | null;
+  before: number | null;
+  // 0-1, null for any score
+  minScore: number | null;
+  hasClip: boolean;
+  hasSnapshot: boolean;
+  favorites: boolean;
+}
+
+export interface ActiveFilterChip {
+  id: string;
+  label: string;
+  icon: string;
+  // Returns the filters with this one removed
+  remove: (filters: EventFilters) => EventFilters;
+}
+
+export const DEFAULT_EVENT_FILTERS: EventFilters = {
+  cameras: [],
+  groups: [],
+  labels: [],
+  subLabels: [],
+  zones: [],
+  timeRange: 'any',
+  after: null,
+  before: null,
+  minScore: null,
+  hasClip: false,
+  hasSnapshot: false,
+  favorites: false,
+};
+
+export const TIME_RANGE_LABELS: Record<EventTimeRange, string> = {
+  any: 'Any time',
+  '1h': 'Last hour',
+  today: 'Today',
+  '24h': 'Last 24 hours',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  custom: 'Custom',
+};
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+const filtersStore = new PersistedStore<EventFilters>(() => serverScopedKey('event_filters'), DEFAULT_EVENT_FILTERS, {
+  name: 'EventFilters',
+  description: 'filters',
+  // Where filters were kept before they moved to the shared store
+  legacyKey: () => `event_filters_${activeServerKey()}`,
+  parse: stored => ({ ...DEFAULT_EVENT_FILTERS, ...JSON.parse(stored) }),
+});
+
+const formatName = (name: string) => name.replace(/_/g, ' ');
+
+export const loadEventFilters = async (): Promise<EventFilters> => {
+  await filtersStore.load();
+  return filtersStore.get();
+};
+
+export const saveEventFilters = (filters: EventFilters): Promise<void> => filtersStore.set(filters);
+
+/**
+ * Start of a time range as a Unix timestamp in SECONDS (undefined for "any time").
+ * Ranges are relative so a persisted "Last 24 hours" stays meaningful tomorrow.
+ */
+export const getTimeRangeStart = (range: EventTimeRange, now: number = Date.now()): number | undefined => {
+  const nowSeconds = Math.floor(now / 1000);
+  switch (range) {
+    case '1h':
+      return nowSeconds - HOUR;
+    case 'today': {
+      const midnight = new Date(now);
+      midnight.setHours(0, 0, 0, 0);
+      return Math.floor(midnight.getTime() / 1000);
+    }
+    case '24h':
+      return nowSeconds - DAY;
+    case '7d':
+      return nowSeconds - 7 * DAY;
+    case '30d':
+      return nowSeconds - 30 * DAY;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * The after/before bounds (SECONDS) a set of filters asks for: the custom
+ * dates, or the start of a relative preset
+ */
+export const getTimeBounds = (
+  filters: EventFilters,
+  now: number = Date.now()
+): { after?: number; before?: number } => {
+  if (filters.timeRange === 'custom') {
+    return { after: filters.after ?? undefined, before: filters.before ?? undefined };
+  }
+  return { after: getTimeRangeStart(filters.timeRange, now) };
+};
+
+const hasCameraFilter = (filters: EventFilters): boolean =>
+  filters.cameras.length > 0 || filters.groups.length > 0;
+
+/**
+ * Whether the camera filter can't match anything: cameras or groups are
+ * picked, but the groups are gone or empty. Queries would otherwise send an
+ * empty camera list, which Frigate reads as "all cameras".
+ */
+export const matchesNoCameras = (filters: EventFilters, groups: CameraGroupMap = {}): boolean =>
+  hasCameraFilter(filters) && expandCameras(filters.cameras, filters.groups, groups).length === 0;
+
+export const toEventQuery = (filters: EventFilters, groups: CameraGroupMap = {}): EventQuery => ({
+  cameras: expandCameras(filters.cameras, filters.groups, groups),
+  labels: filters.labels,
+  sub_labels: filters.subLabels,
+  zones: filters.zones,
+  ...getTimeBounds(filters),
+  min_score: filters.minScore ?? undefined,
+  has_clip: filters.hasClip || undefined,
+  has_snapshot: filters.hasSnapshot || undefined,
+  favorites: filters.favorites || undefined,
+});
+
+/**
+ * Review items only support camera, label, zone and time filters
+ */
+export const toReviewQuery = (filters: EventFilters, groups: CameraGroupMap = {}): ReviewQuery => ({
+  cameras: expandCameras(filters.cameras, filters.groups, groups),
+  labels: filters.labels,
+  zones: filters.zones,
+  ...getTimeBounds(filters),
+});
+
+/**
+ * Whether a review item pushed over the WebSocket belongs in a filtered list
+ */
+export const reviewMatchesFilters = (
+  review: ReviewSegment,
+  filters: EventFilters,
+  groups: CameraGroupMap = {}
+): boolean => {
+  const cameras = expandCameras(filters.cameras, filters.groups, groups);
+  if (hasCameraFilter(filters) && !cameras.includes(review.camera)) return false;
+  if (filters.labels.length > 0 && !review.data.objects.some(label => filters.labels.includes(label))) return false;
+  if (filters.zones.length > 0 && !review.data.zones.some(zone => filters.zones.includes(zone))) return false;
+
+  const { after, before } = getTimeBounds(filters);
+  if (after !== undefined && review.start_time < after) return false;
+  if (before !== undefined && review.start_time > before) return false;
+  return true;
+};
+
+/**
+ * Whether an event pushed over the WebSocket belongs in a filtered list
+ */
+export const eventMatchesFilters = (event: Event, filters: EventFilters, groups: CameraGroupMap = {}): boolean => {
+  const cameras = expandCameras(filters.cameras, filters.groups, groups);
+  if (hasCameraFilter(filters) && !cameras.includes(event.camera)) return false;
+  if (filters.labels.length > 0 && !filters.labels.includes(event.label)) return false;
+  if (filters.subLabels.length > 0 && !(event.sub_label && filters.subLabels.includes(event.sub_label))) return false;
+  if (filters.zones.length > 0 && !(event.zones ?? []).some(zone => filters.zones.includes(zone))) return false;
+
+  const { after, before } = getTimeBounds(filters);
+  if (after !== undefined && event.start_time < after) return false;
+  if (before !== undefined && event.start_time > before) return false;
+
+  const score = event.data?.top_score ?? event.top_score ?? 0;
+  if (filters.minScore !== null && score < filters.minScore) return false;
+  if (filters.hasClip && !event.has_clip) return false;
+  if (filters.hasSnapshot && !event.has_snapshot) return false;
+  if (filters.favorites && !event.retain_indefinitely) return false;
+  return true;
+};
+
+/**
+ * One removable chip per active filter value. groupNames maps group ids to
+ * display names.
+ */
+export const getActiveFilterChips = (
+  filters: EventFilters,
+  groupNames: Record<string, string> = {}
+): ActiveFilterChip[] => {
+  const chips: ActiveFilterChip[] = [];
+
+  for (const groupId of filters.groups) {
+    chips.push({
+      id: `groups:${groupId}`,
+      label: groupNames[groupId] ?? 'Deleted group',
+      icon: 'folder-outline',
+      remove: (current) => ({ ...current, groups: current.groups.filter(item => item !== groupId) }),
+    });
+  }
+
+  const listChips = (key: 'cameras' | 'labels' | 'subLabels' | 'zones', icon: string) => {
+    for (const value of filters[key]) {
+      chips.push({
+        id: `${key}:${value}`,
+        label: formatName(value),
+        icon,
+        remove: (current) => ({ ...current, [key]: current[key].filter(item => item !== value) }),
+      });
+    }
+  };
+
+  listChips('cameras', 'cctv');
+  listChips('labels', 'tag-outline');
+  listChips('subLabels', 'account-outline');
+  listChips('zones', 'vector-square');
+
+  if (filters.timeRange === 'custom') {
+    const from = filters.after !== null ? format(filters.after * 1000, 'd MMM') : '…';
+    const to = filters.before !== null ? format(filters.before * 1000, 'd MMM') : '…';
+    chips.push({
+      id: 'timeRange',
+      label: from === to ? from : `${from} – ${to}`,
+      icon: 'calendar-range',
+      remove: (current) => ({ ...current, timeRange: 'any', after: null, before: null }),
+    });
+  } else if (filters.timeRange !== 'any') {
+    chips.push({
+      id: 'timeRange',
+      label: TIME_RANGE_LABELS[filters.timeRange],
+      icon: 'calendar-range',
+      remove: (current) => ({ ...current, timeRange: 'any' }),
+    });
+  }
+  if (filters.minScore !== null) {
+    chips.push({
+      id: 'minScore',
+      label: `≥ ${Math.round(filters.minScore * 100)}%`,
+      icon: 'percent-outline',
+      remove: (current) => ({ ...current, minScore: null }),
+    });
+  }
+  if (filters.hasClip) {
+    chips.push({
+      id: 'hasClip',
+      label: 'Has clip',
+      icon: 'filmstrip',
+      remove: (current) => ({ ...current, hasClip: false }),
+    });
+  }
+  if (filters.hasSnapshot) {
+    chips.push({
+      id: 'hasSnapshot',
+      label: 'Has snapshot',
+      icon: 'image-outline',
+      remove: (current) => ({ ...current, hasSnapshot: false }),
+    });
+  }
+  if (filters.favorites) {
+    chips.push({
+      id: 'favorites',
+      label: 'Favorites',
+      icon: 'star',
+      remove: (current) => ({ ...current, favorites: false }),
+    });
+  }
+
+  return chips;
+};
@@ -0,0 +1,37 @@
+/**
+ * Event Paging
+ *
+ * Older pages of events and review items are fetched with a `before` cursor
+ * at the oldest item loaded so far. Frigate's before is exclusive, so the
+ * cursor is nudged forward to keep items sharing that timestamp, and the
+ * repeats it brings back are dropped when the page is appended. All times
+ * are Unix timestamps in SECONDS.
+ */
+
+export const PAGE_SIZE = 50;
+
+const PAGE_CURSOR_EPSILON = 0.001;
+
+export interface AppendedPage<T> {
+  items: T[];
+  hasMore: boolean;
+}
+
+/**
+ * `before` for the page after one whose oldest item started at oldestStartTime
+ */
+export const getPageCursor = (oldestStartTime: number): number => oldestStartTime + PAGE_CURSOR_EPSILON;
+
+/**
+ * Append a page, skipping anything already in the list (pages can overlap
+ * when items share a start time or arrived over the WebSocket). A short page,
+ * or one of nothing but repeats, means the cursor can't move any further.
+ */
+export const appendPage = <T extends { id: string }>(existing: T[], page: T[]): AppendedPage<T> => {
+  const seen = new Set(existing.map(item => item.id));
+  const added = page.filter(item => !seen.has(item.id));
+  return {
+    items: [...existing, ...added],
+    hasMore: page.length >= PAGE_SIZE && added.length > 0,
+  };
+};
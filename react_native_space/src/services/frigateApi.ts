@@ -1,7 +1,12 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import * as SecureStore from 'expo-secure-store';
+import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import * as Sentry from '@sentry/react-native';
 import { Platform } from 'react-native';
+import { connectionManager, ActiveEndpoint, isLocalAddress } from './connectionManager';
+import { serverProfiles, getDefaultServerName, ServerProfile } from './serverProfiles';
+import { parseFrigateConfig, getSortedCameras } from './frigateConfig';
+import type { FrigateConfig, CameraConfig } from './frigateConfig.types';
+
+export type { FrigateConfig, CameraConfig } from './frigateConfig.types';
 
 // CookieManager only works on native platforms (iOS/Android), not web
 let CookieManager: any = null;
@@ -9,18 +14,11 @@ if (Platform.OS !== 'web') {
   CookieManager = require('@react-native-cookies/cookies').default;
 }
 
-const FRIGATE_URL_KEY = 'frigate_url';
-const FRIGATE_USERNAME_KEY = 'frigate_username';
-const FRIGATE_PASSWORD_KEY = 'frigate_password';
-const FRIGATE_JWT_TOKEN_KEY = 'frigate_jwt_token';
-
-export interface FrigateConfig {
-  cameras: Record<string, any>;
-}
-
 export interface Camera {
   name: string;
   enabled: boolean;
+  // Shown on Frigate's own dashboard (ui.dashboard)
+  dashboard: boolean;
 }
 
 export interface Event {
@@ -32,6 +30,56 @@ export interface Event {
   has_clip: boolean;
   has_snapshot: boolean;
   thumbnail?: string;
+  sub_label?: string | null;
+  zones?: string[];
+  // Kept until un-retained, regardless of retention settings (favorites in Frigate's UI)
+  retain_indefinitely?: boolean;
+  // Deprecated in 0.14 in favour of data.top_score
+  top_score?: number | null;
+  data?: {
+    score?: number;
+    top_score?: number;
+    description?: string | null;
+  };
+}
+
+/**
+ * Apply a partial update to an event, merging the nested data object
+ */
+export const mergeEventChanges = (event: Event, changes: Partial<Event>): Event => ({
+  ...event,
+  ...changes,
+  data: changes.data ? { ...event.data, ...changes.data } : event.data,
+});
+
+/**
+ * /api/events query. Lists are sent comma-separated, booleans as 1/0.
+ */
+export interface EventQuery {
+  camera?: string;
+  label?: string;
+  cameras?: string[];
+  labels?: string[];
+  sub_labels?: string[];
+  zones?: string[];
+  // Unix timestamps in SECONDS
+  after?: number;
+  before?: number;
+  min_score?: number;
+  has_clip?: boolean;
+  has_snapshot?: boolean;
+  favorites?: boolean;
+  limit?: number;
+}
+
+/**
+ * ONVIF PTZ capabilities from /api/:camera/ptz/info
+ */
+export interface PtzInfo {
+  name: string;
+  // 'pt' (pan/tilt), 'zoom', and relative/absolute variants ('pt-r', 'zoom-r', 'zoom-a', 'pt-r-fov')
+  features: string[];
+  presets: string[];
 }
 
 interface LoginResponse {
@@ -39,146 +87,119 @@ interface LoginResponse {
   token?: string;
 }
 
+export type BaseUrlChangeCallback = (baseUrl: string) => void;
+export type TokenChangeCallback = (token: string) => void;
+export type ServerChangeCallback = (profile: ServerProfile) => void;
+// changes is null when the event was deleted
+export type EventUpdateCallback = (eventId: string, changes: Partial<Event> | null) => void;
+
+// Refresh this long before the JWT's exp claim so in-flight requests don't race expiry
+const TOKEN_REFRESH_MARGIN = 60 * 1000;
+
+// Short-lived tokens refresh halfway through their lifetime instead, but never sooner than this
+const MIN_TOKEN_REFRESH_DELAY = 10 * 1000;
+
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_DELAY = 2147483647;
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _authRetry?: boolean;
+}
+
+/**
+ * Read the exp claim (seconds since epoch) from a JWT without verifying it
+ */
+const decodeJwtExpiry = (token: string): number | null => {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const claims = JSON.parse(atob(padded));
+    return typeof claims.exp === 'number' ? claims.exp : null;
+  } catch (error) {
+    return null;
+  }
+};
+
 class FrigateApiService {
   private client: AxiosInstance | null = null;
   private baseUrl: string = '';
   private jwtToken: string | null = null;
   private username: string = '';
   private password: string = '';
+  private baseUrlCallbacks: Set<BaseUrlChangeCallback> = new Set();
+  private configCache: FrigateConfig | null = null;
+  private refreshPromise: Promise<string> | null = null;
+  private refreshTimeout: NodeJS.Timeout | null = null;
+  private tokenCallbacks: Set<TokenChangeCallback> = new Set();
+  // Profile the in-memory session belongs to (null while logging in)
+  private profileId: string | null = null;
+  private lastProfileId: string | null = null;
+  private serverCallbacks: Set<ServerChangeCallback> = new Set();
+  private eventUpdateCallbacks: Set<EventUpdateCallback> = new Set();
+
+  constructor() {
+    connectionManager.onEndpointChange((endpoint) => {
+      this.handleEndpointChange(endpoint);
+    });
+  }
 
   async login(
     username: string, 
     password: string, 
     frigateUrl: string,
     localUrl?: string,
-    remoteUrl?: string
+    remoteUrl?: string,
+    serverName?: string
   ): Promise<void> {
     try {
+      // Drop the current server's session so an endpoint switch during the
+      // probe can't carry its token over to the new server
+      this.resetSession();
       this.username = username;
       this.password = password;
       this.baseUrl = frigateUrl.replace(/\/$/, '');
-      // Store local/remote URLs for URL switching feature
-      (this as any).localUrl = localUrl?.replace(/\/$/, '');
-      (this as any).remoteUrl = remoteUrl?.replace(/\/$/, '');
+
+      // Pick whichever of the local/remote URLs is reachable right now. A lone
+      // URL only counts as local when it's a LAN address.
+      const primaryUrl = localUrl || frigateUrl;
+      if (remoteUrl || isLocalAddress(primaryUrl)) {
+        connectionManager.configure(primaryUrl, remoteUrl);
+      } else {
+        connectionManager.configure(null, primaryUrl);
+      }
+      const endpoint = await connectionManager.resolve();
+      if (endpoint) {
+        this.baseUrl = endpoint.url;
+      }
 
       console.log('[FrigateAPI] Attempting login to:', `${this.baseUrl}/api/login`);
       console.log('[FrigateAPI] Username:', username);
       
       try {
-        const response = await axios.post(
-          `${this.baseUrl}/api/login`,
-          { user: username, password },
-          { 
-            timeout: 10000,
-            withCredentials: true,
-            headers: {
-              'Content-Type': 'application/json',
-            }
-          }
-        );
-
-        console.log('[FrigateAPI] Login response status:', response.status);
-        console.log('[FrigateAPI] Login response data:', JSON.stringify(response.data));
-        console.log('[FrigateAPI] Response headers:', JSON.stringify(response.headers, null, 2));
-        
-        // Frigate returns JWT in a cookie called "frigate_token"
-        let token = null;
-        
-        // CRITICAL: axios and CookieManager use SEPARATE cookie storage in React Native
-        // We must parse the Set-Cookie header directly from the response
-        const setCookieHeader = response.headers['set-cookie'];
-        console.log('[FrigateAPI] Set-Cookie header:', setCookieHeader);
-        
-        if (setCookieHeader) {
-          // Set-Cookie can be a string or array
-          const cookies = Array.isArray(setCookieHeader) ? setCookieHeader : [setCookieHeader];
-          console.log('[FrigateAPI] Parsing cookies:', cookies);
-          
-          // Find frigate_token cookie
-          for (const cookie of cookies) {
-            const match = cookie.match(/frigate_token=([^;]+)/);
-            if (match) {
-              token = match[1];
-              console.log('[FrigateAPI] Extracted token from Set-Cookie header (length:', token.length, ')');
-              
-              // Also store in CookieManager for WebView to use
-              if (CookieManager && Platform.OS !== 'web') {
-                try {
-                  const urlObj = new URL(this.baseUrl);
-                  await CookieManager.set(urlObj.origin, {
-                    name: 'frigate_token',
-                    value: token,
-                    path: '/',
-                    secure: urlObj.protocol === 'https:',
-                    httpOnly: false, // WebView needs to access it
-                  });
-                  console.log('[FrigateAPI] Stored token in CookieManager for WebView');
-                } catch (error) {
-                  console.warn('[FrigateAPI] Failed to store in CookieManager:', error);
-                }
-              }
-              break;
-            }
-          }
-        }
-        
-        // On web or if CookieManager failed, try to extract token from response body
-        if (!token) {
-          token = response.data?.access_token || 
-                  response.data?.token || 
-                  response.data?.jwt ||
-                  response.data?.accessToken;
-          
-          if (token) {
-            console.log('[FrigateAPI] Found token in response body (length:', token.length, ')');
-          } else {
-            // On web, cookies are automatically managed by the browser
-            // We'll assume authentication succeeded if we got a 200 response
-            if (Platform.OS === 'web') {
-              console.log('[FrigateAPI] Web platform: cookies managed by browser, assuming auth successful');
-              // Create a dummy token for web (won't be used, cookies handle auth)
-              token = 'web-cookie-auth';
-            }
-          }
-        }
-        
-        if (!token) {
-          const errorMsg = 'No authentication token received from Frigate';
-          console.error('[FrigateAPI]', errorMsg);
-          console.error('[FrigateAPI] Response data:', JSON.stringify(response.data, null, 2));
-          Sentry.captureMessage(errorMsg, {
-            level: 'error',
-            extra: { 
-              response: response.data,
-              frigateUrl: this.baseUrl
-            }
-          });
-          throw new Error(errorMsg);
-        }
-        
-        console.log('[FrigateAPI] Successfully extracted token (length:', token.length, ')');
-
-        this.jwtToken = token;
-
-        // Store credentials securely
-        await SecureStore.setItemAsync(FRIGATE_URL_KEY, this.baseUrl);
-        await SecureStore.setItemAsync(FRIGATE_USERNAME_KEY, username);
-        await SecureStore.setItemAsync(FRIGATE_PASSWORD_KEY, password);
-        await SecureStore.setItemAsync(FRIGATE_JWT_TOKEN_KEY, token);
+        const token = await this.requestToken(username, password);
+        await this.applyToken(token);
 
         // Create axios instance with JWT token
-        this.client = axios.create({
-          baseURL: this.baseUrl,
-          timeout: 30000,
-          headers: {
-            'Authorization': `Bearer ${this.jwtToken}`,
-          },
-          withCredentials: true,
-        });
+        this.client = this.createClient();
 
         console.log('[FrigateAPI] Testing connection with /api/config...');
         await this.getConfig();
-        console.log('[FrigateAPI] Login successful!');
+
+        // Only save the server once it has actually worked
+        const profile = await serverProfiles.upsertProfile({
+          name: serverName?.trim() || getDefaultServerName(localUrl || frigateUrl),
+          localUrl: connectionManager.getLocalUrl(),
+          remoteUrl: connectionManager.getRemoteUrl(),
+          username,
+        });
+        await serverProfiles.saveCredentials(profile.id, password, this.jwtToken);
+        await this.activateProfile(profile.id);
+
+        connectionManager.startMonitoring();
+        console.log('[FrigateAPI] Login successful! Server:', profile.name);
         
       } catch (loginError: any) {
         console.error('[FrigateAPI] Login failed:', loginError.response?.status, loginError.message);
@@ -224,71 +245,511 @@ class FrigateApiService {
     }
   }
 
+  /**
+   * POST /api/login and pull the JWT out of the response
+   */
+  private async requestToken(username: string, password: string): Promise<string> {
+    const response = await axios.post(
+      `${this.baseUrl}/api/login`,
+      { user: username, password },
+      { 
+        timeout: 10000,
+        withCredentials: true,
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      }
+    );
+
+    console.log('[FrigateAPI] Login response status:', response.status);
+    console.log('[FrigateAPI] Login response data:', JSON.stringify(response.data));
+    console.log('[FrigateAPI] Response headers:', JSON.stringify(response.headers, null, 2));
+    
+    // Frigate returns JWT in a cookie called "frigate_token"
+    let token: string | null = null;
+    
+    // CRITICAL: axios and CookieManager use SEPARATE cookie storage in React Native
+    // We must parse the Set-Cookie header directly from the response
+    const setCookieHeader = response.headers['set-cookie'];
+    console.log('[FrigateAPI] Set-Cookie header:', setCookieHeader);
+    
+    if (setCookieHeader) {
+      // Set-Cookie can be a string or array
+      const cookies = Array.isArray(setCookieHeader) ? setCookieHeader : [setCookieHeader];
+      console.log('[FrigateAPI] Parsing cookies:', cookies);
+      
+      // Find frigate_token cookie
+      for (const cookie of cookies) {
+        const match = cookie.match(/frigate_token=([^;]+)/);
+        if (match) {
+          token = match[1];
+          console.log('[FrigateAPI] Extracted token from Set-Cookie header (length:', token.length, ')');
+          
+          // Also store in CookieManager for WebView to use
+          await this.storeTokenCookie(token);
+          break;
+        }
+      }
+    }
+    
+    // On web or if CookieManager failed, try to extract token from response body
+    if (!token) {
+      token = response.data?.access_token || 
+              response.data?.token || 
+              response.data?.jwt ||
+              response.data?.accessToken;
+      
+      if (token) {
+        console.log('[FrigateAPI] Found token in response body (length:', token.length, ')');
+      } else {
+        // On web, cookies are automatically managed by the browser
+        // We'll assume authentication succeeded if we got a 200 response
+        if (Platform.OS === 'web') {
+          console.log('[FrigateAPI] Web platform: cookies managed by browser, assuming auth successful');
+          // Create a dummy token for web (won't be used, cookies handle auth)
+          token = 'web-cookie-auth';
+        }
+      }
+    }
+    
+    if (!token) {
+      const errorMsg = 'No authentication token received from Frigate';
+      console.error('[FrigateAPI]', errorMsg);
+      console.error('[FrigateAPI] Response data:', JSON.stringify(response.data, null, 2));
+      Sentry.captureMessage(errorMsg, {
+        level: 'error',
+        extra: { 
+          response: response.data,
+          frigateUrl: this.baseUrl
+        }
+      });
+      throw new Error(errorMsg);
+    }
+    
+    console.log('[FrigateAPI] Successfully extracted token (length:', token.length, ')');
+
+    return token;
+  }
+
+  /**
+   * Restore the active server profile's session (or the first saved server
+   * if none is active). Re-logs in with the stored password if the token is stale.
+   */
   async restoreSession(): Promise<boolean> {
     try {
-      const url = await SecureStore.getItemAsync(FRIGATE_URL_KEY);
-      const username = await SecureStore.getItemAsync(FRIGATE_USERNAME_KEY);
-      const password = await SecureStore.getItemAsync(FRIGATE_PASSWORD_KEY);
-      const token = await SecureStore.getItemAsync(FRIGATE_JWT_TOKEN_KEY);
+      await serverProfiles.load();
+      const profile = serverProfiles.getActiveProfile() ?? serverProfiles.getProfiles()[0];
+      if (!profile) return false;
+
+      const { password, token } = await serverProfiles.getCredentials(profile.id);
+      const storedUrl = profile.localUrl || profile.remoteUrl;
+      if (!storedUrl) return false;
+
+      const relogin = async (url: string): Promise<boolean> => {
+        if (!profile.username || !password) return false;
+        await this.login(
+          profile.username,
+          password,
+          url,
+          profile.localUrl || undefined,
+          profile.remoteUrl || undefined,
+          profile.name
+        );
+        return true;
+      };
+
+      // No token saved (or it was cleared) - sign in again silently with the password
+      if (!token) {
+        return await relogin(storedUrl);
+      }
 
-      if (!token || !url) return false;
+      this.resetSession();
+      connectionManager.configure(profile.localUrl, profile.remoteUrl);
+
+      // Prefer whichever URL is reachable from the current network
+      const endpoint = await connectionManager.resolve();
+      const url = endpoint?.url || storedUrl;
 
       this.baseUrl = url;
-      this.username = username || '';
+      this.username = profile.username;
       this.password = password || '';
       this.jwtToken = token;
+      this.profileId = profile.id;
 
       // Create axios instance with stored JWT
-      this.client = axios.create({
-        baseURL: this.baseUrl,
-        timeout: 30000,
-        headers: {
-          'Authorization': `Bearer ${this.jwtToken}`,
-        },
-        withCredentials: true,
-      });
+      this.client = this.createClient();
+      this.scheduleTokenRefresh();
 
       // Test if token is still valid
       try {
         await this.getConfig();
+        await this.activateProfile(profile.id);
+        connectionManager.startMonitoring();
         return true;
       } catch (error: any) {
         // Token expired or invalid, try to re-login if we have credentials
-        if (username && password && url) {
-          await this.login(username, password, url);
-          return true;
-        }
-        return false;
+        return await relogin(url);
       }
     } catch (error) {
       return false;
     }
   }
 
+  /**
+   * Switch to another saved server. If it can't be reached the previous
+   * server's session is restored and the error is rethrown.
+   */
+  async switchServer(profileId: string): Promise<void> {
+    const profile = serverProfiles.getProfile(profileId);
+    if (!profile) {
+      throw new Error('Unknown Frigate server');
+    }
+
+    const previousId = this.profileId;
+    if (previousId === profileId && this.client) return;
+
+    console.log('[FrigateAPI] Switching server to:', profile.name);
+    await serverProfiles.setActiveProfile(profileId);
+
+    if (!(await this.restoreSession())) {
+      if (previousId) {
+        await serverProfiles.setActiveProfile(previousId);
+        await this.restoreSession();
+      }
+      throw new Error(`Cannot reach ${profile.name}. Check that it's running and you're signed in.`);
+    }
+  }
+
+  /**
+   * Log out of the active server and forget it
+   */
   async clearSession(): Promise<void> {
-    // Clear cookies (native platforms only)
-    if (CookieManager && this.baseUrl && Platform.OS !== 'web') {
-      try {
-        const urlObj = new URL(this.baseUrl);
-        await CookieManager.clearByName(urlObj.origin, 'frigate_token');
-        console.log('[FrigateAPI] Cleared frigate_token cookie');
-      } catch (error) {
-        console.error('[FrigateAPI] Error clearing cookies:', error);
+    // Clear cookies for every URL we may have stored a token for (native platforms only)
+    if (CookieManager && Platform.OS !== 'web') {
+      const urls = new Set(
+        [this.baseUrl, connectionManager.getLocalUrl(), connectionManager.getRemoteUrl()]
+          .filter((url): url is string => !!url)
+      );
+      for (const url of urls) {
+        try {
+          const urlObj = new URL(url);
+          await CookieManager.clearByName(urlObj.origin, 'frigate_token');
+          console.log('[FrigateAPI] Cleared frigate_token cookie for', urlObj.origin);
+        } catch (error) {
+          console.error('[FrigateAPI] Error clearing cookies:', error);
+        }
       }
     }
     
     // Clear stored credentials
-    await SecureStore.deleteItemAsync(FRIGATE_URL_KEY);
-    await SecureStore.deleteItemAsync(FRIGATE_USERNAME_KEY);
-    await SecureStore.deleteItemAsync(FRIGATE_PASSWORD_KEY);
-    await SecureStore.deleteItemAsync(FRIGATE_JWT_TOKEN_KEY);
-    
-    // Reset state
+    const profileId = this.profileId ?? serverProfiles.getActiveProfileId();
+    if (profileId) {
+      await serverProfiles.removeProfile(profileId);
+    }
+    connectionManager.clear();
+    this.resetSession();
+  }
+
+  private resetSession(): void {
+    if (this.refreshTimeout) {
+      clearTimeout(this.refreshTimeout);
+      this.refreshTimeout = null;
+    }
+    this.refreshPromise = null;
     this.client = null;
     this.baseUrl = '';
     this.jwtToken = null;
     this.username = '';
     this.password = '';
+    this.configCache = null;
+    this.profileId = null;
+  }
+
+  /**
+   * Mark a profile as the one this session belongs to and tell listeners
+   * when that's a different server from before
+   */
+  private async activateProfile(profileId: string): Promise<void> {
+    this.profileId = profileId;
+    await serverProfiles.setActiveProfile(profileId);
+
+    if (profileId === this.lastProfileId) return;
+    this.lastProfileId = profileId;
+
+    const profile = serverProfiles.getProfile(profileId);
+    if (!profile) return;
+    this.serverCallbacks.forEach(callback => {
+      try {
+        callback(profile);
+      } catch (err) {
+        console.error('[FrigateAPI] Server change callback error:', err);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to active server changes - cameras, events and caches from the
+   * previous server are no longer valid when this fires
+   */
+  onServerChange(callback: ServerChangeCallback): () => void {
+    this.serverCallbacks.add(callback);
+    return () => this.serverCallbacks.delete(callback);
+  }
+
+  getActiveServer(): ServerProfile | null {
+    return this.profileId ? serverProfiles.getProfile(this.profileId) : null;
+  }
+
+  /**
+   * Create the axios instance for the active URL. Requests that fail without
+   * a response are reported to the connection manager so it can fail over.
+   */
+  private createClient(): AxiosInstance {
+    const client = axios.create({
+      baseURL: this.baseUrl,
+      timeout: 30000,
+      headers: {
+        'Authorization': `Bearer ${this.jwtToken}`,
+      },
+      withCredentials: true,
+    });
+
+    // Hold requests while a refresh is in flight (or about to be needed)
+    client.interceptors.request.use(async (config) => {
+      await this.ensureValidToken();
+      if (this.jwtToken) {
+        config.headers.Authorization = `Bearer ${this.jwtToken}`;
+      }
+      return config;
+    });
+
+    client.interceptors.response.use(
+      (response) => {
+        connectionManager.reportSuccess();
+        return response;
+      },
+      async (error: AxiosError) => {
+        if (!error.response) {
+          connectionManager.reportFailure();
+          return Promise.reject(error);
+        }
+
+        // Token expired mid-session - log in again once and replay the request
+        const config = error.config as RetriableRequestConfig | undefined;
+        if (error.response.status === 401 && config && !config._authRetry && this.canRefreshToken()) {
+          config._authRetry = true;
+          try {
+            await this.refreshToken();
+          } catch (refreshError) {
+            console.error('[FrigateAPI] Silent re-authentication failed:', refreshError);
+            return Promise.reject(error);
+          }
+          return client(config);
+        }
+
+        return Promise.reject(error);
+      }
+    );
+
+    return client;
+  }
+
+  private canRefreshToken(): boolean {
+    return !!(this.username && this.password && this.baseUrl);
+  }
+
+  private isTokenExpiring(): boolean {
+    if (!this.jwtToken) return false;
+    const expiry = decodeJwtExpiry(this.jwtToken);
+    return expiry !== null && expiry * 1000 - Date.now() < TOKEN_REFRESH_MARGIN;
+  }
+
+  /**
+   * Wait for an in-flight refresh, or start one if the token is about to expire
+   */
+  private async ensureValidToken(): Promise<void> {
+    try {
+      if (this.refreshPromise) {
+        await this.refreshPromise;
+      } else if (this.isTokenExpiring() && this.canRefreshToken()) {
+        await this.refreshToken();
+      }
+    } catch (error) {
+      // The request goes out with the old token and the 401 handler takes over
+    }
+  }
+
+  /**
+   * Log in again with the stored credentials. Concurrent callers share one
+   * login request, so a burst of 401s only re-authenticates once.
+   */
+  refreshToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<string> {
+    if (!this.canRefreshToken()) {
+      throw new Error('Session expired. Please login again.');
+    }
+
+    console.log('[FrigateAPI] Refreshing JWT token...');
+    const token = await this.requestToken(this.username, this.password);
+    await this.applyToken(token);
+    console.log('[FrigateAPI] JWT token refreshed');
+
+    Sentry.addBreadcrumb({
+      category: 'auth',
+      message: 'JWT token refreshed',
+      level: 'info',
+    });
+
+    return token;
+  }
+
+  /**
+   * Make a new token current everywhere: client headers, the server profile,
+   * the refresh timer and anything holding token-bearing URLs
+   */
+  private async applyToken(token: string): Promise<void> {
+    const changed = token !== this.jwtToken;
+    this.jwtToken = token;
+
+    if (this.client) {
+      this.client.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+    }
+    if (this.profileId) {
+      await serverProfiles.saveToken(this.profileId, token);
+    }
+    this.scheduleTokenRefresh();
+
+    if (changed) {
+      this.tokenCallbacks.forEach(callback => {
+        try {
+          callback(token);
+        } catch (err) {
+          console.error('[FrigateAPI] Token callback error:', err);
+        }
+      });
+    }
+  }
+
+  /**
+   * Refresh proactively shortly before the JWT expires
+   */
+  private scheduleTokenRefresh(): void {
+    if (this.refreshTimeout) {
+      clearTimeout(this.refreshTimeout);
+      this.refreshTimeout = null;
+    }
+
+    const expiry = this.jwtToken ? decodeJwtExpiry(this.jwtToken) : null;
+    if (expiry === null) return;
+
+    const remaining = expiry * 1000 - Date.now();
+    const delay = Math.max(remaining - Math.min(TOKEN_REFRESH_MARGIN, remaining / 2), MIN_TOKEN_REFRESH_DELAY);
+    console.log('[FrigateAPI] Token expires', new Date(expiry * 1000).toLocaleString(), '- refreshing in', Math.round(delay / 1000), 's');
+
+    this.refreshTimeout = setTimeout(() => {
+      this.refreshTimeout = null;
+      this.refreshToken().catch(err => {
+        console.error('[FrigateAPI] Scheduled token refresh failed:', err);
+      });
+    }, Math.min(delay, MAX_TIMER_DELAY));
+  }
+
+  /**
+   * Subscribe to token refreshes - token-bearing URLs (thumbnails, clips,
+   * recordings, HLS) must be rebuilt when this fires
+   */
+  onTokenChange(callback: TokenChangeCallback): () => void {
+    this.tokenCallbacks.add(callback);
+    return () => this.tokenCallbacks.delete(callback);
+  }
+
+  /**
+   * fetch() with the current JWT for services that don't use the axios client.
+   * Mirrors the client interceptors: waits for refreshes and retries once on 401.
+   */
+  async fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+    await this.ensureValidToken();
+
+    const doFetch = () => fetch(url, {
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string> | undefined),
+        Authorization: `Bearer ${this.jwtToken}`,
+      },
+    });
+
+    const response = await doFetch();
+    if (response.status === 401 && this.canRefreshToken()) {
+      try {
+        await this.refreshToken();
+      } catch (error) {
+        console.error('[FrigateAPI] Silent re-authentication failed:', error);
+        return response;
+      }
+      return doFetch();
+    }
+
+    return response;
+  }
+
+  /**
+   * Store the JWT as a cookie for the active URL so WebViews are authenticated
+   */
+  private async storeTokenCookie(token: string): Promise<void> {
+    if (!CookieManager || Platform.OS === 'web') return;
+
+    try {
+      const urlObj = new URL(this.baseUrl);
+      await CookieManager.set(urlObj.origin, {
+        name: 'frigate_token',
+        value: token,
+        path: '/',
+        secure: urlObj.protocol === 'https:',
+        httpOnly: false, // WebView needs to access it
+      });
+      console.log('[FrigateAPI] Stored token in CookieManager for WebView');
+    } catch (error) {
+      console.warn('[FrigateAPI] Failed to store in CookieManager:', error);
+    }
+  }
+
+  /**
+   * Swap the client over to a new active URL without re-authenticating
+   */
+  private async handleEndpointChange(endpoint: ActiveEndpoint): Promise<void> {
+    // Not logged in yet (or mid-login) - login() picks up the endpoint itself
+    if (!this.client || !this.jwtToken || endpoint.url === this.baseUrl) {
+      return;
+    }
+
+    console.log(`[FrigateAPI] Switching to ${endpoint.kind} URL:`, endpoint.url);
+    this.baseUrl = endpoint.url;
+    this.client = this.createClient();
+    await this.storeTokenCookie(this.jwtToken);
+
+    this.baseUrlCallbacks.forEach(callback => {
+      try {
+        callback(this.baseUrl);
+      } catch (err) {
+        console.error('[FrigateAPI] Base URL callback error:', err);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to active URL changes (local <-> remote)
+   */
+  onBaseUrlChange(callback: BaseUrlChangeCallback): () => void {
+    this.baseUrlCallbacks.add(callback);
+    return () => this.baseUrlCallbacks.delete(callback);
   }
 
   private ensureClient(): AxiosInstance {
@@ -301,7 +762,20 @@ class FrigateApiService {
   async getConfig(): Promise<FrigateConfig> {
     const client = this.ensureClient();
     const response = await client.get('/api/config');
-    return response.data;
+    this.configCache = parseFrigateConfig(response.data);
+    return this.configCache;
+  }
+
+  /**
+   * Last config fetched by getConfig(), without a network round trip
+   */
+  getCachedConfig(): FrigateConfig | null {
+    return this.configCache;
+  }
+
+  async getCameraConfig(cameraName: string): Promise<CameraConfig | null> {
+    const config = this.configCache ?? await this.getConfig();
+    return config.cameras[cameraName] ?? null;
   }
 
   // Get stats including per-camera motion status
@@ -342,9 +816,10 @@ class FrigateApiService {
 
   async getCameras(): Promise<Camera[]> {
     const config = await this.getConfig();
-    return Object.entries(config.cameras).map(([name, camera]: [string, any]) => ({
-      name,
-      enabled: camera.enabled !== false,
+    return getSortedCameras(config).map(camera => ({
+      name: camera.name,
+      enabled: camera.enabled,
+      dashboard: camera.ui.dashboard,
     }));
   }
 
@@ -384,24 +859,107 @@ class FrigateApiService {
     return codec === 'hevc' || codec === 'h265';
   }
 
-  async getEvents(params?: {
-    camera?: string;
-    label?: string;
-    after?: number;
-    before?: number;
-    limit?: number;
-  }): Promise<Event[]> {
+  /**
+   * PTZ capabilities of an ONVIF camera (empty features if it can't move)
+   */
+  async getPtzInfo(cameraName: string): Promise<PtzInfo> {
+    const client = this.ensureClient();
+    const response = await client.get(`/api/${cameraName}/ptz/info`);
+    return {
+      name: response.data?.name ?? cameraName,
+      features: Array.isArray(response.data?.features) ? response.data.features : [],
+      presets: Array.isArray(response.data?.presets) ? response.data.presets : [],
+    };
+  }
+
+  async getEvents(query: EventQuery = {}): Promise<Event[]> {
     const client = this.ensureClient();
+    const params: Record<string, string | number> = {};
+    for (const [key, value] of Object.entries(query)) {
+      if (value === undefined || value === null) continue;
+      if (Array.isArray(value)) {
+        if (value.length > 0) params[key] = value.join(',');
+      } else if (typeof value === 'boolean') {
+        params[key] = value ? 1 : 0;
+      } else {
+        params[key] = value;
+      }
+    }
     const response = await client.get('/api/events', { params });
     return response.data;
   }
 
+  /**
+   * Every sub-label Frigate has recorded (face / license plate names etc.)
+   */
+  async getSubLabels(): Promise<string[]> {
+    const client = this.ensureClient();
+    const response = await client.get('/api/sub_labels');
+    return Array.isArray(response.data) ? response.data : [];
+  }
+
   async getEvent(eventId: string): Promise<Event> {
     const client = this.ensureClient();
     const response = await client.get(`/api/events/${eventId}`);
     return response.data;
   }
 
+  /**
+   * Retain an event indefinitely (a favorite), or let retention settings apply again
+   */
+  async setEventRetained(eventId: string, retain: boolean): Promise<void> {
+    const client = this.ensureClient();
+    if (retain) {
+      await client.post(`/api/events/${eventId}/retain`);
+    } else {
+      await client.delete(`/api/events/${eventId}/retain`);
+    }
+    this.notifyEventUpdate(eventId, { retain_indefinitely: retain });
+  }
+
+  /**
+   * Set a sub-label (e.g. a person's name), or clear it with null
+   */
+  async setEventSubLabel(eventId: string, subLabel: string | null): Promise<void> {
+    const client = this.ensureClient();
+    await client.post(`/api/events/${eventId}/sub_label`, { subLabel: subLabel ?? '' });
+    this.notifyEventUpdate(eventId, { sub_label: subLabel });
+  }
+
+  async setEventDescription(eventId: string, description: string): Promise<void> {
+    const client = this.ensureClient();
+    await client.post(`/api/events/${eventId}/description`, { description });
+    this.notifyEventUpdate(eventId, { data: { description } });
+  }
+
+  /**
+   * Delete an event along with its clip and snapshot
+   */
+  async deleteEvent(eventId: string): Promise<void> {
+    const client = this.ensureClient();
+    await client.delete(`/api/events/${eventId}`);
+    this.notifyEventUpdate(eventId, null);
+  }
+
+  /**
+   * Subscribe to event changes made through this service, so a list can
+   * follow edits made on the details screen
+   */
+  onEventUpdate(callback: EventUpdateCallback): () => void {
+    this.eventUpdateCallbacks.add(callback);
+    return () => this.eventUpdateCallbacks.delete(callback);
+  }
+
+  private notifyEventUpdate(eventId: string, changes: Partial<Event> | null): void {
+    this.eventUpdateCallbacks.forEach(callback => {
+      try {
+        callback(eventId, changes);
+      } catch (err) {
+        console.error('[FrigateAPI] Event update callback error:', err);
+      }
+    });
+  }
+
   getEventThumbnailUrl(eventId: string): string {
     const token = this.jwtToken ? `?token=${this.jwtToken}` : '';
     return `${this.baseUrl}/api/events/${eventId}/thumbnail.jpg${token}`;
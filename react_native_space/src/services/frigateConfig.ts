@@ -0,0 +1,299 @@
+/**
+ * Frigate Config Parser
+ *
+ * Turns the raw /api/config JSON into the typed FrigateConfig model.
+ * Tolerates missing sections and the schema changes between Frigate versions:
+ * - live.stream_name (<= 0.14) vs live.streams (0.15+)
+ * - record.retain (<= 0.14) vs record.continuous (0.15+)
+ * - record.events (<= 0.13) vs record.alerts / record.detections (0.14+)
+ * - go2rtc stream sources as a string or a list
+ */
+
+import type {
+  CameraConfig,
+  CameraGroupConfig,
+  CameraReviewConfig,
+  FfmpegInputConfig,
+  FrigateConfig,
+  FrigateTimeFormat,
+  ModelConfig,
+  ObjectFilterConfig,
+  ZoneConfig,
+} from './frigateConfig.types';
+
+type RawObject = Record<string, any>;
+
+const DEFAULT_TRACKED_OBJECTS = ['person'];
+const DEFAULT_ALERT_LABELS = ['person', 'car'];
+
+const asObject = (value: unknown): RawObject =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as RawObject) : {};
+
+const asBool = (value: unknown, fallback: boolean): boolean =>
+  typeof value === 'boolean' ? value : fallback;
+
+const asNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const asString = (value: unknown): string | null =>
+  typeof value === 'string' && value.length > 0 ? value : null;
+
+const asStringArray = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  // Some sections accept a single string or a comma-separated list
+  if (typeof value === 'string' && value.length > 0) {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  return [];
+};
+
+const parseZones = (raw: unknown): Record<string, ZoneConfig> => {
+  const zones: Record<string, ZoneConfig> = {};
+  for (const [name, zone] of Object.entries(asObject(raw))) {
+    const zoneObj = asObject(zone);
+    zones[name] = {
+      name,
+      coordinates: Array.isArray(zoneObj.coordinates)
+        ? zoneObj.coordinates.join(',')
+        : asString(zoneObj.coordinates) ?? '',
+      objects: asStringArray(zoneObj.objects),
+      inertia: asNumber(zoneObj.inertia),
+      loitering_time: asNumber(zoneObj.loitering_time),
+    };
+  }
+  return zones;
+};
+
+const parseObjectFilters = (raw: unknown): Record<string, ObjectFilterConfig> => {
+  const filters: Record<string, ObjectFilterConfig> = {};
+  for (const [label, filter] of Object.entries(asObject(raw))) {
+    const filterObj = asObject(filter);
+    filters[label] = {
+      min_score: asNumber(filterObj.min_score),
+      threshold: asNumber(filterObj.threshold),
+      min_area: asNumber(filterObj.min_area),
+      max_area: asNumber(filterObj.max_area),
+    };
+  }
+  return filters;
+};
+
+const parseFfmpegInputs = (raw: unknown): FfmpegInputConfig[] => {
+  const inputs = Array.isArray(asObject(raw).inputs) ? asObject(raw).inputs : [];
+  return inputs
+    .map((input: unknown) => {
+      const inputObj = asObject(input);
+      return {
+        path: asString(inputObj.path) ?? '',
+        roles: asStringArray(inputObj.roles),
+      };
+    })
+    .filter((input: FfmpegInputConfig) => input.path.length > 0);
+};
+
+const parseLiveStreams = (raw: RawObject, cameraName: string): Record<string, string> => {
+  // 0.15+: { "Main": "front_door", "Sub": "front_door_sub" }
+  const streams = asObject(raw.streams);
+  const parsed: Record<string, string> = {};
+  for (const [displayName, streamName] of Object.entries(streams)) {
+    const name = asString(streamName);
+    if (name) parsed[displayName] = name;
+  }
+  if (Object.keys(parsed).length > 0) {
+    return parsed;
+  }
+
+  // <= 0.14: single stream_name, defaults to the camera name
+  const streamName = asString(raw.stream_name) ?? cameraName;
+  return { [streamName]: streamName };
+};
+
+const parseReview = (raw: unknown): CameraReviewConfig => {
+  const review = asObject(raw);
+  const alerts = asObject(review.alerts);
+  const detections = asObject(review.detections);
+
+  return {
+    alerts: {
+      labels: alerts.labels !== undefined ? asStringArray(alerts.labels) : DEFAULT_ALERT_LABELS,
+      required_zones: asStringArray(alerts.required_zones),
+    },
+    detections: {
+      labels: detections.labels !== undefined && detections.labels !== null
+        ? asStringArray(detections.labels)
+        : null,
+      required_zones: asStringArray(detections.required_zones),
+    },
+  };
+};
+
+const parseCamera = (name: string, raw: unknown): CameraConfig => {
+  const camera = asObject(raw);
+  const detect = asObject(camera.detect);
+  const record = asObject(camera.record);
+  const snapshots = asObject(camera.snapshots);
+  const motion = asObject(camera.motion);
+  const audio = asObject(camera.audio);
+  const objects = asObject(camera.objects);
+  const live = asObject(camera.live);
+  const ui = asObject(camera.ui);
+  const onvif = asObject(camera.onvif);
+  const autotracking = asObject(onvif.autotracking);
+
+  const retainDays =
+    asNumber(asObject(record.continuous).days) ??
+    asNumber(asObject(record.retain).days) ??
+    0;
+  const legacyEventDays = asNumber(asObject(asObject(record.events).retain).default);
+
+  const tracked = asStringArray(objects.track);
+
+  return {
+    name,
+    enabled: asBool(camera.enabled, true),
+    detect: {
+      enabled: asBool(detect.enabled, true),
+      width: asNumber(detect.width),
+      height: asNumber(detect.height),
+      fps: asNumber(detect.fps),
+    },
+    record: {
+      enabled: asBool(record.enabled, false),
+      retain_days: retainDays,
+      alerts_retain_days: asNumber(asObject(asObject(record.alerts).retain).days) ?? legacyEventDays,
+      detections_retain_days: asNumber(asObject(asObject(record.detections).retain).days) ?? legacyEventDays,
+    },
+    snapshots: {
+      enabled: asBool(snapshots.enabled, false),
+      bounding_box: asBool(snapshots.bounding_box, true),
+      retain_days: asNumber(asObject(snapshots.retain).default),
+    },
+    motion: {
+      enabled: asBool(motion.enabled, true),
+      threshold: asNumber(motion.threshold),
+      contour_area: asNumber(motion.contour_area),
+      improve_contrast: asBool(motion.improve_contrast, true),
+    },
+    audio: {
+      enabled: asBool(audio.enabled, false),
+      listen: asStringArray(audio.listen),
+    },
+    zones: parseZones(camera.zones),
+    objects: {
+      track: tracked.length > 0 ? tracked : DEFAULT_TRACKED_OBJECTS,
+      filters: parseObjectFilters(objects.filters),
+    },
+    ffmpeg: {
+      inputs: parseFfmpegInputs(camera.ffmpeg),
+    },
+    live: {
+      streams: parseLiveStreams(live, name),
+      height: asNumber(live.height),
+      quality: asNumber(live.quality),
+    },
+    ui: {
+      order: asNumber(ui.order) ?? 0,
+      dashboard: asBool(ui.dashboard, true),
+    },
+    onvif: {
+      host: asString(onvif.host),
+      port: asNumber(onvif.port),
+      autotracking: {
+        enabled: asBool(autotracking.enabled, false),
+        required_zones: asStringArray(autotracking.required_zones),
+      },
+    },
+    review: parseReview(camera.review),
+    notifications: {
+      enabled: asBool(asObject(camera.notifications).enabled, false),
+    },
+  };
+};
+
+const parseCameraGroups = (raw: unknown): Record<string, CameraGroupConfig> => {
+  const groups: Record<string, CameraGroupConfig> = {};
+  for (const [name, group] of Object.entries(asObject(raw))) {
+    const groupObj = asObject(group);
+    groups[name] = {
+      name,
+      cameras: asStringArray(groupObj.cameras),
+      icon: asString(groupObj.icon) ?? 'generic',
+      order: asNumber(groupObj.order) ?? 0,
+    };
+  }
+  return groups;
+};
+
+const parseGo2RTCStreams = (raw: unknown): Record<string, string[]> => {
+  const streams: Record<string, string[]> = {};
+  for (const [name, sources] of Object.entries(asObject(asObject(raw).streams))) {
+    streams[name] = Array.isArray(sources)
+      ? sources.filter((source): source is string => typeof source === 'string')
+      : typeof sources === 'string' ? [sources] : [];
+  }
+  return streams;
+};
+
+const parseTimeFormat = (value: unknown): FrigateTimeFormat =>
+  value === '12hour' || value === '24hour' ? value : 'browser';
+
+const parseModel = (raw: unknown, cameras: Record<string, CameraConfig>): ModelConfig => {
+  const model = asObject(raw);
+  const labelmap: Record<number, string> = {};
+  for (const [index, label] of Object.entries(asObject(model.labelmap))) {
+    const labelName = asString(label);
+    if (labelName && !Number.isNaN(Number(index))) {
+      labelmap[Number(index)] = labelName;
+    }
+  }
+
+  // Older versions don't expose the labelmap - fall back to whatever cameras track
+  const labels = Object.keys(labelmap).length > 0
+    ? Object.values(labelmap)
+    : Object.values(cameras).flatMap(camera => camera.objects.track);
+
+  return {
+    labelmap,
+    attributes: asStringArray(model.all_attributes),
+    labels: Array.from(new Set(labels)).sort(),
+  };
+};
+
+/**
+ * Parse a raw /api/config response into the typed model
+ */
+export const parseFrigateConfig = (raw: unknown): FrigateConfig => {
+  const config = asObject(raw);
+  const ui = asObject(config.ui);
+
+  const cameras: Record<string, CameraConfig> = {};
+  for (const [name, camera] of Object.entries(asObject(config.cameras))) {
+    cameras[name] = parseCamera(name, camera);
+  }
+
+  return {
+    cameras,
+    camera_groups: parseCameraGroups(config.camera_groups),
+    go2rtc: {
+      streams: parseGo2RTCStreams(config.go2rtc),
+    },
+    ui: {
+      timezone: asString(ui.timezone),
+      time_format: parseTimeFormat(ui.time_format),
+      date_style: asString(ui.date_style),
+      time_style: asString(ui.time_style),
+      strftime_fmt: asString(ui.strftime_fmt),
+    },
+    model: parseModel(config.model, cameras),
+  };
+};
+
+/**
+ * Cameras sorted the way Frigate's UI orders them (ui.order, then name)
+ */
+export const getSortedCameras = (config: FrigateConfig): CameraConfig[] =>
+  Object.values(config.cameras).sort(
+    (a, b) => a.ui.order - b.ui.order || a.name.localeCompare(b.name)
+  );
@@ -0,0 +1,161 @@
+/**
+ * Typed model of Frigate's /api/config response.
+ *
+ * Field names follow Frigate's own (snake_case) so they line up with the
+ * docs and the web UI. Everything here is produced by parseFrigateConfig(),
+ * which fills defaults and smooths over differences between Frigate versions,
+ * so consumers never need to null-check nested sections.
+ */
+
+export interface CameraDetectConfig {
+  enabled: boolean;
+  width: number | null;
+  height: number | null;
+  fps: number | null;
+}
+
+export interface CameraRecordConfig {
+  enabled: boolean;
+  // Continuous recording retention (record.continuous.days, or record.retain.days before 0.15)
+  retain_days: number;
+  // Review item retention (record.alerts / record.detections, or record.events before 0.14)
+  alerts_retain_days: number | null;
+  detections_retain_days: number | null;
+}
+
+export interface CameraSnapshotsConfig {
+  enabled: boolean;
+  bounding_box: boolean;
+  retain_days: number | null;
+}
+
+export interface CameraMotionConfig {
+  enabled: boolean;
+  threshold: number | null;
+  contour_area: number | null;
+  improve_contrast: boolean;
+}
+
+export interface CameraAudioConfig {
+  enabled: boolean;
+  listen: string[];
+}
+
+export interface ZoneConfig {
+  name: string;
+  coordinates: string;
+  objects: string[];
+  inertia: number | null;
+  loitering_time: number | null;
+}
+
+export interface ObjectFilterConfig {
+  min_score: number | null;
+  threshold: number | null;
+  min_area: number | null;
+  max_area: number | null;
+}
+
+export interface CameraObjectsConfig {
+  track: string[];
+  filters: Record<string, ObjectFilterConfig>;
+}
+
+export type FfmpegInputRole = 'detect' | 'record' | 'audio' | 'rtmp' | string;
+
+export interface FfmpegInputConfig {
+  path: string;
+  roles: FfmpegInputRole[];
+}
+
+export interface CameraLiveConfig {
+  // Display name -> go2rtc stream name (live.streams in 0.15+, live.stream_name before)
+  streams: Record<string, string>;
+  height: number | null;
+  quality: number | null;
+}
+
+export interface CameraUIConfig {
+  order: number;
+  dashboard: boolean;
+}
+
+export interface CameraOnvifConfig {
+  host: string | null;
+  port: number | null;
+  autotracking: {
+    enabled: boolean;
+    required_zones: string[];
+  };
+}
+
+export interface CameraReviewConfig {
+  alerts: {
+    labels: string[];
+    required_zones: string[];
+  };
+  detections: {
+    // null means "every tracked label that isn't an alert"
+    labels: string[] | null;
+    required_zones: string[];
+  };
+}
+
+export interface CameraConfig {
+  name: string;
+  enabled: boolean;
+  detect: CameraDetectConfig;
+  record: CameraRecordConfig;
+  snapshots: CameraSnapshotsConfig;
+  motion: CameraMotionConfig;
+  audio: CameraAudioConfig;
+  zones: Record<string, ZoneConfig>;
+  objects: CameraObjectsConfig;
+  ffmpeg: {
+    inputs: FfmpegInputConfig[];
+  };
+  live: CameraLiveConfig;
+  ui: CameraUIConfig;
+  onvif: CameraOnvifConfig;
+  review: CameraReviewConfig;
+  notifications: {
+    enabled: boolean;
+  };
+}
+
+export interface CameraGroupConfig {
+  name: string;
+  cameras: string[];
+  icon: string;
+  order: number;
+}
+
+export interface FrigateGo2RTCConfig {
+  // Stream name -> source URL(s)
+  streams: Record<string, string[]>;
+}
+
+export type FrigateTimeFormat = 'browser' | '12hour' | '24hour';
+
+export interface FrigateUIConfig {
+  timezone: string | null;
+  time_format: FrigateTimeFormat;
+  date_style: string | null;
+  time_style: string | null;
+  strftime_fmt: string | null;
+}
+
+export interface ModelConfig {
+  labelmap: Record<number, string>;
+  attributes: string[];
+  // Unique detectable labels (from the labelmap, or every tracked object if none)
+  labels: string[];
+}
+
+export interface FrigateConfig {
+  cameras: Record<string, CameraConfig>;
+  camera_groups: Record<string, CameraGroupConfig>;
+  go2rtc: FrigateGo2RTCConfig;
+  ui: FrigateUIConfig;
+  model: ModelConfig;
+}
@@ -6,24 +6,51 @@ import { frigateApi } from './frigateApi';
  * Handles fetching recording segments and events for timeline scrubbing
  */
 
-interface RecordingSegment {
+/**
+ * One stored recording segment (usually ~10 seconds) from /api/<camera>/recordings
+ */
+export interface RecordingSegment {
+  id: string;
+  // Unix timestamps in SECONDS
   start_time: number;
   end_time: number;
   duration: number;
-  events: number;
+  // Motion (changed pixels) and active objects seen during the segment
+  motion: number;
+  objects: number;
 }
 
-interface RecordingHour {
-  segments: RecordingSegment[];
+export interface RecordingHour {
+  // "00" - "23" in the requested timezone
+  hour: string;
+  events: number;
+  motion: number;
+  objects: number;
+  // Seconds of footage
+  duration: number;
 }
 
-interface RecordingDay {
+/**
+ * Per-day rollup from /api/<camera>/recordings/summary
+ */
+export interface RecordingDay {
+  // YYYY-MM-DD in the requested timezone
   day: string;
-  hours: { [hour: string]: RecordingHour };
+  events: number;
+  hours: RecordingHour[];
 }
 
-interface RecordingsResponse {
-  [camera: string]: RecordingDay[];
+/**
+ * A low-resolution preview MP4 (about an hour each) from /api/preview/<camera>/start/<s>/end/<e>.
+ * Previews of the current hour aren't assembled yet - those exist only as frames.
+ */
+export interface PreviewClip {
+  camera: string;
+  // Path on the Frigate server, e.g. /clips/previews/<camera>/<start>-<end>.mp4
+  src: string;
+  // Unix timestamps in SECONDS
+  start: number;
+  end: number;
 }
 
 interface Event {
@@ -43,35 +70,88 @@ class FrigateRecordingsApi {
   private cache: Map<string, { data: any; timestamp: number }> = new Map();
   private CACHE_TTL = 30 * 1000; // 30 seconds
 
+  constructor() {
+    // Cache keys are camera names, which can repeat across servers
+    frigateApi.onServerChange(() => this.clearCache());
+  }
+
+  private getCached<T>(cacheKey: string): T | null {
+    const cached = this.cache.get(cacheKey);
+    if (!cached) return null;
+    if (Date.now() - cached.timestamp >= this.CACHE_TTL) {
+      this.cache.delete(cacheKey);
+      return null;
+    }
+    return cached.data;
+  }
+
   /**
-   * Get recording segments for a camera
+   * Cache a response, dropping expired entries so scrolling through history
+   * doesn't grow the cache without bound
    */
-  async getRecordingSegments(camera: string): Promise<RecordingDay[]> {
-    const cacheKey = `recordings-${camera}`;
-    const cached = this.cache.get(cacheKey);
+  private setCached(cacheKey: string, data: any): void {
+    const now = Date.now();
+    this.cache.forEach((entry, key) => {
+      if (now - entry.timestamp >= this.CACHE_TTL) this.cache.delete(key);
+    });
+    this.cache.set(cacheKey, { data, timestamp: now });
+  }
+
+  /**
+   * Ranges that run up to now get a new end every request, so they'd never
+   * be hit again - only past ranges (e.g. whole timeline chunks) are cached
+   * @param beforeTimestamp - Unix timestamp in MILLISECONDS
+   */
+  private isLiveEdge(beforeTimestamp: number): boolean {
+    return beforeTimestamp > Date.now() - this.CACHE_TTL;
+  }
 
-    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-      return cached.data;
+  /**
+   * Get recording segments for a camera, oldest first
+   * @param afterTimestamp - Unix timestamp in MILLISECONDS
+   * @param beforeTimestamp - Unix timestamp in MILLISECONDS
+   */
+  async getRecordingSegments(
+    camera: string,
+    afterTimestamp: number,
+    beforeTimestamp: number
+  ): Promise<RecordingSegment[]> {
+    // Convert milliseconds to seconds
+    const after = Math.floor(afterTimestamp / 1000);
+    const before = Math.floor(beforeTimestamp / 1000);
+
+    const cacheKey = `recordings-${camera}-${after}-${before}`;
+    const cacheable = !this.isLiveEdge(beforeTimestamp);
+    const cached = cacheable ? this.getCached<RecordingSegment[]>(cacheKey) : null;
+
+    if (cached) {
+      return cached;
     }
 
     try {
       const baseUrl = frigateApi.getBaseUrl();
-      const token = frigateApi.getJWTToken();
 
-      const response = await fetch(`${baseUrl}/api/${camera}/recordings`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const response = await frigateApi.fetchWithAuth(
+        `${baseUrl}/api/${camera}/recordings?after=${after}&before=${before}`
+      );
 
       if (!response.ok) {
         throw new Error(`Failed to fetch recordings: ${response.status}`);
       }
 
-      const data: RecordingsResponse = await response.json();
-      const segments = data[camera] || [];
+      const data: any[] = await response.json();
+      const segments: RecordingSegment[] = (Array.isArray(data) ? data : [])
+        .map(segment => ({
+          id: String(segment.id),
+          start_time: segment.start_time,
+          end_time: segment.end_time,
+          duration: segment.duration ?? segment.end_time - segment.start_time,
+          motion: segment.motion ?? 0,
+          objects: segment.objects ?? 0,
+        }))
+        .sort((a, b) => a.start_time - b.start_time);
 
-      this.cache.set(cacheKey, { data: segments, timestamp: Date.now() });
+      if (cacheable) this.setCached(cacheKey, segments);
       return segments;
     } catch (error) {
       console.error('[FrigateRecordings] Error fetching segments:', error);
@@ -79,6 +159,54 @@ class FrigateRecordingsApi {
     }
   }
 
+  /**
+   * Days (newest first) and hours that have recordings, in the device's timezone
+   */
+  async getRecordingsSummary(camera: string): Promise<RecordingDay[]> {
+    const cacheKey = `summary-${camera}`;
+    const cached = this.getCached<RecordingDay[]>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const params = new URLSearchParams();
+    try {
+      params.set('timezone', Intl.DateTimeFormat().resolvedOptions().timeZone);
+    } catch (error) {
+      // Frigate falls back to UTC days
+    }
+
+    try {
+      const baseUrl = frigateApi.getBaseUrl();
+
+      const response = await frigateApi.fetchWithAuth(`${baseUrl}/api/${camera}/recordings/summary?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch recordings summary: ${response.status}`);
+      }
+
+      const data: any[] = await response.json();
+      const days: RecordingDay[] = (Array.isArray(data) ? data : []).map(day => ({
+        day: day.day,
+        events: day.events ?? 0,
+        hours: (day.hours ?? []).map((hour: any) => ({
+          hour: String(hour.hour).padStart(2, '0'),
+          events: hour.events ?? 0,
+          motion: hour.motion ?? 0,
+          objects: hour.objects ?? 0,
+          duration: hour.duration ?? 0,
+        })),
+      }));
+
+      this.setCached(cacheKey, days);
+      return days;
+    } catch (error) {
+      console.error('[FrigateRecordings] Error fetching summary:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get recording URL for a specific time range
    * @param startTimestamp - Unix timestamp in SECONDS
@@ -98,6 +226,8 @@ class FrigateRecordingsApi {
 
   /**
    * Get events in a time range
+   * @param afterTimestamp - Unix timestamp in MILLISECONDS
+   * @param beforeTimestamp - Unix timestamp in MILLISECONDS
    */
   async getEventsInRange(
     camera: string,
@@ -105,16 +235,16 @@ class FrigateRecordingsApi {
     beforeTimestamp: number,
     limit: number = 50
   ): Promise<Event[]> {
-    const cacheKey = `events-${camera}-${afterTimestamp}-${beforeTimestamp}`;
-    const cached = this.cache.get(cacheKey);
+    const cacheKey = `events-${camera}-${afterTimestamp}-${beforeTimestamp}-${limit}`;
+    const cacheable = !this.isLiveEdge(beforeTimestamp);
+    const cached = cacheable ? this.getCached<Event[]>(cacheKey) : null;
 
-    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-      return cached.data;
+    if (cached) {
+      return cached;
     }
 
     try {
       const baseUrl = frigateApi.getBaseUrl();
-      const token = frigateApi.getJWTToken();
 
       // Convert milliseconds to seconds
       const after = Math.floor(afterTimestamp / 1000);
@@ -122,11 +252,7 @@ class FrigateRecordingsApi {
 
       const url = `${baseUrl}/api/events?camera=${camera}&after=${after}&before=${before}&limit=${limit}`;
 
-      const response = await fetch(url, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const response = await frigateApi.fetchWithAuth(url);
 
       if (!response.ok) {
         throw new Error(`Failed to fetch events: ${response.status}`);
@@ -134,7 +260,7 @@ class FrigateRecordingsApi {
 
       const events: Event[] = await response.json();
 
-      this.cache.set(cacheKey, { data: events, timestamp: Date.now() });
+      if (cacheable) this.setCached(cacheKey, events);
       return events;
     } catch (error) {
       console.error('[FrigateRecordings] Error fetching events:', error);
@@ -142,6 +268,104 @@ class FrigateRecordingsApi {
     }
   }
 
+  /**
+   * Get preview clips overlapping a time range, oldest first
+   * @param afterTimestamp - Unix timestamp in MILLISECONDS
+   * @param beforeTimestamp - Unix timestamp in MILLISECONDS
+   */
+  async getPreviewClips(
+    camera: string,
+    afterTimestamp: number,
+    beforeTimestamp: number
+  ): Promise<PreviewClip[]> {
+    const after = Math.floor(afterTimestamp / 1000);
+    const before = Math.floor(beforeTimestamp / 1000);
+    const cacheKey = `previews-${camera}-${after}-${before}`;
+    const cacheable = !this.isLiveEdge(beforeTimestamp);
+    const cached = cacheable ? this.getCached<PreviewClip[]>(cacheKey) : null;
+
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const baseUrl = frigateApi.getBaseUrl();
+
+      const response = await frigateApi.fetchWithAuth(`${baseUrl}/api/preview/${camera}/start/${after}/end/${before}`);
+
+      // Frigate answers 404 when no previews cover the range
+      if (response.status === 404) {
+        return [];
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch previews: ${response.status}`);
+      }
+
+      const data: any[] = await response.json();
+      const clips: PreviewClip[] = (Array.isArray(data) ? data : [])
+        .map(clip => ({ camera: clip.camera, src: clip.src, start: clip.start, end: clip.end }))
+        .sort((a, b) => a.start - b.start);
+
+      if (cacheable) this.setCached(cacheKey, clips);
+      return clips;
+    } catch (error) {
+      console.error('[FrigateRecordings] Error fetching previews:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the file names of the current hour's preview frames in a time range
+   * (not cached - new frames arrive every few seconds)
+   * @param afterTimestamp - Unix timestamp in MILLISECONDS
+   * @param beforeTimestamp - Unix timestamp in MILLISECONDS
+   */
+  async getPreviewFrames(
+    camera: string,
+    afterTimestamp: number,
+    beforeTimestamp: number
+  ): Promise<string[]> {
+    try {
+      const baseUrl = frigateApi.getBaseUrl();
+
+      const after = Math.floor(afterTimestamp / 1000);
+      const before = Math.floor(beforeTimestamp / 1000);
+
+      const response = await frigateApi.fetchWithAuth(`${baseUrl}/api/preview/${camera}/start/${after}/end/${before}/frames`);
+
+      if (response.status === 404) {
+        return [];
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch preview frames: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return Array.isArray(data) ? data : [];
+    } catch (error) {
+      console.error('[FrigateRecordings] Error fetching preview frames:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * URL of a preview clip's MP4
+   */
+  getPreviewClipUrl(clip: PreviewClip): string {
+    const token = frigateApi.getJWTToken();
+    return `${frigateApi.getBaseUrl()}${clip.src}${token ? `?token=${token}` : ''}`;
+  }
+
+  /**
+   * URL of a single preview frame, as a JPEG
+   */
+  getPreviewFrameUrl(fileName: string): string {
+    const token = frigateApi.getJWTToken();
+    return `${frigateApi.getBaseUrl()}/api/preview/${fileName}/thumbnail.jpg${token ? `?token=${token}` : ''}`;
+  }
+
   /**
    * Check if recordings exist for a time range
    */
@@ -151,26 +375,8 @@ class FrigateRecordingsApi {
     endTimestamp: number
   ): Promise<boolean> {
     try {
-      const segments = await this.getRecordingSegments(camera);
-      
-      // Convert timestamps to seconds
-      const start = startTimestamp / 1000;
-      const end = endTimestamp / 1000;
-
-      // Check if any segment overlaps with the requested range
-      for (const day of segments) {
-        for (const hour of Object.values(day.hours)) {
-          for (const segment of hour.segments) {
-            if (
-              (segment.start_time <= end && segment.end_time >= start)
-            ) {
-              return true;
-            }
-          }
-        }
-      }
-
-      return false;
+      const segments = await this.getRecordingSegments(camera, startTimestamp, endTimestamp);
+      return segments.length > 0;
     } catch (error) {
       console.error('[FrigateRecordings] Error checking recordings:', error);
       return false;
@@ -0,0 +1,237 @@
+import { frigateApi } from './frigateApi';
+
+/**
+ * Frigate Review API Service
+ *
+ * Review items (Frigate 0.14+) group the tracked objects, zones and audio of
+ * one burst of activity into a single alert or detection - the unit Frigate's
+ * own UI triages footage by.
+ */
+
+export type ReviewSeverity = 'alert' | 'detection';
+
+export interface ReviewSegmentData {
+  // Event ids of the tracked objects in this review item
+  detections: string[];
+  objects: string[];
+  sub_labels: string[];
+  zones: string[];
+  audio: string[];
+}
+
+export interface ReviewSegment {
+  id: string;
+  camera: string;
+  start_time: number;
+  end_time: number | null;
+  has_been_reviewed: boolean;
+  severity: ReviewSeverity;
+  thumb_path: string;
+  data: ReviewSegmentData;
+}
+
+export interface ReviewSummaryCounts {
+  reviewed_alert: number;
+  reviewed_detection: number;
+  total_alert: number;
+  total_detection: number;
+}
+
+export interface ReviewSummary {
+  last24Hours: ReviewSummaryCounts;
+  // Keyed by day (YYYY-MM-DD)
+  days: Record<string, ReviewSummaryCounts>;
+}
+
+export interface ReviewQuery {
+  cameras?: string[];
+  labels?: string[];
+  zones?: string[];
+  severity?: ReviewSeverity;
+  reviewed?: boolean;
+  // Unix timestamps in SECONDS
+  after?: number;
+  before?: number;
+  limit?: number;
+}
+
+export interface ActivityQuery {
+  cameras?: string[];
+  // Unix timestamps in SECONDS
+  after: number;
+  before: number;
+  // Seconds per sample
+  scale?: number;
+}
+
+/**
+ * One sample of /api/review/activity/motion
+ */
+export interface MotionActivity {
+  start_time: number;
+  camera: string;
+  // Changed pixels - only meaningful relative to other samples
+  motion: number;
+}
+
+/**
+ * One sample of /api/review/activity/audio
+ */
+export interface AudioActivity {
+  start_time: number;
+  camera: string;
+  // Average dBFS (0 is the loudest)
+  audio: number;
+}
+
+const EMPTY_COUNTS: ReviewSummaryCounts = {
+  reviewed_alert: 0,
+  reviewed_detection: 0,
+  total_alert: 0,
+  total_detection: 0,
+};
+
+class FrigateReviewApi {
+  /**
+   * Get review items, newest first
+   */
+  async getReviews(query: ReviewQuery = {}): Promise<ReviewSegment[]> {
+    const params = new URLSearchParams();
+    if (query.cameras?.length) params.set('cameras', query.cameras.join(','));
+    if (query.labels?.length) params.set('labels', query.labels.join(','));
+    if (query.zones?.length) params.set('zones', query.zones.join(','));
+    if (query.severity) params.set('severity', query.severity);
+    if (query.reviewed !== undefined) params.set('reviewed', query.reviewed ? '1' : '0');
+    if (query.after !== undefined) params.set('after', String(query.after));
+    if (query.before !== undefined) params.set('before', String(query.before));
+    params.set('limit', String(query.limit ?? 50));
+
+    try {
+      const baseUrl = frigateApi.getBaseUrl();
+      const response = await frigateApi.fetchWithAuth(`${baseUrl}/api/review?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch review items: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('[FrigateReview] Error fetching review items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reviewed/total alert and detection counts for the last 24 hours and per day
+   */
+  async getReviewSummary(cameras?: string[]): Promise<ReviewSummary> {
+    const params = new URLSearchParams();
+    if (cameras?.length) params.set('cameras', cameras.join(','));
+    try {
+      params.set('timezone', Intl.DateTimeFormat().resolvedOptions().timeZone);
+    } catch (error) {
+      // Frigate falls back to UTC days
+    }
+
+    try {
+      const baseUrl = frigateApi.getBaseUrl();
+      const response = await frigateApi.fetchWithAuth(`${baseUrl}/api/review/summary?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch review summary: ${response.status}`);
+      }
+
+      const { last24Hours, ...days } = await response.json();
+      return {
+        last24Hours: { ...EMPTY_COUNTS, ...last24Hours },
+        days,
+      };
+    } catch (error) {
+      console.error('[FrigateReview] Error fetching review summary:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Motion level per `scale` seconds, including motion that never became a
+   * tracked object
+   */
+  async getMotionActivity(query: ActivityQuery): Promise<MotionActivity[]> {
+    return this.getActivity<MotionActivity>('motion', query);
+  }
+
+  /**
+   * Audio level per `scale` seconds (cameras with audio detection only)
+   */
+  async getAudioActivity(query: ActivityQuery): Promise<AudioActivity[]> {
+    return this.getActivity<AudioActivity>('audio', query);
+  }
+
+  private async getActivity<T>(kind: 'motion' | 'audio', query: ActivityQuery): Promise<T[]> {
+    const params = new URLSearchParams();
+    params.set('cameras', query.cameras?.length ? query.cameras.join(',') : 'all');
+    params.set('after', String(Math.floor(query.after)));
+    params.set('before', String(Math.floor(query.before)));
+    params.set('scale', String(query.scale ?? 30));
+
+    try {
+      const baseUrl = frigateApi.getBaseUrl();
+      const response = await frigateApi.fetchWithAuth(`${baseUrl}/api/review/activity/${kind}?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${kind} activity: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return Array.isArray(data) ? data : [];
+    } catch (error) {
+      console.error(`[FrigateReview] Error fetching ${kind} activity:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark review items as reviewed
+   */
+  async markReviewed(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const baseUrl = frigateApi.getBaseUrl();
+    const response = await frigateApi.fetchWithAuth(`${baseUrl}/api/reviews/viewed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to mark review items as reviewed: ${response.status}`);
+    }
+  }
+
+  /**
+   * Put a review item back in the unreviewed list
+   */
+  async markUnreviewed(id: string): Promise<void> {
+    const baseUrl = frigateApi.getBaseUrl();
+    const response = await frigateApi.fetchWithAuth(`${baseUrl}/api/review/${id}/viewed`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to mark review item as unreviewed: ${response.status}`);
+    }
+  }
+
+  /**
+   * Thumbnail for a review item. thumb_path is a path on the Frigate host
+   * (/media/frigate/clips/review/...) served under /clips.
+   */
+  getThumbnailUrl(review: ReviewSegment): string {
+    const baseUrl = frigateApi.getBaseUrl();
+    const token = frigateApi.getJWTToken();
+    const path = review.thumb_path.replace(/^\/media\/frigate/, '');
+    return `${baseUrl}${path}${token ? `?token=${token}` : ''}`;
+  }
+}
+
+export const frigateReviewApi = new FrigateReviewApi();
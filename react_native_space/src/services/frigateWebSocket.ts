@@ -1,4 +1,6 @@
-import { frigateApi } from './frigateApi';
+import { frigateApi, Event } from './frigateApi';
+import type { CameraConfig } from './frigateConfig.types';
+import type { ReviewSegment } from './frigateReviewApi';
 
 /**
  * Frigate WebSocket Event Types
@@ -7,7 +9,8 @@ export interface FrigateEvent {
   id: string;
   camera: string;
   label: string;
-  sub_label: string | null;
+  // [name, score] on 0.14+, a plain string on older versions
+  sub_label: string | [string, number] | null;
   top_score: number;
   score: number;
   start_time: number;
@@ -37,6 +40,32 @@ export interface FrigateEventMessage {
   type: 'new' | 'update' | 'end';
 }
 
+/**
+ * Shape a WebSocket event like an /api/events result so lists can merge them
+ */
+export const frigateEventToEvent = (event: FrigateEvent): Event => ({
+  id: event.id,
+  camera: event.camera,
+  label: event.label,
+  start_time: event.start_time,
+  end_time: event.end_time,
+  has_clip: event.has_clip,
+  has_snapshot: event.has_snapshot,
+  sub_label: Array.isArray(event.sub_label) ? event.sub_label[0] : event.sub_label,
+  zones: event.current_zones,
+  top_score: event.top_score,
+  data: {
+    score: event.score,
+    top_score: event.top_score,
+  },
+});
+
+export interface FrigateReviewMessage {
+  before: ReviewSegment;
+  after: ReviewSegment;
+  type: 'new' | 'update' | 'end';
+}
+
 export interface CameraActivity {
   motion: boolean;
   objects: Array<{
@@ -45,14 +74,80 @@ export interface CameraActivity {
     stationary: boolean;
     score: number;
   }>;
+  // Toggle states, included by Frigate 0.15+ in the reply to onConnect
+  config?: Record<string, boolean>;
 }
 
 export type CameraActivityMap = Record<string, CameraActivity>;
 
+/**
+ * Camera toggles Frigate accepts on {camera}/{feature}/set and reports back
+ * on {camera}/{feature}/state (payload "ON" / "OFF")
+ */
+export type CameraFeature =
+  | 'detect'
+  | 'recordings'
+  | 'snapshots'
+  | 'motion'
+  | 'audio'
+  | 'improve_contrast'
+  | 'notifications'
+  | 'ptz_autotracker';
+
+export type CameraFeatureState = Record<CameraFeature, boolean>;
+
+export const CAMERA_FEATURES: CameraFeature[] = [
+  'detect',
+  'recordings',
+  'snapshots',
+  'motion',
+  'audio',
+  'improve_contrast',
+  'notifications',
+  'ptz_autotracker',
+];
+
+/**
+ * Commands published on {camera}/ptz. Moves and zooms continue until STOP.
+ */
+export type PtzCommand =
+  | 'MOVE_UP'
+  | 'MOVE_DOWN'
+  | 'MOVE_LEFT'
+  | 'MOVE_RIGHT'
+  | 'ZOOM_IN'
+  | 'ZOOM_OUT'
+  | 'STOP'
+  | `preset_${string}`;
+
+// Key of each feature in the camera_activity config block
+const ACTIVITY_CONFIG_KEYS: Partial<Record<CameraFeature, string>> = {
+  detect: 'detect',
+  recordings: 'record',
+  snapshots: 'snapshots',
+  audio: 'audio',
+  notifications: 'notifications',
+  ptz_autotracker: 'autotracking',
+};
+
+const getConfiguredFeatureState = (camera: CameraConfig): CameraFeatureState => ({
+  detect: camera.detect.enabled,
+  recordings: camera.record.enabled,
+  snapshots: camera.snapshots.enabled,
+  motion: camera.motion.enabled,
+  audio: camera.audio.enabled,
+  improve_contrast: camera.motion.improve_contrast,
+  notifications: camera.notifications.enabled,
+  ptz_autotracker: camera.onvif.autotracking.enabled,
+});
+
 export type EventCallback = (event: FrigateEventMessage, camera: string, label: string) => void;
+export type ReviewCallback = (review: FrigateReviewMessage) => void;
 export type ConnectionCallback = (connected: boolean) => void;
 export type StatsCallback = (stats: any) => void;
 export type CameraActivityCallback = (activity: CameraActivityMap) => void;
+export type CameraStateCallback = (camera: string, state: CameraFeatureState) => void;
+export type AudioLevelCallback = (camera: string, dBFS: number) => void;
 
 /**
  * Frigate WebSocket Service
@@ -62,6 +157,8 @@ export type CameraActivityCallback = (activity: CameraActivityMap) => void;
  * - Real-time detection updates (switch dashboard to live view)
  * - Push notifications
  * - Live bounding box overlays
+ * - Camera commands (detect/record/snapshots... toggles) and their reported state
+ * - Audio levels for the live view's volume indicator
  */
 class FrigateWebSocketService {
   private ws: WebSocket | null = null;
@@ -72,9 +169,12 @@ class FrigateWebSocketService {
   
   // Callbacks
   private eventCallbacks: Set<EventCallback> = new Set();
+  private reviewCallbacks: Set<ReviewCallback> = new Set();
   private connectionCallbacks: Set<ConnectionCallback> = new Set();
   private statsCallbacks: Set<StatsCallback> = new Set();
   private cameraActivityCallbacks: Set<CameraActivityCallback> = new Set();
+  private cameraStateCallbacks: Set<CameraStateCallback> = new Set();
+  private audioLevelCallbacks: Set<AudioLevelCallback> = new Set();
   
   // Track active detections per camera
   private activeDetections: Map<string, Set<string>> = new Map(); // camera -> Set<eventId>
@@ -82,6 +182,16 @@ class FrigateWebSocketService {
   // Current camera activity state
   private cameraActivity: CameraActivityMap = {};
   
+  // Toggle states reported by Frigate, overriding the (possibly stale) config
+  private reportedCameraState: Record<string, Partial<CameraFeatureState>> = {};
+  
+  constructor() {
+    // Follow the API client when it switches between local and remote URLs
+    frigateApi.onBaseUrlChange(() => this.handleBaseUrlChange());
+    // A different server has different cameras - drop its activity state too
+    frigateApi.onServerChange(() => this.handleServerChange());
+  }
+  
   /**
    * Connect to Frigate WebSocket
    */
@@ -108,6 +218,8 @@ class FrigateWebSocketService {
         console.log('[FrigateWS] Connected');
         this.reconnectAttempts = 0;
         this.reconnectDelay = 2000;
+        // Asks Frigate for camera_activity, including the current toggle states
+        this.publish('onConnect', '');
         this.notifyConnectionChange(true);
       };
       
@@ -150,6 +262,33 @@ class FrigateWebSocketService {
     this.notifyConnectionChange(false);
   }
   
+  /**
+   * Reconnect to the new Frigate URL if we were connected (or trying to be)
+   */
+  private handleBaseUrlChange(): void {
+    if (!this.ws && !this.reconnectTimeout) return;
+    
+    console.log('[FrigateWS] Frigate URL changed, reconnecting');
+    this.disconnect();
+    this.reconnectAttempts = 0;
+    this.reconnectDelay = 2000;
+    this.connect();
+  }
+  
+  private handleServerChange(): void {
+    this.activeDetections.clear();
+    this.cameraActivity = {};
+    this.reportedCameraState = {};
+    this.cameraActivityCallbacks.forEach(callback => {
+      try {
+        callback(this.cameraActivity);
+      } catch (err) {
+        console.error('[FrigateWS] Camera activity callback error:', err);
+      }
+    });
+    this.handleBaseUrlChange();
+  }
+  
   /**
    * Schedule reconnection with exponential backoff
    */
@@ -176,8 +315,25 @@ class FrigateWebSocketService {
     try {
       const message: FrigateWebSocketMessage = JSON.parse(data);
       
+      // Handle camera toggle state topics: {camera}/{feature}/state -> ON/OFF
+      if (message.topic.endsWith('/state')) {
+        const [camera, feature] = message.topic.split('/');
+        if ((CAMERA_FEATURES as string[]).includes(feature)) {
+          this.handleCameraState(camera, { [feature]: message.payload === 'ON' });
+        }
+      }
+      
+      // Handle audio levels: {camera}/audio/dBFS -> number (only sent while audio detection is on)
+      else if (message.topic.endsWith('/audio/dBFS')) {
+        const camera = message.topic.replace('/audio/dBFS', '');
+        const dBFS = Number(message.payload);
+        if (!Number.isNaN(dBFS)) {
+          this.notifyAudioLevel(camera, dBFS);
+        }
+      }
+      
       // Handle individual camera motion topics: {camera}/motion -> ON/OFF
-      if (message.topic.endsWith('/motion')) {
+      else if (message.topic.endsWith('/motion')) {
         const camera = message.topic.replace('/motion', '');
         const isMotion = message.payload === 'ON';
         this.handleIndividualMotion(camera, isMotion);
@@ -195,6 +351,12 @@ class FrigateWebSocketService {
         this.handleEventMessage(eventData);
       }
       
+      // Handle review items (alerts / detections)
+      else if (message.topic === 'reviews') {
+        const review: FrigateReviewMessage = JSON.parse(message.payload as string);
+        this.notifyReview(review);
+      }
+      
       // Handle stats updates
       else if (message.topic === 'stats') {
         const stats = JSON.parse(message.payload as string);
@@ -257,6 +419,18 @@ class FrigateWebSocketService {
     
     this.cameraActivity = activity;
     
+    // Pick up toggle states from the config block (Frigate 0.15+)
+    for (const [camera, state] of Object.entries(activity)) {
+      if (!state.config) continue;
+      const reported: Partial<CameraFeatureState> = {};
+      for (const [feature, key] of Object.entries(ACTIVITY_CONFIG_KEYS)) {
+        if (typeof state.config[key] === 'boolean') {
+          reported[feature as CameraFeature] = state.config[key];
+        }
+      }
+      this.handleCameraState(camera, reported);
+    }
+    
     // Notify listeners
     this.cameraActivityCallbacks.forEach(callback => {
       try {
@@ -267,6 +441,27 @@ class FrigateWebSocketService {
     });
   }
   
+  /**
+   * Record reported toggle states and notify listeners if anything changed
+   */
+  private handleCameraState(camera: string, reported: Partial<CameraFeatureState>): void {
+    const previous = this.reportedCameraState[camera] ?? {};
+    const changed = (Object.keys(reported) as CameraFeature[]).some(feature => previous[feature] !== reported[feature]);
+    if (!changed) return;
+    
+    this.reportedCameraState[camera] = { ...previous, ...reported };
+    const state = this.getCameraState(camera);
+    if (!state) return;
+    
+    this.cameraStateCallbacks.forEach(callback => {
+      try {
+        callback(camera, state);
+      } catch (err) {
+        console.error('[FrigateWS] Camera state callback error:', err);
+      }
+    });
+  }
+  
   /**
    * Handle detection event message (for notifications)
    */
@@ -344,6 +539,66 @@ class FrigateWebSocketService {
     return cameras;
   }
   
+  /**
+   * Send a message to Frigate. Returns false if the socket isn't open.
+   */
+  publish(topic: string, payload: string | number | object): boolean {
+    if (this.ws?.readyState !== WebSocket.OPEN) {
+      console.warn(`[FrigateWS] Not connected, dropping ${topic}`);
+      return false;
+    }
+    
+    this.ws.send(JSON.stringify({
+      topic,
+      payload: typeof payload === 'object' ? JSON.stringify(payload) : payload,
+      retain: false,
+    }));
+    return true;
+  }
+  
+  /**
+   * Turn a camera feature on or off. The new state arrives through
+   * onCameraState once Frigate applies it.
+   */
+  setCameraFeature(camera: string, feature: CameraFeature, enabled: boolean): boolean {
+    console.log(`[FrigateWS] Setting ${camera}/${feature} ${enabled ? 'ON' : 'OFF'}`);
+    return this.publish(`${camera}/${feature}/set`, enabled ? 'ON' : 'OFF');
+  }
+  
+  /**
+   * Move, zoom or stop a PTZ camera, or go to a preset
+   */
+  sendPtzCommand(camera: string, command: PtzCommand): boolean {
+    return this.publish(`${camera}/ptz`, command);
+  }
+  
+  /**
+   * Current toggle states for a camera: what Frigate last reported, falling
+   * back to the config. Null if the camera isn't in the config.
+   */
+  getCameraState(camera: string): CameraFeatureState | null {
+    const config = frigateApi.getCachedConfig()?.cameras[camera];
+    if (!config) return null;
+    return { ...getConfiguredFeatureState(config), ...this.reportedCameraState[camera] };
+  }
+  
+  /**
+   * Subscribe to camera toggle state changes
+   */
+  onCameraState(callback: CameraStateCallback): () => void {
+    this.cameraStateCallbacks.add(callback);
+    return () => this.cameraStateCallbacks.delete(callback);
+  }
+  
+  /**
+   * Subscribe to audio levels (dBFS, 0 is loudest). Frigate only publishes
+   * these for cameras with audio detection enabled.
+   */
+  onAudioLevel(callback: AudioLevelCallback): () => void {
+    this.audioLevelCallbacks.add(callback);
+    return () => this.audioLevelCallbacks.delete(callback);
+  }
+  
   /**
    * Subscribe to detection events
    */
@@ -352,6 +607,14 @@ class FrigateWebSocketService {
     return () => this.eventCallbacks.delete(callback);
   }
   
+  /**
+   * Subscribe to review item updates
+   */
+  onReview(callback: ReviewCallback): () => void {
+    this.reviewCallbacks.add(callback);
+    return () => this.reviewCallbacks.delete(callback);
+  }
+  
   /**
    * Subscribe to connection status changes
    */
@@ -402,6 +665,26 @@ class FrigateWebSocketService {
     });
   }
   
+  private notifyReview(review: FrigateReviewMessage): void {
+    this.reviewCallbacks.forEach(callback => {
+      try {
+        callback(review);
+      } catch (err) {
+        console.error('[FrigateWS] Review callback error:', err);
+      }
+    });
+  }
+  
+  private notifyAudioLevel(camera: string, dBFS: number): void {
+    this.audioLevelCallbacks.forEach(callback => {
+      try {
+        callback(camera, dBFS);
+      } catch (err) {
+        console.error('[FrigateWS] Audio level callback error:', err);
+      }
+    });
+  }
+  
   private notifyStats(stats: any): void {
     this.statsCallbacks.forEach(callback => {
       try {
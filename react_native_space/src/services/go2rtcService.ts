@@ -28,13 +28,20 @@ export interface Go2RTCConfig {
 }
 
 class Go2RTCService {
-  private baseUrl: string = '';
   private configCache: Go2RTCConfig | null = null;
   private cacheExpiry: number = 0;
   private readonly CACHE_TTL = 60000; // 1 minute
 
   constructor() {
-    this.baseUrl = frigateApi.getBaseUrl();
+    frigateApi.onServerChange(() => {
+      this.configCache = null;
+      this.cacheExpiry = 0;
+    });
+  }
+
+  // Always read the active URL - it changes when switching between local and remote
+  private get baseUrl(): string {
+    return frigateApi.getBaseUrl();
   }
 
   /**
@@ -42,12 +49,7 @@ class Go2RTCService {
    */
   async isAvailable(): Promise<boolean> {
     try {
-      const token = frigateApi.getJWTToken();
-      const response = await fetch(`${this.baseUrl}/api/go2rtc/streams`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const response = await frigateApi.fetchWithAuth(`${this.baseUrl}/api/go2rtc/streams`);
       return response.ok;
     } catch (error) {
       console.error('[go2rtc] Availability check failed:', error);
@@ -60,12 +62,7 @@ class Go2RTCService {
    */
   async getStreams(): Promise<string[]> {
     try {
-      const token = frigateApi.getJWTToken();
-      const response = await fetch(`${this.baseUrl}/api/go2rtc/streams`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const response = await frigateApi.fetchWithAuth(`${this.baseUrl}/api/go2rtc/streams`);
       
       if (!response.ok) {
         console.error('[go2rtc] Failed to fetch streams:', response.status);
@@ -0,0 +1,66 @@
+import { PersistedStore } from './persistedStore';
+
+/**
+ * Live Wall
+ *
+ * Layouts for the multi-camera live screen. Each layout caps how many cells
+ * stream at once - phones struggle to decode more than a handful of videos,
+ * so the remaining cells show snapshots. Tiles play the camera's sub stream;
+ * only a focused camera switches to its main stream.
+ */
+
+export type LiveWallLayout = '2x2' | '3x3';
+
+export interface LiveWallLayoutSpec {
+  columns: number;
+  rows: number;
+  // Cells past this show the latest snapshot instead of a stream
+  maxStreams: number;
+}
+
+export const LIVE_WALL_LAYOUTS: Record<LiveWallLayout, LiveWallLayoutSpec> = {
+  '2x2': { columns: 2, rows: 2, maxStreams: 4 },
+  '3x3': { columns: 3, rows: 3, maxStreams: 6 },
+};
+
+const LIVE_WALL_LAYOUT_KEY = 'live_wall_layout';
+
+/**
+ * Cameras on one page of the wall, and which of them may stream
+ */
+export const getLiveWallPage = (
+  cameras: string[],
+  layout: LiveWallLayout,
+  page: number
+): { cameras: string[]; live: Set<string>; pageCount: number } => {
+  const { columns, rows, maxStreams } = LIVE_WALL_LAYOUTS[layout];
+  const pageSize = columns * rows;
+  const pageCount = Math.max(1, Math.ceil(cameras.length / pageSize));
+  const current = Math.min(Math.max(page, 0), pageCount - 1);
+  const visible = cameras.slice(current * pageSize, (current + 1) * pageSize);
+  return { cameras: visible, live: new Set(visible.slice(0, maxStreams)), pageCount };
+};
+
+class LiveWallSettings {
+  // Stored as the bare layout name
+  private layout = new PersistedStore<LiveWallLayout>(LIVE_WALL_LAYOUT_KEY, '2x2', {
+    name: 'LiveWall',
+    description: 'layout',
+    parse: stored => (stored in LIVE_WALL_LAYOUTS ? stored as LiveWallLayout : '2x2'),
+    serialize: layout => layout,
+  });
+
+  load(): Promise<void> {
+    return this.layout.load();
+  }
+
+  getLayout(): LiveWallLayout {
+    return this.layout.get();
+  }
+
+  async setLayout(layout: LiveWallLayout): Promise<void> {
+    await this.layout.set(layout);
+  }
+}
+
+export const liveWallSettings = new LiveWallSettings();
@@ -15,12 +15,27 @@ import { frigateApi } from './frigateApi';
 
 interface MSEStreamConfig {
   cameraName: string;
+  // go2rtc stream to play (defaults to the camera name), e.g. the sub stream
+  streamName?: string;
   onReady?: (localUrl: string) => void;
   onError?: (error: Error) => void;
   onCodecInfo?: (mimeType: string) => void;
   onStats?: (stats: { bytesReceived: number; chunks: number }) => void;
 }
 
+export interface MSEStreamStats {
+  running: boolean;
+  mimeType: string;
+  bytesReceived: number;
+  chunksReceived: number;
+  connectedClients: number;
+  hasInitSegment: boolean;
+  // Media segments held for clients that connect late
+  bufferSize: number;
+  serverPort: number;
+  timestamp: number;
+}
+
 interface ClientConnection {
   socket: any;
   headersSent: boolean;
@@ -268,7 +283,7 @@ export class MSEStreamService {
       
       // Convert HTTP to WS URL
       const wsBase = baseUrl.replace(/^http/, 'ws');
-      const wsUrl = `${wsBase}/api/go2rtc/api/ws?src=${encodeURIComponent(this.config.cameraName)}`;
+      const wsUrl = `${wsBase}/api/go2rtc/api/ws?src=${encodeURIComponent(this.config.streamName ?? this.config.cameraName)}`;
       
       console.log('[MSE Service] Connecting to WebSocket:', wsUrl);
       
@@ -391,7 +406,7 @@ export class MSEStreamService {
   }
 
   // Utility to get current stats
-  getStats() {
+  getStats(): MSEStreamStats {
     return {
       running: this.isRunning,
       mimeType: this.mimeType,
@@ -400,7 +415,8 @@ export class MSEStreamService {
       connectedClients: this.clients.size,
       hasInitSegment: this.initSegment !== null,
       bufferSize: this.mediaBuffer.length,
-      serverPort: this.serverPort
+      serverPort: this.serverPort,
+      timestamp: Date.now(),
     };
   }
 }
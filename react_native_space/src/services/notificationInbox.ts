@@ -0,0 +1,143 @@
+import { format, isToday, isYesterday } from 'date-fns';
+import { PersistedStore } from './persistedStore';
+
+/**
+ * Notification Inbox
+ *
+ * Every detection that raised a notification, kept after the OS notification
+ * is dismissed so it can be revisited. Stored as one JSON list in
+ * AsyncStorage, newest first and capped at MAX_ENTRIES.
+ */
+
+export interface InboxEntry {
+  // Frigate event id (unique per server)
+  eventId: string;
+  serverId: string | null;
+  camera: string;
+  label: string;
+  title: string;
+  body: string;
+  // Event start, Unix timestamp in SECONDS
+  startTime: number;
+  read: boolean;
+}
+
+export type InboxGrouping = 'time' | 'camera';
+
+export interface InboxSection {
+  title: string;
+  data: InboxEntry[];
+}
+
+export type InboxChangeCallback = (entries: InboxEntry[]) => void;
+
+const INBOX_KEY = 'notification_inbox';
+const MAX_ENTRIES = 200;
+
+const isSameEntry = (entry: InboxEntry, eventId: string, serverId: string | null) =>
+  entry.eventId === eventId && entry.serverId === serverId;
+
+const formatDay = (date: Date): string => {
+  if (isToday(date)) return 'Today';
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, 'EEEE, MMM d');
+};
+
+/**
+ * Group entries into sections by day or by camera. Entries are expected
+ * newest first; cameras are ordered by their latest entry.
+ */
+export const groupInboxEntries = (entries: InboxEntry[], grouping: InboxGrouping): InboxSection[] => {
+  const sections = new Map<string, InboxEntry[]>();
+  for (const entry of entries) {
+    const key = grouping === 'camera'
+      ? entry.camera.replace(/_/g, ' ')
+      : formatDay(new Date(entry.startTime * 1000));
+    const section = sections.get(key);
+    if (section) {
+      section.push(entry);
+    } else {
+      sections.set(key, [entry]);
+    }
+  }
+  return Array.from(sections, ([title, data]) => ({ title, data }));
+};
+
+class NotificationInboxStore {
+  private store = new PersistedStore<InboxEntry[]>(INBOX_KEY, [], {
+    name: 'NotificationInbox',
+    description: 'inbox',
+  });
+  private changeCallbacks: Set<InboxChangeCallback> = new Set();
+
+  load(): Promise<void> {
+    return this.store.load();
+  }
+
+  private get entries(): InboxEntry[] {
+    return this.store.get();
+  }
+
+  getEntries(serverId?: string | null): InboxEntry[] {
+    if (serverId === undefined) return this.entries;
+    return this.entries.filter(entry => entry.serverId === serverId);
+  }
+
+  getUnreadCount(serverId?: string | null): number {
+    return this.getEntries(serverId).filter(entry => !entry.read).length;
+  }
+
+  async add(entry: Omit<InboxEntry, 'read'>): Promise<void> {
+    await this.load();
+    await this.persist([
+      { ...entry, read: false },
+      ...this.entries.filter(existing => !isSameEntry(existing, entry.eventId, entry.serverId)),
+    ].slice(0, MAX_ENTRIES));
+  }
+
+  async markRead(eventId: string, serverId: string | null): Promise<void> {
+    await this.load();
+    const entry = this.entries.find(existing => isSameEntry(existing, eventId, serverId));
+    if (!entry || entry.read) return;
+    await this.persist(this.entries.map(existing => (existing === entry ? { ...existing, read: true } : existing)));
+  }
+
+  async markAllRead(serverId: string | null): Promise<void> {
+    await this.load();
+    await this.persist(this.entries.map(entry => (entry.serverId === serverId ? { ...entry, read: true } : entry)));
+  }
+
+  async dismiss(eventId: string, serverId: string | null): Promise<void> {
+    await this.load();
+    await this.persist(this.entries.filter(entry => !isSameEntry(entry, eventId, serverId)));
+  }
+
+  async clear(serverId: string | null): Promise<void> {
+    await this.load();
+    await this.persist(this.entries.filter(entry => entry.serverId !== serverId));
+  }
+
+  /**
+   * Subscribe to inbox changes
+   */
+  onChange(callback: InboxChangeCallback): () => void {
+    this.changeCallbacks.add(callback);
+    return () => this.changeCallbacks.delete(callback);
+  }
+
+  private async persist(entries: InboxEntry[]): Promise<void> {
+    const saved = this.store.set(entries);
+
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback(entries);
+      } catch (error) {
+        console.error('[NotificationInbox] Error in change callback:', error);
+      }
+    });
+
+    await saved;
+  }
+}
+
+export const notificationInbox = new NotificationInboxStore();
@@ -0,0 +1,261 @@
+import type { FrigateEvent, FrigateEventMessage } from './frigateWebSocket';
+import type { CameraGroupMap } from './cameraGroups';
+
+/**
+ * Notification Rules
+ *
+ * Decides which WebSocket detections are worth surfacing - both as OS
+ * notifications and in the dashboard's recent detections ribbon - and what
+ * notifications say. Kept free of React Native and storage imports so the
+ * rules can be exercised on plain event messages.
+ */
+
+export interface Schedule {
+  enabled: boolean;
+  // 0 = Sunday ... 6 = Saturday, empty for every day
+  days: number[];
+  // Minutes since local midnight. end <= start wraps past midnight and
+  // belongs to the day it started on; start === end covers the whole day.
+  start: number;
+  end: number;
+}
+
+export interface NotificationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Empty lists match anything
+  cameras: string[];
+  // Camera group ids - their cameras count as picked cameras
+  groups: string[];
+  labels: string[];
+  // The object must currently be in at least one of these zones
+  zones: string[];
+  // 0-1, compared against the tracked object's top_score
+  minScore: number;
+  includeStationary: boolean;
+  // Only notify inside this window
+  schedule: Schedule;
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  rules: NotificationRule[];
+  // No notifications inside this window, whatever the rules say
+  quietHours: Schedule;
+  // Minimum gap between notifications for the same camera, 0 to disable
+  cooldownSeconds: number;
+  // Unix timestamp in MILLISECONDS, null when not snoozed
+  snoozedUntil: number | null;
+}
+
+/**
+ * Runtime state the engine needs but doesn't own
+ */
+export interface NotificationState {
+  // camera -> when it last notified, in MILLISECONDS
+  lastNotifiedAt: Record<string, number>;
+}
+
+export type NotificationSkipReason =
+  | 'disabled'
+  | 'snoozed'
+  | 'no_match'
+  | 'outside_schedule'
+  | 'quiet_hours'
+  | 'cooldown';
+
+export type NotificationDecision =
+  | { notify: true; rule: NotificationRule }
+  | { notify: false; reason: NotificationSkipReason };
+
+export interface NotificationContent {
+  title: string;
+  body: string;
+}
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DEFAULT_SCHEDULE: Schedule = {
+  enabled: false,
+  days: [],
+  start: 0,
+  end: 0,
+};
+
+export const DEFAULT_QUIET_HOURS: Schedule = {
+  enabled: false,
+  days: [],
+  start: 22 * 60,
+  end: 7 * 60,
+};
+
+export const DEFAULT_NOTIFICATION_LABELS = [
+  'person', 'car', 'dog', 'cat', 'package', 'motorcycle', 'bicycle', 'face', 'license_plate',
+];
+
+export const createNotificationRule = (changes: Partial<NotificationRule> = {}): NotificationRule => ({
+  id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+  name: 'New Rule',
+  enabled: true,
+  cameras: [],
+  groups: [],
+  labels: [],
+  zones: [],
+  minScore: 0.5,
+  includeStationary: false,
+  schedule: DEFAULT_SCHEDULE,
+  ...changes,
+});
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  rules: [
+    createNotificationRule({
+      id: 'default',
+      name: 'Common objects',
+      labels: DEFAULT_NOTIFICATION_LABELS,
+    }),
+  ],
+  quietHours: DEFAULT_QUIET_HOURS,
+  cooldownSeconds: 0,
+  snoozedUntil: null,
+};
+
+const formatName = (name: string) =>
+  name.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+
+/**
+ * Parse "HH:MM" into minutes since midnight, null if it isn't a valid time
+ */
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+export const formatTimeOfDay = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Whether a time falls inside a schedule. Disabled schedules never match.
+ */
+export const isWithinSchedule = (schedule: Schedule, date: Date): boolean => {
+  if (!schedule.enabled) return false;
+
+  const onDay = (day: number) => schedule.days.length === 0 || schedule.days.includes(day);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const day = date.getDay();
+
+  if (schedule.start === schedule.end) return onDay(day);
+  if (schedule.start < schedule.end) {
+    return onDay(day) && minutes >= schedule.start && minutes < schedule.end;
+  }
+  // Overnight: the early-morning part belongs to the previous day's window
+  if (minutes >= schedule.start) return onDay(day);
+  if (minutes < schedule.end) return onDay((day + 6) % 7);
+  return false;
+};
+
+/**
+ * Whether a tracked object satisfies a rule's camera, label, zone, score
+ * and stationary conditions (the schedule is checked separately)
+ */
+export const matchesRule = (event: FrigateEvent, rule: NotificationRule, groups: CameraGroupMap = {}): boolean => {
+  if (!rule.enabled) return false;
+  if (rule.cameras.length > 0 || rule.groups.length > 0) {
+    const inGroup = rule.groups.some(id => (groups[id] ?? []).includes(event.camera));
+    if (!rule.cameras.includes(event.camera) && !inGroup) return false;
+  }
+  if (rule.labels.length > 0 && !rule.labels.includes(event.label)) return false;
+  if (rule.zones.length > 0 && !event.current_zones.some(zone => rule.zones.includes(zone))) return false;
+  if (!rule.includeStationary && event.stationary) return false;
+  return event.top_score >= rule.minScore;
+};
+
+/**
+ * First rule an event message matches, ignoring schedules. Updates are
+ * considered too since an object's top_score can climb past the threshold,
+ * or it can walk into a zone, after the "new" message - callers should act
+ * on each event id at most once.
+ */
+export const findMatchingRule = (
+  message: FrigateEventMessage,
+  rules: NotificationRule[],
+  groups: CameraGroupMap = {}
+): NotificationRule | null => {
+  if (message.type === 'end' || message.after.end_time) return null;
+  return rules.find(rule => matchesRule(message.after, rule, groups)) ?? null;
+};
+
+/**
+ * Whether an event message should raise a notification right now
+ */
+export const evaluateNotification = (
+  message: FrigateEventMessage,
+  settings: NotificationSettings,
+  state: NotificationState,
+  groups: CameraGroupMap = {},
+  now: number = Date.now()
+): NotificationDecision => {
+  if (!settings.enabled) return { notify: false, reason: 'disabled' };
+  if (settings.snoozedUntil !== null && now < settings.snoozedUntil) {
+    return { notify: false, reason: 'snoozed' };
+  }
+
+  if (message.type === 'end' || message.after.end_time) return { notify: false, reason: 'no_match' };
+  const matching = settings.rules.filter(rule => matchesRule(message.after, rule, groups));
+  if (matching.length === 0) return { notify: false, reason: 'no_match' };
+
+  const date = new Date(now);
+  const rule = matching.find(candidate => !candidate.schedule.enabled || isWithinSchedule(candidate.schedule, date));
+  if (!rule) return { notify: false, reason: 'outside_schedule' };
+
+  if (isWithinSchedule(settings.quietHours, date)) return { notify: false, reason: 'quiet_hours' };
+
+  const lastNotifiedAt = state.lastNotifiedAt[message.after.camera];
+  if (settings.cooldownSeconds > 0 && lastNotifiedAt !== undefined
+    && now - lastNotifiedAt < settings.cooldownSeconds * 1000) {
+    return { notify: false, reason: 'cooldown' };
+  }
+
+  return { notify: true, rule };
+};
+
+/**
+ * One-line summary of a rule's conditions for lists. groupNames maps group
+ * ids to display names; unknown ids are shown as deleted groups, which match
+ * nothing.
+ */
+export const describeRule = (rule: NotificationRule, groupNames: Record<string, string> = {}): string => {
+  const sources = [
+    ...rule.groups.map(id => groupNames[id] ?? 'Deleted group'),
+    ...rule.cameras.map(formatName),
+  ];
+  const parts = [
+    rule.labels.length > 0 ? rule.labels.map(formatName).join(', ') : 'Any object',
+    sources.length > 0 ? `on ${sources.join(', ')}` : 'on any camera',
+  ];
+  if (rule.zones.length > 0) parts.push(`in ${rule.zones.map(formatName).join(', ')}`);
+  parts.push(`≥ ${Math.round(rule.minScore * 100)}%`);
+  if (rule.schedule.enabled) {
+    parts.push(`${formatTimeOfDay(rule.schedule.start)}-${formatTimeOfDay(rule.schedule.end)}`);
+  }
+  return parts.join(' • ');
+};
+
+export const getNotificationContent = (event: FrigateEvent): NotificationContent => {
+  const subLabel = Array.isArray(event.sub_label) ? event.sub_label[0] : event.sub_label;
+  const label = formatName(event.label);
+  const zones = event.current_zones.map(formatName);
+
+  return {
+    title: `${subLabel ? `${subLabel} (${label})` : label} detected`,
+    body: zones.length > 0
+      ? `${formatName(event.camera)} • ${zones.join(', ')}`
+      : formatName(event.camera),
+  };
+};
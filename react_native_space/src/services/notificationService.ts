@@ -0,0 +1,345 @@
+import * as Notifications from 'expo-notifications';
+import { File, Paths } from 'expo-file-system';
+import { Platform } from 'react-native';
+import { frigateApi } from './frigateApi';
+import { frigateWebSocket, FrigateEventMessage } from './frigateWebSocket';
+import { notificationInbox } from './notificationInbox';
+import { cameraGroups, toCameraGroupMap, CameraGroupMap } from './cameraGroups';
+import { PersistedStore, serverScopedKey } from './persistedStore';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  DEFAULT_NOTIFICATION_LABELS,
+  NotificationRule,
+  NotificationSettings,
+  NotificationState,
+  createNotificationRule,
+  evaluateNotification,
+  getNotificationContent,
+} from './notificationRules';
+
+/**
+ * Notification Service
+ *
+ * Turns detections from the Frigate WebSocket into local OS notifications.
+ * There is no push server, so notifications only arrive while the app holds
+ * the WebSocket open. What gets notified is decided by notificationRules;
+ * this service owns the settings, cooldown state and delivery.
+ */
+
+export interface NotificationTarget {
+  eventId: string;
+  // Profile the event came from, so a tap can switch back to that server
+  serverId: string | null;
+}
+
+export type NotificationOpenCallback = (target: NotificationTarget) => void;
+export type NotificationSettingsCallback = (settings: NotificationSettings) => void;
+
+const SETTINGS_KEY = 'notification_settings';
+const ANDROID_CHANNEL_ID = 'detections';
+
+// Enough to de-duplicate the updates of recently tracked objects
+const MAX_NOTIFIED_EVENTS = 200;
+
+const parseStoredSettings = (stored: string): NotificationSettings => {
+  const { labels, minScore, ...saved } = JSON.parse(stored);
+  const settings: NotificationSettings = { ...DEFAULT_NOTIFICATION_SETTINGS, ...saved };
+  // Fill fields added to rules since they were saved (e.g. groups)
+  settings.rules = settings.rules.map(rule => createNotificationRule(rule));
+
+  // Settings from before rules existed had a single label list and score
+  if (!saved.rules && Array.isArray(labels)) {
+    settings.rules = [
+      createNotificationRule({
+        id: 'default',
+        name: 'Common objects',
+        labels: labels.length > 0 ? labels : DEFAULT_NOTIFICATION_LABELS,
+        minScore: typeof minScore === 'number' ? minScore : 0.5,
+      }),
+    ];
+  }
+  return settings;
+};
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+class NotificationService {
+  // Per server - rules name that server's cameras, zones and groups
+  private store = new PersistedStore<NotificationSettings>(() => serverScopedKey(SETTINGS_KEY), DEFAULT_NOTIFICATION_SETTINGS, {
+    name: 'Notifications',
+    description: 'settings',
+    // Settings were shared by every server before
+    legacyKey: SETTINGS_KEY,
+    parse: parseStoredSettings,
+  });
+  private notifiedEventIds: Set<string> = new Set();
+  private state: NotificationState = { lastNotifiedAt: {} };
+  // Kept up to date by cameraGroups callbacks rather than looked up per event
+  private groupMap: CameraGroupMap = {};
+  private groupsPromise: Promise<void> | null = null;
+  private openCallbacks: Set<NotificationOpenCallback> = new Set();
+  private settingsCallbacks: Set<NotificationSettingsCallback> = new Set();
+  // A tap that arrived before anything was listening (e.g. it launched the app)
+  private pendingOpen: NotificationTarget | null = null;
+  // The launch tap is reported by both the listener and getLastNotificationResponseAsync
+  private lastResponseKey: string | null = null;
+
+  constructor() {
+    frigateWebSocket.onEvent((event) => {
+      this.handleEvent(event).catch((error) => console.error('[Notifications] Failed to handle event:', error));
+    });
+    frigateApi.onServerChange(() => this.handleServerChange());
+    cameraGroups.onChange(() => {
+      this.groupMap = cameraGroups.getGroupMap();
+    });
+
+    Notifications.addNotificationResponseReceivedListener((response) => this.handleResponse(response));
+    Notifications.getLastNotificationResponseAsync()
+      .then((response) => {
+        if (response) this.handleResponse(response);
+      })
+      .catch((error) => console.warn('[Notifications] Failed to read launch notification:', error));
+  }
+
+  load(): Promise<void> {
+    return this.store.load();
+  }
+
+  private get settings(): NotificationSettings {
+    return this.store.get();
+  }
+
+  getSettings(): NotificationSettings {
+    return this.settings;
+  }
+
+  /**
+   * Update notification settings. Turning notifications on asks for OS
+   * permission first and throws if it is refused.
+   */
+  async updateSettings(changes: Partial<NotificationSettings>): Promise<NotificationSettings> {
+    await this.load();
+
+    if (changes.enabled && !this.settings.enabled) {
+      const granted = await this.requestPermission();
+      if (!granted) {
+        throw new Error('Notification permission was denied. Enable notifications for Aviant in your device settings.');
+      }
+    }
+
+    await this.store.set({ ...this.settings, ...changes });
+    this.notifySettingsChange();
+    return this.settings;
+  }
+
+  private notifySettingsChange(): void {
+    this.settingsCallbacks.forEach(callback => {
+      try {
+        callback(this.settings);
+      } catch (error) {
+        console.error('[Notifications] Error in settings callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Switch to the new server's settings; cooldowns were for its cameras' namesakes
+   */
+  private async handleServerChange(): Promise<void> {
+    this.state = { lastNotifiedAt: {} };
+    this.groupMap = {};
+    this.groupsPromise = null;
+    await this.load();
+    this.notifySettingsChange();
+  }
+
+  /**
+   * Add a rule or replace the one with the same id
+   */
+  async saveRule(rule: NotificationRule): Promise<NotificationSettings> {
+    await this.load();
+    const exists = this.settings.rules.some(existing => existing.id === rule.id);
+    const rules = exists
+      ? this.settings.rules.map(existing => (existing.id === rule.id ? rule : existing))
+      : [...this.settings.rules, rule];
+    return this.updateSettings({ rules });
+  }
+
+  async deleteRule(ruleId: string): Promise<NotificationSettings> {
+    await this.load();
+    return this.updateSettings({ rules: this.settings.rules.filter(rule => rule.id !== ruleId) });
+  }
+
+  /**
+   * Silence notifications for a number of minutes, null to resume
+   */
+  snooze(minutes: number | null): Promise<NotificationSettings> {
+    return this.updateSettings({
+      snoozedUntil: minutes === null ? null : Date.now() + minutes * 60 * 1000,
+    });
+  }
+
+  /**
+   * Subscribe to settings changes
+   */
+  onSettingsChange(callback: NotificationSettingsCallback): () => void {
+    this.settingsCallbacks.add(callback);
+    return () => this.settingsCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribe to notification taps. A tap that happened before the first
+   * subscriber (the one that launched the app) is delivered immediately.
+   */
+  onNotificationOpen(callback: NotificationOpenCallback): () => void {
+    this.openCallbacks.add(callback);
+    if (this.pendingOpen) {
+      const target = this.pendingOpen;
+      this.pendingOpen = null;
+      callback(target);
+    }
+    return () => this.openCallbacks.delete(callback);
+  }
+
+  private async requestPermission(): Promise<boolean> {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+        name: 'Detections',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  }
+
+  /**
+   * Load the groups once per server. fetchGroups() loads the config if
+   * needed, so Frigate groups aren't missed.
+   */
+  private loadGroups(): Promise<void> {
+    if (!this.groupsPromise) {
+      const promise: Promise<void> = cameraGroups.fetchGroups()
+        .then(groups => {
+          // Skip groups of a server switched away from meanwhile
+          if (this.groupsPromise === promise) this.groupMap = toCameraGroupMap(groups);
+        })
+        .catch(error => {
+          // Try again on the next event
+          if (this.groupsPromise === promise) this.groupsPromise = null;
+          throw error;
+        });
+      this.groupsPromise = promise;
+    }
+    return this.groupsPromise;
+  }
+
+  private async handleEvent(message: FrigateEventMessage): Promise<void> {
+    await Promise.all([this.load(), this.loadGroups()]);
+
+    const event = message.after;
+    if (this.notifiedEventIds.has(event.id)) return;
+
+    const decision = evaluateNotification(message, this.settings, this.state, this.groupMap);
+    if (!decision.notify) {
+      // Don't notify a suppressed object later, once quiet hours or a cooldown end
+      if (decision.reason === 'no_match' || decision.reason === 'disabled') return;
+      console.log(`[Notifications] Skipped ${event.label} on ${event.camera}: ${decision.reason}`);
+    }
+
+    this.notifiedEventIds.add(event.id);
+    if (this.notifiedEventIds.size > MAX_NOTIFIED_EVENTS) {
+      const oldest = this.notifiedEventIds.values().next().value;
+      if (oldest) this.notifiedEventIds.delete(oldest);
+    }
+    if (!decision.notify) return;
+
+    this.state.lastNotifiedAt[event.camera] = Date.now();
+
+    const target: NotificationTarget = {
+      eventId: event.id,
+      serverId: frigateApi.getActiveServer()?.id ?? null,
+    };
+
+    const content = getNotificationContent(event);
+    await notificationInbox.add({
+      ...target,
+      camera: event.camera,
+      label: event.label,
+      ...content,
+      startTime: event.start_time,
+    });
+
+    try {
+      const attachment = await this.downloadThumbnail(event.id);
+      await Notifications.scheduleNotificationAsync({
+        identifier: event.id,
+        content: {
+          ...content,
+          data: { ...target },
+          attachments: attachment ? [{ identifier: event.id, url: attachment, type: 'image' }] : undefined,
+        },
+        trigger: Platform.OS === 'android' ? { channelId: ANDROID_CHANNEL_ID } : null,
+      });
+      console.log(`[Notifications] Notified ${event.label} on ${event.camera} (rule: ${decision.rule.name})`);
+    } catch (error) {
+      console.error('[Notifications] Failed to show notification:', error);
+    }
+  }
+
+  /**
+   * iOS can only attach local files, so the event thumbnail is fetched into
+   * the cache first. Android local notifications don't show images.
+   */
+  private async downloadThumbnail(eventId: string): Promise<string | null> {
+    if (Platform.OS !== 'ios') return null;
+
+    try {
+      const destination = new File(Paths.cache, `notification_${eventId}.jpg`);
+      const file = await File.downloadFileAsync(frigateApi.getEventThumbnailUrl(eventId), destination, {
+        idempotent: true,
+      });
+      return file.uri;
+    } catch (error) {
+      console.warn('[Notifications] Failed to download thumbnail:', error);
+      return null;
+    }
+  }
+
+  private handleResponse(response: Notifications.NotificationResponse): void {
+    const { request, date } = response.notification;
+    const responseKey = `${request.identifier}:${date}`;
+    if (responseKey === this.lastResponseKey) return;
+    this.lastResponseKey = responseKey;
+
+    const data = request.content.data as Partial<NotificationTarget> | undefined;
+    if (!data?.eventId) return;
+
+    const target: NotificationTarget = { eventId: data.eventId, serverId: data.serverId ?? null };
+    notificationInbox.markRead(target.eventId, target.serverId);
+    if (this.openCallbacks.size === 0) {
+      this.pendingOpen = target;
+      return;
+    }
+
+    this.openCallbacks.forEach(callback => {
+      try {
+        callback(target);
+      } catch (error) {
+        console.error('[Notifications] Error in open callback:', error);
+      }
+    });
+  }
+}
+
+export const notificationService = new NotificationService();
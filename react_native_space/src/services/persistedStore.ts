@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { frigateApi } from './frigateApi';
+
+/**
+ * Persisted Store
+ *
+ * One value kept in AsyncStorage for the app's settings stores: read once on
+ * the first load(), written whole on every change. Values that belong to a
+ * server either key their entries with serverScopedKey() - camera names
+ * repeat across servers - or pass a key function, in which case load()
+ * reads the active server's copy again after a server switch.
+ */
+
+export type StorageKey = string | (() => string);
+
+export interface PersistedStoreOptions<T> {
+  // Log prefix, e.g. 'CameraGroups'
+  name: string;
+  // What is stored, for log messages, e.g. 'groups'
+  description: string;
+  // Read when nothing is stored under the key yet (a key used by older versions)
+  legacyKey?: StorageKey;
+  // Defaults to JSON; a throwing parse keeps the initial value
+  parse?: (stored: string) => T;
+  serialize?: (value: T) => string;
+}
+
+/**
+ * Id of the active server profile, 'default' before one is picked
+ */
+export const activeServerKey = (): string => frigateApi.getActiveServer()?.id ?? 'default';
+
+export const serverScopedKey = (key: string): string => `${activeServerKey()}:${key}`;
+
+const resolveKey = (key: StorageKey): string => (typeof key === 'function' ? key() : key);
+
+export class PersistedStore<T> {
+  private value: T;
+  private loadPromise: Promise<void> | null = null;
+  // Key the value in memory belongs to, null until the first load or set
+  private loadedKey: string | null = null;
+
+  constructor(
+    private storageKey: StorageKey,
+    private initialValue: T,
+    private options: PersistedStoreOptions<T>
+  ) {
+    this.value = initialValue;
+  }
+
+  /**
+   * Load the stored value (safe to call repeatedly)
+   */
+  load(): Promise<void> {
+    const key = resolveKey(this.storageKey);
+    if (!this.loadPromise || this.loadedKey !== key) {
+      this.loadedKey = key;
+      this.value = this.initialValue;
+      this.loadPromise = (async () => {
+        try {
+          let stored = await AsyncStorage.getItem(key);
+          if (!stored && this.options.legacyKey) {
+            stored = await AsyncStorage.getItem(resolveKey(this.options.legacyKey));
+          }
+          // A server switch while reading makes this a stale copy
+          if (stored && this.loadedKey === key) {
+            this.value = this.options.parse ? this.options.parse(stored) : JSON.parse(stored);
+          }
+        } catch (error) {
+          console.warn(`[${this.options.name}] Failed to load ${this.options.description}:`, error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * The loaded value, or the initial one if the active server's copy isn't
+   * loaded yet
+   */
+  get(): T {
+    return this.loadedKey === resolveKey(this.storageKey) ? this.value : this.initialValue;
+  }
+
+  /**
+   * Replace the value in memory straight away, then save it
+   */
+  async set(value: T): Promise<void> {
+    const key = resolveKey(this.storageKey);
+    // The value is replaced whole, so there's nothing left to load for this key
+    if (this.loadedKey !== key || !this.loadPromise) this.loadPromise = Promise.resolve();
+    this.loadedKey = key;
+    this.value = value;
+    try {
+      const serialized = this.options.serialize ? this.options.serialize(value) : JSON.stringify(value);
+      await AsyncStorage.setItem(key, serialized);
+    } catch (error) {
+      console.warn(`[${this.options.name}] Failed to save ${this.options.description}:`, error);
+    }
+  }
+
+  /**
+   * Back to the initial value, removing it from storage
+   */
+  async clear(): Promise<void> {
+    const key = resolveKey(this.storageKey);
+    if (this.loadedKey !== key || !this.loadPromise) this.loadPromise = Promise.resolve();
+    this.loadedKey = key;
+    this.value = this.initialValue;
+    try {
+      await AsyncStorage.removeItem(key);
+    } catch (error) {
+      console.warn(`[${this.options.name}] Failed to clear ${this.options.description}:`, error);
+    }
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Playback Controls
+ *
+ * Speeds, skip sizes and event navigation for recording playback on the
+ * camera screen. Playback positions are Unix timestamps in SECONDS, like
+ * Frigate's event times.
+ */
+
+export const PLAYBACK_RATES = [0.5, 1, 2, 4, 8, 16];
+
+export const SKIP_SHORT_SECONDS = 10;
+export const SKIP_LONG_SECONDS = 60;
+
+// Recordings are usually 5-15 fps, so this lands on the next frame or the one after
+export const FRAME_STEP_SECONDS = 0.1;
+
+// Already this far into an event, "previous" goes to the one before it rather
+// than back to its start
+const EVENT_JUMP_TOLERANCE = 2;
+
+export const formatPlaybackRate = (rate: number): string => `${rate}×`;
+
+/**
+ * The closest event starting after (direction 1) or before (direction -1) a
+ * playback position, or null if there isn't one loaded
+ */
+export const findAdjacentEvent = <T extends { start_time: number }>(
+  events: T[],
+  position: number,
+  direction: 1 | -1
+): T | null => {
+  let adjacent: T | null = null;
+
+  for (const event of events) {
+    const isCandidate = direction === 1
+      ? event.start_time > position
+      : event.start_time < position - EVENT_JUMP_TOLERANCE;
+    if (!isCandidate) continue;
+
+    if (!adjacent || (direction === 1 ? event.start_time < adjacent.start_time : event.start_time > adjacent.start_time)) {
+      adjacent = event;
+    }
+  }
+
+  return adjacent;
+};
@@ -0,0 +1,62 @@
+import type { RecordingSegment } from './frigateRecordingsApi';
+
+/**
+ * Recording Coverage
+ *
+ * Turns Frigate's recording segments into the spans the timeline draws where
+ * footage exists (anything between them is a gap). Also snaps a scrubbed time
+ * out of a gap onto the nearest footage, since a clip request that covers no
+ * recordings fails to play. All times are Unix timestamps in SECONDS.
+ */
+
+export interface RecordingSpan {
+  start: number;
+  end: number;
+}
+
+// Segments closer together than this are treated as continuous footage
+const SPAN_GAP_TOLERANCE = 5;
+
+// Snapping back onto the end of earlier footage starts this far before its end
+const SNAP_LEAD_SECONDS = 10;
+
+/**
+ * Merge consecutive segments into continuous spans, oldest first
+ */
+export const buildRecordingSpans = (segments: RecordingSegment[]): RecordingSpan[] => {
+  const sorted = [...segments].sort((a, b) => a.start_time - b.start_time);
+  const spans: RecordingSpan[] = [];
+
+  for (const segment of sorted) {
+    const last = spans[spans.length - 1];
+    if (last && segment.start_time - last.end <= SPAN_GAP_TOLERANCE) {
+      last.end = Math.max(last.end, segment.end_time);
+    } else {
+      spans.push({ start: segment.start_time, end: segment.end_time });
+    }
+  }
+
+  return spans;
+};
+
+export const isInRecording = (spans: RecordingSpan[], time: number): boolean =>
+  spans.some(span => time >= span.start && time <= span.end);
+
+/**
+ * The time itself if there is footage then, otherwise the closest point that
+ * has some: the start of the next span, or shortly before the end of the
+ * previous one. Null when there are no recordings at all.
+ */
+export const findNearestFootage = (spans: RecordingSpan[], time: number): number | null => {
+  if (spans.length === 0) return null;
+  if (isInRecording(spans, time)) return time;
+
+  const next = spans.find(span => span.start > time);
+  const previous = [...spans].reverse().find(span => span.end < time);
+
+  const fromPrevious = previous ? Math.max(previous.start, previous.end - SNAP_LEAD_SECONDS) : null;
+  if (next && (!previous || next.start - time <= time - previous.end)) {
+    return next.start;
+  }
+  return fromPrevious;
+};
@@ -0,0 +1,50 @@
+import type { PreviewClip } from './frigateRecordingsApi';
+
+/**
+ * Scrub Preview
+ *
+ * Picks what to show while the timeline is being dragged: a frame from the
+ * hour's low-resolution preview MP4, or for the current hour (whose preview
+ * isn't assembled yet) the nearest cached preview frame. The full recording
+ * is only requested once the scrub settles. All times are Unix timestamps in
+ * SECONDS.
+ */
+
+export type ScrubPreviewSource =
+  // Seek the clip to offset seconds from its start
+  | { type: 'clip'; clip: PreviewClip; offset: number }
+  | { type: 'frame'; fileName: string; time: number };
+
+// Preview frames are only written every few seconds (less often without motion)
+const FRAME_TOLERANCE_SECONDS = 60;
+
+/**
+ * Time a preview frame was captured, from its file name
+ * (preview_<camera>-<timestamp>.webp)
+ */
+export const parsePreviewFrameTime = (fileName: string): number | null => {
+  const match = fileName.match(/-(\d+(?:\.\d+)?)\.webp$/);
+  return match ? parseFloat(match[1]) : null;
+};
+
+export const findScrubPreview = (
+  time: number,
+  clips: PreviewClip[],
+  frames: string[]
+): ScrubPreviewSource | null => {
+  const clip = clips.find(candidate => time >= candidate.start && time < candidate.end);
+  if (clip) {
+    return { type: 'clip', clip, offset: time - clip.start };
+  }
+
+  let nearest: { fileName: string; time: number } | null = null;
+  for (const fileName of frames) {
+    const frameTime = parsePreviewFrameTime(fileName);
+    if (frameTime === null || Math.abs(frameTime - time) > FRAME_TOLERANCE_SECONDS) continue;
+    if (!nearest || Math.abs(frameTime - time) < Math.abs(nearest.time - time)) {
+      nearest = { fileName, time: frameTime };
+    }
+  }
+
+  return nearest ? { type: 'frame', ...nearest } : null;
+};
@@ -0,0 +1,245 @@
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * Server Profiles
+ *
+ * Named Frigate servers (home, office, cabin...), each with its own URLs,
+ * credentials and JWT. Profile metadata is stored as one JSON list; the
+ * password and token live under per-profile SecureStore keys.
+ */
+
+const PROFILES_KEY = 'frigate_server_profiles';
+const ACTIVE_PROFILE_KEY = 'frigate_active_profile';
+
+// Single-server keys used before profiles existed - migrated on first load
+const LEGACY_URL_KEY = 'frigate_url';
+const LEGACY_LOCAL_URL_KEY = 'frigate_local_url';
+const LEGACY_REMOTE_URL_KEY = 'frigate_remote_url';
+const LEGACY_USERNAME_KEY = 'frigate_username';
+const LEGACY_PASSWORD_KEY = 'frigate_password';
+const LEGACY_JWT_TOKEN_KEY = 'frigate_jwt_token';
+
+const passwordKey = (profileId: string) => `frigate_profile_${profileId}_password`;
+const tokenKey = (profileId: string) => `frigate_profile_${profileId}_jwt_token`;
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  localUrl: string | null;
+  remoteUrl: string | null;
+  username: string;
+}
+
+export interface ServerCredentials {
+  password: string | null;
+  token: string | null;
+}
+
+export type ProfilesChangeCallback = (profiles: ServerProfile[], activeProfileId: string | null) => void;
+
+/**
+ * Default profile name from a URL: the hostname without "www."
+ */
+export const getDefaultServerName = (url?: string | null): string => {
+  if (!url) return 'Frigate';
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch (error) {
+    return url;
+  }
+};
+
+// SecureStore keys only allow alphanumerics, ".", "-" and "_"
+const generateProfileId = (): string =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+class ServerProfileStore {
+  private profiles: ServerProfile[] = [];
+  private activeProfileId: string | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private changeCallbacks: Set<ProfilesChangeCallback> = new Set();
+
+  /**
+   * Load profiles from storage (once), migrating a legacy single-server session
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromStorage().catch(error => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    const stored = await SecureStore.getItemAsync(PROFILES_KEY);
+    if (stored) {
+      try {
+        const parsed = JSON.parse(stored);
+        this.profiles = Array.isArray(parsed) ? parsed : [];
+      } catch (error) {
+        console.error('[ServerProfiles] Failed to parse stored profiles:', error);
+        this.profiles = [];
+      }
+      this.activeProfileId = await SecureStore.getItemAsync(ACTIVE_PROFILE_KEY);
+    } else {
+      await this.migrateLegacySession();
+    }
+
+    if (this.activeProfileId && !this.getProfile(this.activeProfileId)) {
+      this.activeProfileId = null;
+    }
+    console.log('[ServerProfiles] Loaded', this.profiles.length, 'profile(s), active:', this.activeProfileId);
+  }
+
+  private async migrateLegacySession(): Promise<void> {
+    const url = await SecureStore.getItemAsync(LEGACY_URL_KEY);
+    const username = await SecureStore.getItemAsync(LEGACY_USERNAME_KEY);
+    if (!url || !username) return;
+
+    const localUrl = await SecureStore.getItemAsync(LEGACY_LOCAL_URL_KEY);
+    const remoteUrl = await SecureStore.getItemAsync(LEGACY_REMOTE_URL_KEY);
+    const password = await SecureStore.getItemAsync(LEGACY_PASSWORD_KEY);
+    const token = await SecureStore.getItemAsync(LEGACY_JWT_TOKEN_KEY);
+
+    const profile: ServerProfile = {
+      id: generateProfileId(),
+      name: getDefaultServerName(localUrl || url),
+      localUrl: localUrl || url,
+      remoteUrl: remoteUrl || null,
+      username,
+    };
+
+    this.profiles = [profile];
+    this.activeProfileId = profile.id;
+    await this.persist();
+    await this.saveCredentials(profile.id, password, token);
+
+    for (const key of [
+      LEGACY_URL_KEY,
+      LEGACY_LOCAL_URL_KEY,
+      LEGACY_REMOTE_URL_KEY,
+      LEGACY_USERNAME_KEY,
+      LEGACY_PASSWORD_KEY,
+      LEGACY_JWT_TOKEN_KEY,
+    ]) {
+      await SecureStore.deleteItemAsync(key);
+    }
+    console.log('[ServerProfiles] Migrated single-server session to profile:', profile.name);
+  }
+
+  private async persist(): Promise<void> {
+    await SecureStore.setItemAsync(PROFILES_KEY, JSON.stringify(this.profiles));
+    if (this.activeProfileId) {
+      await SecureStore.setItemAsync(ACTIVE_PROFILE_KEY, this.activeProfileId);
+    } else {
+      await SecureStore.deleteItemAsync(ACTIVE_PROFILE_KEY);
+    }
+
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback(this.getProfiles(), this.activeProfileId);
+      } catch (err) {
+        console.error('[ServerProfiles] Change callback error:', err);
+      }
+    });
+  }
+
+  getProfiles(): ServerProfile[] {
+    return [...this.profiles];
+  }
+
+  getProfile(profileId: string): ServerProfile | null {
+    return this.profiles.find(profile => profile.id === profileId) ?? null;
+  }
+
+  getActiveProfile(): ServerProfile | null {
+    return this.activeProfileId ? this.getProfile(this.activeProfileId) : null;
+  }
+
+  getActiveProfileId(): string | null {
+    return this.activeProfileId;
+  }
+
+  /**
+   * Create a profile, or update the existing one for the same user and URLs
+   */
+  async upsertProfile(details: Omit<ServerProfile, 'id'>): Promise<ServerProfile> {
+    await this.load();
+
+    const existing = this.profiles.find(profile =>
+      profile.username === details.username &&
+      profile.localUrl === details.localUrl &&
+      profile.remoteUrl === details.remoteUrl
+    );
+
+    if (existing) {
+      Object.assign(existing, details);
+      await this.persist();
+      return existing;
+    }
+
+    const profile: ServerProfile = { id: generateProfileId(), ...details };
+    this.profiles.push(profile);
+    await this.persist();
+    return profile;
+  }
+
+  async renameProfile(profileId: string, name: string): Promise<void> {
+    const profile = this.getProfile(profileId);
+    if (!profile || !name.trim()) return;
+    profile.name = name.trim();
+    await this.persist();
+  }
+
+  async setActiveProfile(profileId: string | null): Promise<void> {
+    this.activeProfileId = profileId;
+    await this.persist();
+  }
+
+  /**
+   * Delete a profile and its stored secrets
+   */
+  async removeProfile(profileId: string): Promise<void> {
+    this.profiles = this.profiles.filter(profile => profile.id !== profileId);
+    if (this.activeProfileId === profileId) {
+      this.activeProfileId = null;
+    }
+    await SecureStore.deleteItemAsync(passwordKey(profileId));
+    await SecureStore.deleteItemAsync(tokenKey(profileId));
+    await this.persist();
+  }
+
+  async getCredentials(profileId: string): Promise<ServerCredentials> {
+    return {
+      password: await SecureStore.getItemAsync(passwordKey(profileId)),
+      token: await SecureStore.getItemAsync(tokenKey(profileId)),
+    };
+  }
+
+  async saveCredentials(profileId: string, password: string | null, token: string | null): Promise<void> {
+    if (password) {
+      await SecureStore.setItemAsync(passwordKey(profileId), password);
+    }
+    await this.saveToken(profileId, token);
+  }
+
+  async saveToken(profileId: string, token: string | null): Promise<void> {
+    if (token) {
+      await SecureStore.setItemAsync(tokenKey(profileId), token);
+    } else {
+      await SecureStore.deleteItemAsync(tokenKey(profileId));
+    }
+  }
+
+  /**
+   * Subscribe to profile list / active profile changes
+   */
+  onChange(callback: ProfilesChangeCallback): () => void {
+    this.changeCallbacks.add(callback);
+    return () => this.changeCallbacks.delete(callback);
+  }
+}
+
+export const serverProfiles = new ServerProfileStore();
@@ -0,0 +1,438 @@
+import { Platform } from 'react-native';
+import { frigateApi } from './frigateApi';
+import { PersistedStore, serverScopedKey } from './persistedStore';
+import { connectionManager, EndpointKind } from './connectionManager';
+
+/**
+ * Stream Negotiator
+ *
+ * Decides how a camera is streamed and drives the fallback chain, so the live
+ * screen and the dashboard thumbnails don't each carry their own copy of it:
+ * - Picks an ordered protocol chain from the codec, platform and network
+ * - Remembers per camera which protocol last played and which ones its codec
+ *   can't use, so the codec lookup and dead ends are skipped next time
+ * - Moves down the chain when a transport fails, then retries the whole chain
+ *   with exponential backoff
+ *
+ * The negotiator doesn't own any players - a StreamSession tells its consumer
+ * which protocol to start (phase 'connecting') and the consumer reports back
+ * with reportPlaying / reportFailure.
+ */
+
+export type StreamProtocol = 'webrtc' | 'mse' | 'hls';
+
+/**
+ * Where the stream is shown. The transports differ: the live screen plays
+ * MSE through the native fMP4 proxy, thumbnails through a WebView.
+ */
+export type StreamSurface = 'live' | 'thumbnail';
+
+/**
+ * - idle: not started, or stopped
+ * - negotiating: looking up the codec / choosing the chain
+ * - connecting: the consumer should start `protocol`
+ * - playing: the consumer reported media on screen
+ * - backoff: every protocol failed, waiting until retryAt to try again
+ * - failed: out of retries (retry() starts over)
+ */
+export type StreamPhase = 'idle' | 'negotiating' | 'connecting' | 'playing' | 'backoff' | 'failed';
+
+export interface StreamState {
+  phase: StreamPhase;
+  protocol: StreamProtocol | null;
+  // Bumped every time a transport should (re)start - consumers key effects on it
+  attempt: number;
+  // Passes through the chain that ended in failure since the last success
+  round: number;
+  retryAt: number | null;
+  error: string | null;
+}
+
+export interface StreamContext {
+  codec: string;
+  platform: typeof Platform.OS;
+  networkType: string | null;
+  endpoint: EndpointKind;
+}
+
+export interface StreamDecision {
+  codec: string;
+  codecCheckedAt: number;
+  // Protocol that last played, per endpoint (local and remote behave differently)
+  working: Partial<Record<EndpointKind, StreamProtocol>>;
+  // Protocols that failed on the codec itself - not worth retrying
+  unsupported: StreamProtocol[];
+}
+
+export interface StreamSessionOptions {
+  cameraName: string;
+  // go2rtc stream to play (defaults to the camera name)
+  streamName?: string;
+  surface: StreamSurface;
+}
+
+export interface StreamFailureOptions {
+  // The protocol can't play this camera's codec at all
+  unsupported?: boolean;
+}
+
+export type StreamStateCallback = (state: StreamState) => void;
+
+const DECISIONS_KEY = 'stream_decisions';
+
+// Codecs rarely change - look them up again once a day
+const CODEC_TTL = 24 * 60 * 60 * 1000;
+
+// A transport that hasn't shown anything by now has failed
+const CONNECT_TIMEOUT = 15000;
+
+const BACKOFF_BASE = 1000;
+const BACKOFF_MAX = 30000;
+export const MAX_RETRY_ROUNDS = 5;
+
+const isH265 = (codec: string) => codec === 'hevc' || codec === 'h265';
+
+/**
+ * Ordered protocols to try for a stream, before cached decisions are applied.
+ * - WebRTC can't carry H265, and with only STUN servers it often can't get
+ *   through NAT from outside the home network - MSE goes over the same
+ *   WebSocket as the API, so it leads on remote endpoints and cellular
+ * - WebView MSE (thumbnails) lacks HEVC on most devices, so H265 thumbnails
+ *   go straight to HLS
+ * - HLS always works but has seconds of latency, so it's the last resort
+ */
+export const chooseProtocols = (surface: StreamSurface, context: StreamContext): StreamProtocol[] => {
+  const h265 = isH265(context.codec);
+
+  if (surface === 'thumbnail') {
+    return h265 ? ['hls'] : ['mse', 'hls'];
+  }
+
+  if (h265) return ['mse', 'hls'];
+  // The fMP4 proxy needs native TCP sockets
+  if (context.platform === 'web') return ['webrtc', 'hls'];
+  if (context.endpoint === 'remote' || context.networkType === 'CELLULAR') {
+    return ['mse', 'webrtc', 'hls'];
+  }
+  return ['webrtc', 'mse', 'hls'];
+};
+
+/**
+ * Drop protocols known not to work and move the one that last played to the
+ * front. If that would leave nothing, the full chain is tried again.
+ */
+export const applyDecision = (
+  chain: StreamProtocol[],
+  decision: StreamDecision | undefined,
+  endpoint: EndpointKind
+): StreamProtocol[] => {
+  if (!decision) return chain;
+  const usable = chain.filter(protocol => !decision.unsupported.includes(protocol));
+  if (usable.length === 0) return chain;
+  const working = decision.working[endpoint];
+  if (!working || !usable.includes(working)) return usable;
+  return [working, ...usable.filter(protocol => protocol !== working)];
+};
+
+export const getBackoffDelay = (round: number): number =>
+  Math.min(BACKOFF_BASE * 2 ** Math.max(round - 1, 0), BACKOFF_MAX);
+
+/**
+ * One stream being shown somewhere. Create it through streamNegotiator.
+ */
+export class StreamSession {
+  private options: StreamSessionOptions;
+  private state: StreamState = {
+    phase: 'idle',
+    protocol: null,
+    attempt: 0,
+    round: 0,
+    retryAt: null,
+    error: null,
+  };
+  private chain: StreamProtocol[] = [];
+  private chainIndex = 0;
+  private endpoint: EndpointKind = 'local';
+  // Invalidates in-flight negotiations when the session restarts or stops
+  private generation = 0;
+  private connectTimeout: NodeJS.Timeout | null = null;
+  private backoffTimeout: NodeJS.Timeout | null = null;
+  private unsubscribeBaseUrl: (() => void) | null = null;
+  private stateCallbacks: Set<StreamStateCallback> = new Set();
+
+  constructor(options: StreamSessionOptions) {
+    this.options = options;
+  }
+
+  private get key(): string {
+    return streamNegotiator.getDecisionKey(this.streamName, this.options.surface);
+  }
+
+  get streamName(): string {
+    return this.options.streamName ?? this.options.cameraName;
+  }
+
+  getState(): StreamState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to state changes. Returns an unsubscribe function.
+   */
+  onStateChange(callback: StreamStateCallback): () => void {
+    this.stateCallbacks.add(callback);
+    return () => this.stateCallbacks.delete(callback);
+  }
+
+  /**
+   * Choose a chain and start at its first protocol. Also re-negotiates when the
+   * app switches between the local and remote URL.
+   */
+  async start(): Promise<void> {
+    if (this.state.phase !== 'idle') return;
+
+    if (!this.unsubscribeBaseUrl) {
+      this.unsubscribeBaseUrl = frigateApi.onBaseUrlChange(() => {
+        if (this.state.phase === 'idle') return;
+        console.log(`[StreamNegotiator] ${this.streamName}: Frigate URL changed, renegotiating`);
+        this.negotiate();
+      });
+    }
+
+    await this.negotiate();
+  }
+
+  /**
+   * Stop and forget the current attempt (the consumer tears its transport down)
+   */
+  stop(): void {
+    this.generation++;
+    this.clearTimers();
+    this.unsubscribeBaseUrl?.();
+    this.unsubscribeBaseUrl = null;
+    this.setState({ phase: 'idle', protocol: null, retryAt: null, error: null });
+  }
+
+  /**
+   * Manual retry: start the chain over with a fresh backoff
+   */
+  retry(): Promise<void> {
+    if (this.state.phase === 'idle') return this.start();
+    this.clearTimers();
+    this.setState({ round: 0 });
+    return this.negotiate();
+  }
+
+  /**
+   * The consumer has media on screen for `attempt`
+   */
+  reportPlaying(attempt: number): void {
+    if (attempt !== this.state.attempt || this.state.phase !== 'connecting') return;
+
+    this.clearTimers();
+    const protocol = this.state.protocol!;
+    console.log(`[StreamNegotiator] ${this.streamName}: ✅ playing over ${protocol}`);
+    this.setState({ phase: 'playing', round: 0, retryAt: null, error: null });
+    streamNegotiator.recordWorking(this.key, this.endpoint, protocol);
+  }
+
+  /**
+   * The transport for `attempt` failed. While connecting this moves on to the
+   * next protocol; a stream that was already playing retries from the top.
+   */
+  reportFailure(attempt: number, error: Error | string, options: StreamFailureOptions = {}): void {
+    const { phase, protocol } = this.state;
+    if (attempt !== this.state.attempt || (phase !== 'connecting' && phase !== 'playing') || !protocol) return;
+
+    const message = error instanceof Error ? error.message : error;
+    console.warn(`[StreamNegotiator] ${this.streamName}: ${protocol} failed:`, message);
+    this.clearTimers();
+
+    if (options.unsupported) {
+      streamNegotiator.recordUnsupported(this.key, protocol);
+    } else if (phase === 'connecting') {
+      streamNegotiator.forgetWorking(this.key, this.endpoint, protocol);
+    }
+
+    if (phase === 'connecting' && this.chainIndex + 1 < this.chain.length) {
+      this.chainIndex++;
+      this.connect(message);
+    } else {
+      this.scheduleRetry(message);
+    }
+  }
+
+  private async negotiate(): Promise<void> {
+    const generation = ++this.generation;
+    this.clearTimers();
+    this.setState({ phase: 'negotiating', protocol: null, retryAt: null });
+
+    const context = await streamNegotiator.getContext(this.streamName, this.options.surface);
+    if (generation !== this.generation) return;
+
+    this.endpoint = context.endpoint;
+    this.chain = applyDecision(
+      chooseProtocols(this.options.surface, context),
+      streamNegotiator.getDecision(this.key),
+      context.endpoint
+    );
+    this.chainIndex = 0;
+    console.log(
+      `[StreamNegotiator] ${this.streamName} (${this.options.surface}): codec=${context.codec}`,
+      `platform=${context.platform} network=${context.networkType} endpoint=${context.endpoint}`,
+      `-> ${this.chain.join(' > ') || 'nothing to try'}`
+    );
+
+    if (this.chain.length === 0) {
+      this.setState({ phase: 'failed', error: 'No supported stream protocol for this camera' });
+      return;
+    }
+    this.connect(null);
+  }
+
+  private connect(error: string | null): void {
+    const protocol = this.chain[this.chainIndex];
+    const attempt = this.state.attempt + 1;
+    this.setState({ phase: 'connecting', protocol, attempt, retryAt: null, error });
+
+    this.connectTimeout = setTimeout(() => {
+      this.reportFailure(attempt, `${protocol} timed out`);
+    }, CONNECT_TIMEOUT);
+  }
+
+  private scheduleRetry(error: string): void {
+    const round = this.state.round + 1;
+    if (round > MAX_RETRY_ROUNDS) {
+      console.warn(`[StreamNegotiator] ${this.streamName}: giving up after ${MAX_RETRY_ROUNDS} rounds`);
+      this.setState({ phase: 'failed', protocol: null, retryAt: null, error });
+      return;
+    }
+
+    const delay = getBackoffDelay(round);
+    console.log(`[StreamNegotiator] ${this.streamName}: retrying in ${delay}ms (round ${round})`);
+    this.setState({ phase: 'backoff', protocol: null, round, retryAt: Date.now() + delay, error });
+    this.backoffTimeout = setTimeout(() => {
+      this.backoffTimeout = null;
+      this.negotiate();
+    }, delay);
+  }
+
+  private clearTimers(): void {
+    if (this.connectTimeout) {
+      clearTimeout(this.connectTimeout);
+      this.connectTimeout = null;
+    }
+    if (this.backoffTimeout) {
+      clearTimeout(this.backoffTimeout);
+      this.backoffTimeout = null;
+    }
+  }
+
+  private setState(update: Partial<StreamState>): void {
+    this.state = { ...this.state, ...update };
+    const state = this.state;
+    this.stateCallbacks.forEach(callback => {
+      try {
+        callback(state);
+      } catch (err) {
+        console.error('[StreamNegotiator] State callback error:', err);
+      }
+    });
+  }
+}
+
+class StreamNegotiator {
+  private decisions = new PersistedStore<Record<string, StreamDecision>>(DECISIONS_KEY, {}, {
+    name: 'StreamNegotiator',
+    description: 'decisions',
+  });
+  // Concurrent codec lookups (a grid of thumbnails) share one request per stream
+  private codecRequests: Map<string, Promise<string>> = new Map();
+
+  load(): Promise<void> {
+    return this.decisions.load();
+  }
+
+  createSession(options: StreamSessionOptions): StreamSession {
+    return new StreamSession(options);
+  }
+
+  /**
+   * Decisions are per server - camera names repeat across servers
+   */
+  getDecisionKey(streamName: string, surface: StreamSurface): string {
+    return serverScopedKey(`${streamName}:${surface}`);
+  }
+
+  getDecision(key: string): StreamDecision | undefined {
+    return this.decisions.get()[key];
+  }
+
+  async getContext(streamName: string, surface: StreamSurface): Promise<StreamContext> {
+    await this.load();
+    return {
+      codec: await this.getCodec(streamName, surface),
+      platform: Platform.OS,
+      networkType: connectionManager.getNetworkType(),
+      endpoint: connectionManager.getActiveEndpoint()?.kind ?? 'local',
+    };
+  }
+
+  private async getCodec(streamName: string, surface: StreamSurface): Promise<string> {
+    const key = this.getDecisionKey(streamName, surface);
+    const decision = this.decisions.get()[key];
+    if (decision && Date.now() - decision.codecCheckedAt < CODEC_TTL) {
+      return decision.codec;
+    }
+
+    let request = this.codecRequests.get(streamName);
+    if (!request) {
+      request = frigateApi.getCameraCodec(streamName).finally(() => this.codecRequests.delete(streamName));
+      this.codecRequests.set(streamName, request);
+    }
+    const codec = await request;
+
+    // 'unknown' usually means go2rtc hasn't opened the stream yet - ask again next time
+    // A different codec invalidates what we learned about the old one
+    if (codec !== 'unknown') {
+      this.update(key, current => current.codec === codec
+        ? { ...current, codecCheckedAt: Date.now() }
+        : { codec, codecCheckedAt: Date.now(), working: {}, unsupported: [] });
+    }
+    return codec;
+  }
+
+  recordWorking(key: string, endpoint: EndpointKind, protocol: StreamProtocol): void {
+    if (this.decisions.get()[key]?.working[endpoint] === protocol) return;
+    this.update(key, current => ({ ...current, working: { ...current.working, [endpoint]: protocol } }));
+  }
+
+  forgetWorking(key: string, endpoint: EndpointKind, protocol: StreamProtocol): void {
+    if (this.decisions.get()[key]?.working[endpoint] !== protocol) return;
+    this.update(key, current => {
+      const working = { ...current.working };
+      delete working[endpoint];
+      return { ...current, working };
+    });
+  }
+
+  recordUnsupported(key: string, protocol: StreamProtocol): void {
+    if (this.decisions.get()[key]?.unsupported.includes(protocol)) return;
+    this.update(key, current => ({ ...current, unsupported: [...current.unsupported, protocol] }));
+  }
+
+  /**
+   * Forget every decision, e.g. after changing cameras' codecs in Frigate
+   */
+  async clear(): Promise<void> {
+    await this.decisions.clear();
+  }
+
+  private update(key: string, change: (current: StreamDecision) => StreamDecision): void {
+    const decisions = this.decisions.get();
+    const current = decisions[key] ?? { codec: 'unknown', codecCheckedAt: 0, working: {}, unsupported: [] };
+    this.decisions.set({ ...decisions, [key]: change(current) });
+  }
+}
+
+export const streamNegotiator = new StreamNegotiator();
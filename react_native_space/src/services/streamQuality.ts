@@ -0,0 +1,180 @@
+import { PersistedStore, serverScopedKey } from './persistedStore';
+import type { CameraConfig } from './frigateConfig.types';
+import type { WebRTCStats } from './webrtcService';
+
+/**
+ * Stream Quality
+ *
+ * Which go2rtc stream (main or sub) to play for a camera:
+ * - The camera's live.streams mapping says which streams exist. When the
+ *   record and detect inputs restream two of them, those are the main and
+ *   sub stream; otherwise the first is the main stream and one named
+ *   "sub" / "low" / "sd" (or else the last) is the sub stream
+ * - The user picks auto / high / low per camera (stored in AsyncStorage,
+ *   keyed by server like the audio preferences)
+ * - Auto uses the sub stream on cellular, and drops to it when WebRTC stats
+ *   show sustained packet loss or a falling framerate
+ */
+
+export type StreamQuality = 'auto' | 'high' | 'low';
+
+export interface CameraStreams {
+  high: string;
+  // Null when the camera only has one stream
+  low: string | null;
+}
+
+export interface StreamQualityContext {
+  networkType: string | null;
+  // Auto mode saw the main stream struggling
+  degraded: boolean;
+}
+
+export type StreamQualityCallback = (camera: string, quality: StreamQuality) => void;
+
+export const STREAM_QUALITY_LABELS: Record<StreamQuality, string> = {
+  auto: 'Auto',
+  high: 'High (main stream)',
+  low: 'Low (sub stream)',
+};
+
+const STREAM_QUALITY_KEY = 'stream_quality_preferences';
+
+// A whole word of the name, e.g. "Sub", "front_door_sub" or "low-res" but not "yellow_gate"
+const SUB_STREAM_PATTERN = /(^|[\s_-])(sub|substream|low|sd)([\s_-]|$)/i;
+
+// Degradation thresholds - sustained over DEGRADED_SAMPLES consecutive samples
+const MAX_PACKET_LOSS = 0.05;
+const MIN_FRAMERATE_RATIO = 0.5;
+const MIN_FRAMERATE = 5;
+const DEGRADED_SAMPLES = 3;
+
+/**
+ * go2rtc stream an ffmpeg input restreams, e.g. "front_door_sub" for
+ * rtsp://127.0.0.1:8554/front_door_sub
+ */
+const getRestreamName = (path: string): string | null => {
+  const match = path.match(/^rtsp:\/\/[^/]+\/([^/?#]+)/);
+  return match ? match[1] : null;
+};
+
+/**
+ * Main and sub stream of a camera from its live.streams config
+ */
+export const getCameraStreams = (cameraName: string, camera: CameraConfig | null | undefined): CameraStreams => {
+  const entries = Object.entries(camera?.live.streams ?? {});
+  if (entries.length === 0) {
+    return { high: cameraName, low: null };
+  }
+
+  // Frigate records the main stream and detects on the sub stream
+  const streamNames = entries.map(([, streamName]) => streamName);
+  const findRoleStream = (role: string) => (camera?.ffmpeg.inputs ?? [])
+    .filter(input => input.roles.includes(role))
+    .map(input => getRestreamName(input.path))
+    .find((name): name is string => name !== null && streamNames.includes(name));
+  const recordStream = findRoleStream('record');
+  const detectStream = findRoleStream('detect');
+  if (recordStream && detectStream && recordStream !== detectStream) {
+    return { high: recordStream, low: detectStream };
+  }
+
+  const [, high] = entries[0];
+  const rest = entries.slice(1);
+  const named = rest.find(([displayName, streamName]) =>
+    SUB_STREAM_PATTERN.test(displayName) || SUB_STREAM_PATTERN.test(streamName)
+  );
+  const low = named?.[1] ?? rest[rest.length - 1]?.[1] ?? null;
+  return { high, low: low && low !== high ? low : null };
+};
+
+/**
+ * go2rtc stream name to play for a quality setting
+ */
+export const resolveStreamName = (
+  streams: CameraStreams,
+  quality: StreamQuality,
+  context: StreamQualityContext
+): string => {
+  if (!streams.low || quality === 'high') return streams.high;
+  if (quality === 'low') return streams.low;
+  return context.networkType === 'CELLULAR' || context.degraded ? streams.low : streams.high;
+};
+
+/**
+ * Whether the latest WebRTC stats samples show a struggling stream: packet
+ * loss above MAX_PACKET_LOSS, or the framerate below half of the best seen
+ * (and at least MIN_FRAMERATE lower), for DEGRADED_SAMPLES samples in a row.
+ * Samples are cumulative counters, oldest first.
+ */
+export const isStreamDegraded = (samples: WebRTCStats[]): boolean => {
+  if (samples.length < DEGRADED_SAMPLES + 1) return false;
+
+  const bestFramerate = Math.max(...samples.map(sample => sample.framesPerSecond ?? 0));
+  const recent = samples.slice(-(DEGRADED_SAMPLES + 1));
+
+  return recent.slice(1).every((sample, index) => {
+    const previous = recent[index];
+    const received = sample.packetsReceived - previous.packetsReceived;
+    const lost = sample.packetsLost - previous.packetsLost;
+    const loss = received + lost > 0 ? lost / (received + lost) : 0;
+
+    const framerate = sample.framesPerSecond;
+    const framerateDropped = framerate !== null
+      && bestFramerate > 0
+      && framerate < bestFramerate * MIN_FRAMERATE_RATIO
+      && bestFramerate - framerate >= MIN_FRAMERATE;
+
+    return loss > MAX_PACKET_LOSS || framerateDropped;
+  });
+};
+
+class StreamQualityStore {
+  private store = new PersistedStore<Record<string, StreamQuality>>(STREAM_QUALITY_KEY, {}, {
+    name: 'StreamQuality',
+    description: 'preferences',
+  });
+  private changeCallbacks: Set<StreamQualityCallback> = new Set();
+
+  load(): Promise<void> {
+    return this.store.load();
+  }
+
+  getQuality(camera: string): StreamQuality {
+    return this.store.get()[serverScopedKey(camera)] ?? 'auto';
+  }
+
+  async setQuality(camera: string, quality: StreamQuality): Promise<void> {
+    await this.load();
+    const key = serverScopedKey(camera);
+    if (this.getQuality(camera) === quality) return;
+
+    const preferences = { ...this.store.get() };
+    if (quality === 'auto') {
+      delete preferences[key];
+    } else {
+      preferences[key] = quality;
+    }
+    const saved = this.store.set(preferences);
+
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback(camera, quality);
+      } catch (err) {
+        console.error('[StreamQuality] Change callback error:', err);
+      }
+    });
+
+    await saved;
+  }
+
+  /**
+   * Subscribe to quality changes
+   */
+  onChange(callback: StreamQualityCallback): () => void {
+    this.changeCallbacks.add(callback);
+    return () => this.changeCallbacks.delete(callback);
+  }
+}
+
+export const streamQuality = new StreamQualityStore();
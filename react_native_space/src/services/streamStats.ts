@@ -0,0 +1,112 @@
+import type { WebRTCStats } from './webrtcService';
+import type { MSEStreamStats } from './mseStreamService';
+import type { StreamProtocol } from './streamNegotiator';
+
+/**
+ * Stream Stats
+ *
+ * Turns the raw counters each transport exposes into one snapshot for the
+ * live view's stats overlay. Rates (fps, bitrate) come from the difference
+ * between two samples; anything a transport can't measure is null.
+ */
+
+export interface StreamStatsSnapshot {
+  protocol: StreamProtocol;
+  codec: string | null;
+  width: number | null;
+  height: number | null;
+  fps: number | null;
+  bitrateKbps: number | null;
+  // Rough glass-to-glass estimate on top of the camera's own encoder delay
+  latencyMs: number | null;
+  droppedFrames: number | null;
+  packetLossPercent: number | null;
+  // Seconds of video buffered ahead of the playhead
+  bufferSeconds: number | null;
+  // fMP4 segments held by the MSE proxy
+  bufferedSegments: number | null;
+}
+
+/**
+ * What react-native-video reports about the MSE / HLS player
+ */
+export interface PlayerStats {
+  width: number | null;
+  height: number | null;
+  bufferSeconds: number | null;
+  // Android only (onBandwidthUpdate)
+  bitrate: number | null;
+}
+
+export const EMPTY_PLAYER_STATS: PlayerStats = {
+  width: null,
+  height: null,
+  bufferSeconds: null,
+  bitrate: null,
+};
+
+const kbps = (bytes: number, ms: number): number | null =>
+  ms > 0 && bytes >= 0 ? Math.round((bytes * 8) / ms) : null;
+
+export const fromWebRTCStats = (previous: WebRTCStats | undefined, current: WebRTCStats): StreamStatsSnapshot => {
+  const elapsed = previous ? current.timestamp - previous.timestamp : 0;
+  const received = previous ? current.packetsReceived - previous.packetsReceived : 0;
+  const lost = previous ? current.packetsLost - previous.packetsLost : 0;
+
+  // Network one way + time spent in the jitter buffer
+  const bufferDelay = current.jitterBufferDelay !== null && current.jitterBufferEmittedCount
+    ? current.jitterBufferDelay / current.jitterBufferEmittedCount
+    : null;
+  const latency = current.roundTripTime !== null || bufferDelay !== null
+    ? ((current.roundTripTime ?? 0) / 2 + (bufferDelay ?? 0)) * 1000
+    : null;
+
+  return {
+    protocol: 'webrtc',
+    codec: current.codec,
+    width: current.frameWidth,
+    height: current.frameHeight,
+    fps: current.framesPerSecond,
+    bitrateKbps: previous ? kbps(current.bytesReceived - previous.bytesReceived, elapsed) : null,
+    latencyMs: latency !== null ? Math.round(latency) : null,
+    droppedFrames: current.framesDropped,
+    packetLossPercent: previous && received + lost > 0 ? (lost / (received + lost)) * 100 : null,
+    bufferSeconds: bufferDelay,
+    bufferedSegments: null,
+  };
+};
+
+export const fromMSEStats = (
+  previous: MSEStreamStats | null,
+  current: MSEStreamStats,
+  player: PlayerStats
+): StreamStatsSnapshot => ({
+  protocol: 'mse',
+  // e.g. 'video/mp4; codecs="hvc1.1.6.L153.B0"'
+  codec: current.mimeType.match(/codecs="([^"]+)"/)?.[1] ?? (current.mimeType || null),
+  width: player.width,
+  height: player.height,
+  fps: null,
+  bitrateKbps: previous ? kbps(current.bytesReceived - previous.bytesReceived, current.timestamp - previous.timestamp) : null,
+  // The player trails the live edge by what it has buffered
+  latencyMs: player.bufferSeconds !== null ? Math.round(player.bufferSeconds * 1000) : null,
+  droppedFrames: null,
+  packetLossPercent: null,
+  bufferSeconds: player.bufferSeconds,
+  bufferedSegments: current.bufferSize,
+});
+
+export const fromHLSStats = (player: PlayerStats): StreamStatsSnapshot => ({
+  protocol: 'hls',
+  codec: null,
+  width: player.width,
+  height: player.height,
+  fps: null,
+  bitrateKbps: player.bitrate !== null ? Math.round(player.bitrate / 1000) : null,
+  // Dominated by segment length, which the player doesn't report
+  latencyMs: null,
+  droppedFrames: null,
+  packetLossPercent: null,
+  bufferSeconds: player.bufferSeconds,
+  bufferedSegments: null,
+});
@@ -0,0 +1,83 @@
+import type { MotionActivity, AudioActivity } from './frigateReviewApi';
+import type { RecordingSegment } from './frigateRecordingsApi';
+
+/**
+ * Timeline Activity
+ *
+ * Buckets Frigate's motion and audio activity samples into the timeline's
+ * rows so activity that never became an event still shows up. Motion is
+ * relative (changed pixels), so it is scaled against the busiest bucket;
+ * audio is absolute dBFS and uses a fixed scale. All times are Unix
+ * timestamps in SECONDS.
+ */
+
+export interface ActivitySample {
+  time: number;
+  value: number;
+}
+
+export interface ActivityBucket {
+  start: number;
+  end: number;
+  // 0-1
+  intensity: number;
+}
+
+// dBFS mapped onto the heatmap: near silence to loud speech
+const AUDIO_FLOOR = -80;
+const AUDIO_CEILING = -10;
+
+// Buckets quieter than this aren't drawn
+const MIN_INTENSITY = 0.05;
+
+export const motionSamples = (activity: MotionActivity[]): ActivitySample[] =>
+  activity.map(sample => ({ time: sample.start_time, value: sample.motion }));
+
+/**
+ * Fallback for servers without /api/review/activity (before 0.14) - each
+ * recording segment carries its own motion count
+ */
+export const motionSamplesFromRecordings = (segments: RecordingSegment[]): ActivitySample[] =>
+  segments.map(segment => ({ time: segment.start_time, value: segment.motion }));
+
+export const audioSamples = (activity: AudioActivity[]): ActivitySample[] =>
+  activity
+    // Frigate reports 0 for segments recorded without audio
+    .filter(sample => sample.audio < 0)
+    .map(sample => ({
+      time: sample.start_time,
+      value: Math.min(Math.max((sample.audio - AUDIO_FLOOR) / (AUDIO_CEILING - AUDIO_FLOOR), 0), 1),
+    }));
+
+/**
+ * Group samples into bucketSeconds-wide buckets counting back from end.
+ * 'sum' normalises against the busiest bucket (motion); 'max' keeps the
+ * samples' own 0-1 scale (audio).
+ */
+export const bucketActivity = (
+  samples: ActivitySample[],
+  start: number,
+  end: number,
+  bucketSeconds: number,
+  mode: 'sum' | 'max'
+): ActivityBucket[] => {
+  const totals = new Map<number, number>();
+
+  for (const sample of samples) {
+    if (sample.time < start || sample.time > end) continue;
+    const index = Math.floor((end - sample.time) / bucketSeconds);
+    const current = totals.get(index) ?? 0;
+    totals.set(index, mode === 'sum' ? current + sample.value : Math.max(current, sample.value));
+  }
+
+  const scale = mode === 'sum' ? Math.max(0, ...totals.values()) : 1;
+  if (scale === 0) return [];
+
+  return Array.from(totals.entries())
+    .map(([index, value]) => ({
+      start: Math.max(end - (index + 1) * bucketSeconds, start),
+      end: end - index * bucketSeconds,
+      intensity: value / scale,
+    }))
+    .filter(bucket => bucket.intensity >= MIN_INTENSITY);
+};
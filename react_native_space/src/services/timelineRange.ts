@@ -0,0 +1,43 @@
+/**
+ * Timeline Range
+ *
+ * The camera timeline loads events, recordings and activity lazily in
+ * fixed, epoch-aligned chunks as it is scrolled (or jumped) back in time, so
+ * any point in history maps to the same chunk however it was reached. All
+ * times are Unix timestamps in MILLISECONDS.
+ */
+
+export const TIMELINE_CHUNK_MS = 6 * 60 * 60 * 1000;
+
+// Loaded up front when a camera is opened
+export const INITIAL_TIMELINE_MS = 12 * 60 * 60 * 1000;
+
+export const getChunkStart = (timestamp: number): number =>
+  Math.floor(timestamp / TIMELINE_CHUNK_MS) * TIMELINE_CHUNK_MS;
+
+/**
+ * Starts of the chunks overlapping [from, to] that aren't loaded yet, newest
+ * first so the part nearest the viewport arrives first
+ */
+export const getMissingChunks = (loaded: Set<number>, from: number, to: number): number[] => {
+  const missing: number[] = [];
+  for (let chunk = getChunkStart(to); chunk >= getChunkStart(from); chunk -= TIMELINE_CHUNK_MS) {
+    if (!loaded.has(chunk)) missing.push(chunk);
+  }
+  return missing;
+};
+
+/**
+ * Merge a freshly fetched page into what's already loaded. Incoming items
+ * replace existing ones with the same key, so in-progress events pick up
+ * their end time.
+ */
+export const mergeTimelineItems = <T>(
+  existing: T[],
+  incoming: T[],
+  getKey: (item: T) => string | number
+): T[] => {
+  const merged = new Map(existing.map(item => [getKey(item), item]));
+  incoming.forEach(item => merged.set(getKey(item), item));
+  return Array.from(merged.values());
+};
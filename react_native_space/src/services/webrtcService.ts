@@ -5,35 +5,141 @@
  * - {"type": "webrtc/offer", "value": "SDP string"}
  * - {"type": "webrtc/answer", "value": "SDP string"}
  * - {"type": "webrtc/candidate", "value": "candidate string"}
+ * 
+ * Talkback: go2rtc only sets up a backchannel for an offer that sends audio,
+ * so enabling it adds the microphone to the open connection and sends a new
+ * offer over the same WebSocket. The answer's audio direction tells us
+ * whether the camera can actually play it.
  */
 
 import {
   RTCPeerConnection,
   RTCIceCandidate,
   RTCSessionDescription,
+  RTCRtpSender,
   MediaStream,
+  mediaDevices,
 } from 'react-native-webrtc';
 import { frigateApi } from './frigateApi';
 import * as Sentry from '@sentry/react-native';
 
 export interface WebRTCConnectionConfig {
   cameraName: string;
+  // go2rtc stream to play (defaults to the camera name), e.g. the sub stream
+  streamName?: string;
   onRemoteStream?: (stream: MediaStream) => void;
   onConnectionStateChange?: (state: string) => void;
   onError?: (error: Error) => void;
   onCodecError?: (error: Error) => void;  // Specific callback for codec mismatch
+  onTalkbackStateChange?: (state: TalkbackState) => void;
+  // Start with the camera's audio muted (default true)
+  audioMuted?: boolean;
+  // Sampled every STATS_INTERVAL while connected
+  onStats?: (stats: WebRTCStats) => void;
+}
+
+/**
+ * Cumulative counters for the inbound video track, as reported by getStats()
+ */
+export interface WebRTCStats {
+  timestamp: number;
+  packetsReceived: number;
+  packetsLost: number;
+  bytesReceived: number;
+  framesPerSecond: number | null;
+  framesDecoded: number;
+  framesDropped: number;
+  frameWidth: number | null;
+  frameHeight: number | null;
+  // Seconds
+  jitter: number | null;
+  roundTripTime: number | null;
+  // Total seconds frames spent in the jitter buffer, and how many left it
+  jitterBufferDelay: number | null;
+  jitterBufferEmittedCount: number | null;
+  codec: string | null;
 }
 
+const STATS_INTERVAL = 2000;
+
+// go2rtc answers within a second or two; past this the talkback offer is abandoned
+const TALKBACK_ANSWER_TIMEOUT = 10000;
+
+const parseStatsReport = (report: any): WebRTCStats | null => {
+  const entries: any[] = [];
+  report.forEach((entry: any) => entries.push(entry));
+
+  const video = entries.find(entry => entry.type === 'inbound-rtp' && (entry.kind ?? entry.mediaType) === 'video');
+  if (!video) return null;
+
+  const pair = entries.find(entry => entry.type === 'candidate-pair' && (entry.nominated || entry.selected) && entry.state === 'succeeded');
+  const codec = entries.find(entry => entry.type === 'codec' && entry.id === video.codecId);
+
+  return {
+    timestamp: Date.now(),
+    packetsReceived: video.packetsReceived ?? 0,
+    packetsLost: Math.max(video.packetsLost ?? 0, 0),
+    bytesReceived: video.bytesReceived ?? 0,
+    framesPerSecond: video.framesPerSecond ?? null,
+    framesDecoded: video.framesDecoded ?? 0,
+    framesDropped: video.framesDropped ?? 0,
+    frameWidth: video.frameWidth ?? null,
+    frameHeight: video.frameHeight ?? null,
+    jitter: video.jitter ?? null,
+    roundTripTime: pair?.currentRoundTripTime ?? null,
+    jitterBufferDelay: video.jitterBufferDelay ?? null,
+    jitterBufferEmittedCount: video.jitterBufferEmittedCount ?? null,
+    codec: codec?.mimeType?.replace(/^video\//, '') ?? null,
+  };
+};
+
+/**
+ * - idle: microphone not attached
+ * - connecting: renegotiating with the microphone
+ * - ready / talking: backchannel up, microphone muted / live
+ * - unsupported: the camera has no backchannel (microphone released again)
+ * - error: microphone permission or negotiation failed
+ */
+export type TalkbackState = 'idle' | 'connecting' | 'ready' | 'talking' | 'unsupported' | 'error';
+
+/**
+ * Whether an SDP answer accepts audio from us, i.e. has an audio section
+ * go2rtc will receive on (recvonly / sendrecv from its side)
+ */
+const answerAcceptsAudio = (sdp: string): boolean =>
+  sdp.split(/^m=/m).slice(1).some(section =>
+    section.startsWith('audio')
+    && !/^a=inactive/m.test(section)
+    && (/^a=recvonly/m.test(section) || /^a=sendrecv/m.test(section))
+  );
+
 export class WebRTCConnection {
   private peerConnection: RTCPeerConnection | null = null;
   private webSocket: WebSocket | null = null;
   private config: WebRTCConnectionConfig;
-  private baseUrl: string;
   private isConnecting: boolean = false;
+  private localStream: MediaStream | null = null;
+  private microphoneSenders: RTCRtpSender[] = [];
+  // A talkback offer is out - its answer or error mustn't tear down the stream
+  private isRenegotiating: boolean = false;
+  private renegotiationTimeout: NodeJS.Timeout | null = null;
+  private talkbackState: TalkbackState = 'idle';
+  private remoteStream: MediaStream | null = null;
+  private audioMuted: boolean;
+  private statsInterval: NodeJS.Timeout | null = null;
   
   constructor(config: WebRTCConnectionConfig) {
     this.config = config;
-    this.baseUrl = frigateApi.getBaseUrl();
+    this.audioMuted = config.audioMuted ?? true;
+  }
+
+  // Read at connect time so reconnects follow local/remote URL switches
+  private get baseUrl(): string {
+    return frigateApi.getBaseUrl();
+  }
+
+  private get streamName(): string {
+    return this.config.streamName ?? this.config.cameraName;
   }
 
   async connect(): Promise<void> {
@@ -45,7 +151,7 @@ export class WebRTCConnection {
     this.isConnecting = true;
     
     try {
-      console.log('[WebRTC] Starting WebSocket signaling for camera:', this.config.cameraName);
+      console.log('[WebRTC] Starting WebSocket signaling for stream:', this.streamName);
       
       // Create peer connection
       this.peerConnection = new RTCPeerConnection({
@@ -55,7 +161,12 @@ export class WebRTCConnection {
         ],
       });
 
-      this.setupPeerConnectionHandlers();
+      this.setupPeerConnectionHandlers(this.peerConnection);
+      
+      // Attach the microphone for talkback (sendrecv audio instead of recvonly)
+      if (this.localStream) {
+        this.addMicrophone(this.peerConnection, this.localStream);
+      }
       
       // Open WebSocket first
       await this.openWebSocket();
@@ -92,7 +203,7 @@ export class WebRTCConnection {
         .replace('https://', 'wss://')
         .replace('http://', 'ws://');
       
-      const fullUrl = `${wsUrl}/api/go2rtc/api/ws?src=${encodeURIComponent(this.config.cameraName)}`;
+      const fullUrl = `${wsUrl}/api/go2rtc/api/ws?src=${encodeURIComponent(this.streamName)}`;
       console.log('[WebRTC] Opening WebSocket:', fullUrl);
       
       this.webSocket = new WebSocket(fullUrl);
@@ -137,6 +248,10 @@ export class WebRTCConnection {
           break;
         case 'error':
           console.error('[WebRTC] Server error:', message.value);
+          if (this.isRenegotiating) {
+            this.handleTalkbackFailure();
+            break;
+          }
           const errorMsg = message.value as string;
           // Detect codec mismatch errors (H265 not supported)
           if (errorMsg.includes('codecs not matched') || errorMsg.includes('H265')) {
@@ -155,20 +270,45 @@ export class WebRTCConnection {
   }
 
   private async handleAnswer(sdp: string): Promise<void> {
+    const renegotiating = this.isRenegotiating;
+    this.isRenegotiating = false;
+    this.clearRenegotiationTimeout();
+
     try {
       console.log('[WebRTC] Received SDP answer, length:', sdp.length);
       
       if (!this.peerConnection) {
         throw new Error('PeerConnection not initialized');
       }
+
+      // A late answer to a talkback offer that was already rolled back
+      if (this.peerConnection.signalingState === 'stable') {
+        console.warn('[WebRTC] Ignoring answer with no offer pending');
+        return;
+      }
       
       await this.peerConnection.setRemoteDescription(
         new RTCSessionDescription({ type: 'answer', sdp })
       );
       console.log('[WebRTC] Remote description set successfully');
       this.isConnecting = false;
+      
+      if (this.localStream) {
+        if (answerAcceptsAudio(sdp)) {
+          console.log('[WebRTC] 🎙️ Backchannel available');
+          this.setTalkbackState('ready');
+        } else {
+          console.log('[WebRTC] Camera has no audio backchannel');
+          this.releaseMicrophone();
+          this.setTalkbackState('unsupported');
+        }
+      }
     } catch (error) {
       console.error('[WebRTC] Failed to set remote description:', error);
+      if (renegotiating) {
+        this.handleTalkbackFailure();
+        return;
+      }
       this.config.onError?.(error instanceof Error ? error : new Error(String(error)));
     }
   }
@@ -199,21 +339,27 @@ export class WebRTCConnection {
     }
   }
 
-  private setupPeerConnectionHandlers(): void {
-    if (!this.peerConnection) return;
+  private setupPeerConnectionHandlers(pc: RTCPeerConnection): void {
+    // Ignore events from a connection we've since replaced (reconnects)
+    const isCurrent = () => pc === this.peerConnection;
 
     // Handle remote tracks
-    (this.peerConnection as any).addEventListener('track', (event: any) => {
+    (pc as any).addEventListener('track', (event: any) => {
+      if (!isCurrent()) return;
       console.log('[WebRTC] Received remote track:', event.track?.kind);
+      if (event.track?.kind === 'audio') {
+        event.track.enabled = !this.audioMuted;
+      }
       if (event.streams && event.streams[0]) {
         console.log('[WebRTC] ✅ Remote stream ready!');
+        this.remoteStream = event.streams[0];
         this.config.onRemoteStream?.(event.streams[0]);
       }
     });
 
     // Send local ICE candidates (go2rtc format)
-    (this.peerConnection as any).addEventListener('icecandidate', (event: any) => {
-      if (event.candidate) {
+    (pc as any).addEventListener('icecandidate', (event: any) => {
+      if (isCurrent() && event.candidate) {
         console.log('[WebRTC] Sending local ICE candidate');
         this.sendWebSocketMessage({
           type: 'webrtc/candidate',
@@ -223,14 +369,16 @@ export class WebRTCConnection {
     });
 
     // Connection state changes
-    (this.peerConnection as any).addEventListener('connectionstatechange', () => {
-      const state = (this.peerConnection as any)?.connectionState || 'unknown';
+    (pc as any).addEventListener('connectionstatechange', () => {
+      if (!isCurrent()) return;
+      const state = (pc as any).connectionState || 'unknown';
       console.log('[WebRTC] Connection state:', state);
       this.config.onConnectionStateChange?.(state);
 
       if (state === 'connected') {
         console.log('[WebRTC] ✅ Connection established!');
         this.isConnecting = false;
+        this.startStats(pc);
       } else if (state === 'failed' || state === 'disconnected' || state === 'closed') {
         console.error('[WebRTC] Connection failed or closed');
         this.config.onError?.(new Error(`Connection ${state}`));
@@ -238,8 +386,9 @@ export class WebRTCConnection {
     });
 
     // ICE connection state
-    (this.peerConnection as any).addEventListener('iceconnectionstatechange', () => {
-      const state = this.peerConnection?.iceConnectionState || 'unknown';
+    (pc as any).addEventListener('iceconnectionstatechange', () => {
+      if (!isCurrent()) return;
+      const state = pc.iceConnectionState || 'unknown';
       console.log('[WebRTC] ICE connection state:', state);
       
       if (state === 'connected' || state === 'completed') {
@@ -253,17 +402,189 @@ export class WebRTCConnection {
 
   disconnect(): void {
     console.log('[WebRTC] Disconnecting...');
+    this.closeConnection();
+    this.releaseMicrophone();
+    this.setTalkbackState('idle');
+  }
+
+  private closeConnection(): void {
     this.isConnecting = false;
+    this.isRenegotiating = false;
+    this.clearRenegotiationTimeout();
+    this.microphoneSenders = [];
     
     if (this.webSocket) {
+      this.webSocket.onmessage = null;
       this.webSocket.close();
       this.webSocket = null;
     }
     
     if (this.peerConnection) {
-      this.peerConnection.close();
+      const pc = this.peerConnection;
       this.peerConnection = null;
+      pc.close();
     }
+    
+    this.remoteStream = null;
+    this.stopStats();
+  }
+
+  private startStats(pc: RTCPeerConnection): void {
+    if (!this.config.onStats || this.statsInterval) return;
+    
+    this.statsInterval = setInterval(async () => {
+      if (pc !== this.peerConnection) return;
+      try {
+        const stats = parseStatsReport(await pc.getStats());
+        if (stats && pc === this.peerConnection) {
+          this.config.onStats?.(stats);
+        }
+      } catch (error) {
+        console.warn('[WebRTC] Failed to read stats:', error);
+      }
+    }, STATS_INTERVAL);
+  }
+
+  private stopStats(): void {
+    if (this.statsInterval) {
+      clearInterval(this.statsInterval);
+      this.statsInterval = null;
+    }
+  }
+
+  /**
+   * Mute or unmute the camera's audio. Applies to tracks that arrive later
+   * too, so it can be called before the stream is up.
+   */
+  setAudioMuted(muted: boolean): void {
+    this.audioMuted = muted;
+    this.remoteStream?.getAudioTracks().forEach(track => {
+      track.enabled = !muted;
+    });
+  }
+
+  /**
+   * Whether go2rtc sent an audio track (the camera may not have a microphone)
+   */
+  hasRemoteAudio(): boolean {
+    return (this.remoteStream?.getAudioTracks().length ?? 0) > 0;
+  }
+
+  /**
+   * Attach the microphone (muted) and renegotiate the open connection so
+   * go2rtc sets up the camera's backchannel. The video keeps playing
+   * throughout. Resolves once the new offer is sent; the outcome arrives
+   * through onTalkbackStateChange.
+   */
+  async enableTalkback(): Promise<void> {
+    if (this.localStream) return;
+    
+    this.setTalkbackState('connecting');
+    try {
+      const pc = this.peerConnection;
+      if (!pc || this.webSocket?.readyState !== WebSocket.OPEN) {
+        throw new Error('Stream is not connected');
+      }
+
+      const stream = await mediaDevices.getUserMedia({ audio: true, video: false });
+      stream.getAudioTracks().forEach(track => {
+        track.enabled = false;
+      });
+      this.localStream = stream;
+      this.addMicrophone(pc, stream);
+      
+      console.log('[WebRTC] Renegotiating with microphone for talkback');
+      this.isRenegotiating = true;
+      const offer = await pc.createOffer({
+        offerToReceiveAudio: true,
+        offerToReceiveVideo: true,
+      });
+      await pc.setLocalDescription(offer);
+      this.sendWebSocketMessage({
+        type: 'webrtc/offer',
+        value: offer.sdp,
+      });
+      this.renegotiationTimeout = setTimeout(() => {
+        this.renegotiationTimeout = null;
+        console.warn('[WebRTC] No answer to the talkback offer');
+        this.handleTalkbackFailure();
+      }, TALKBACK_ANSWER_TIMEOUT);
+    } catch (error) {
+      console.error('[WebRTC] Failed to enable talkback:', error);
+      await this.abandonRenegotiation();
+      this.setTalkbackState('error');
+      throw error;
+    }
+  }
+
+  /**
+   * Push-to-talk: unmute or mute the microphone once the backchannel is up
+   */
+  setTalking(talking: boolean): void {
+    if (!this.localStream || (this.talkbackState !== 'ready' && this.talkbackState !== 'talking')) return;
+    
+    this.localStream.getAudioTracks().forEach(track => {
+      track.enabled = talking;
+    });
+    this.setTalkbackState(talking ? 'talking' : 'ready');
+  }
+
+  getTalkbackState(): TalkbackState {
+    return this.talkbackState;
+  }
+
+  private addMicrophone(pc: RTCPeerConnection, stream: MediaStream): void {
+    this.microphoneSenders = stream.getAudioTracks().map(track => pc.addTrack(track, stream));
+  }
+
+  /**
+   * The talkback offer was rejected - drop the microphone but keep the stream
+   */
+  private async handleTalkbackFailure(): Promise<void> {
+    console.error('[WebRTC] Talkback renegotiation failed');
+    await this.abandonRenegotiation();
+    this.setTalkbackState('error');
+  }
+
+  /**
+   * Roll back an unanswered offer so the connection can negotiate again,
+   * then release the microphone
+   */
+  private async abandonRenegotiation(): Promise<void> {
+    this.isRenegotiating = false;
+    this.clearRenegotiationTimeout();
+
+    const pc = this.peerConnection;
+    if (pc?.signalingState === 'have-local-offer') {
+      try {
+        await pc.setLocalDescription({ type: 'rollback', sdp: '' });
+      } catch (error) {
+        console.warn('[WebRTC] Failed to roll back talkback offer:', error);
+      }
+    }
+    this.releaseMicrophone();
+  }
+
+  private clearRenegotiationTimeout(): void {
+    if (this.renegotiationTimeout) {
+      clearTimeout(this.renegotiationTimeout);
+      this.renegotiationTimeout = null;
+    }
+  }
+
+  private releaseMicrophone(): void {
+    this.microphoneSenders.forEach(sender => this.peerConnection?.removeTrack(sender));
+    this.microphoneSenders = [];
+    if (this.localStream) {
+      this.localStream.getTracks().forEach(track => track.stop());
+      this.localStream = null;
+    }
+  }
+
+  private setTalkbackState(state: TalkbackState): void {
+    if (state === this.talkbackState) return;
+    this.talkbackState = state;
+    this.config.onTalkbackStateChange?.(state);
   }
 
   getConnectionState(): string {